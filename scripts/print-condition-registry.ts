@@ -1,4 +1,15 @@
-import { CONDITIONS, DAILY_CONDITION_IDS, FOUR_HOUR_CONDITION_IDS, SCREENER_BOOTSTRAP } from "../src/config/screenerBootstrap.js";
+import { describeCompositeExpression } from "../src/config/compositeExpressions.js";
+import { describeConditionRuleLines, RULE_TIMEFRAME_LABELS } from "../src/config/conditionRules.js";
+import { describeRsiPreFilter } from "../src/config/rsiPreFilter.js";
+import { describeScoreWeights } from "../src/config/scoreModel.js";
+import {
+  COMPOSITE_CONDITION_IDS,
+  CONDITIONS,
+  DAILY_CONDITION_IDS,
+  FOUR_HOUR_CONDITION_IDS,
+  isRuleCondition,
+  SCREENER_BOOTSTRAP,
+} from "../src/config/screenerBootstrap.js";
 
 const lines = [
   `# ${SCREENER_BOOTSTRAP.title}`,
@@ -11,11 +22,20 @@ const lines = [
   "",
   `[group] fourHour = ${FOUR_HOUR_CONDITION_IDS.join(", ")}`,
   `[group] daily = ${DAILY_CONDITION_IDS.join(", ")}`,
+  `[group] composite = ${COMPOSITE_CONDITION_IDS.join(", ")}`,
   "",
   ...CONDITIONS.flatMap((condition) => [
     `${condition.id}. ${condition.title}`,
     `   - timeframe: ${condition.timeframe}`,
     `   - description: ${condition.description}`,
+    ...(isRuleCondition(condition)
+      ? [
+          `   - rsi-pre-filter: ${describeRsiPreFilter(condition.rsiPreFilter)}`,
+          "   - rules:",
+          ...describeConditionRuleLines(condition.rule).map((line) => `     - ${line}`),
+          `   - score: ${RULE_TIMEFRAME_LABELS[condition.score.keyMa.timeframe]} ${condition.score.keyMa.period}선 기준, ${describeScoreWeights(condition.score.weights)}`,
+        ]
+      : [`   - expression: ${describeCompositeExpression(condition.expression)}`]),
     "",
   ]),
 ];
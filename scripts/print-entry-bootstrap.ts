@@ -1,38 +1,47 @@
-import { ENTRY_BOOTSTRAP } from "../src/config/entryBootstrap.js";
+import { ENTRY_BOOTSTRAP, type EntryProfile } from "../src/config/entryBootstrap.js";
+
+function describeProfile(profile: EntryProfile) {
+  return [
+    `[${profile.enabled ? "enabled" : "disabled"}] ${profile.id} -> condition ${profile.conditionId}`,
+    `title: ${profile.title}`,
+    `conditionTitle: ${profile.conditionTitle}`,
+    `sourceProject: ${profile.sourceProject}`,
+    `sourceConfig: ${profile.sourceConfigPath}`,
+    `sourceStatus: ${profile.sourceStatusPath}`,
+    `sourceState: ${profile.sourceStatePath}`,
+    "",
+    "[transferred]",
+    ...profile.transferredSignals.map((item) => `- ${item}`),
+    "",
+    "[omitted]",
+    ...profile.omittedSignals.map((item) => `- ${item}`),
+    "",
+    "[thresholds]",
+    `- minPriceChangePct: ${profile.minPriceChangePct}`,
+    `- min24hNotionalVolumeKrw: ${profile.min24hNotionalVolumeKrw}`,
+    `- minAverage4hNotionalVolumeKrw: ${profile.minAverage4hNotionalVolumeKrw}`,
+    `- average4hNotionalVolumeLookbackBars: ${profile.average4hNotionalVolumeLookbackBars}`,
+    `- currentTouchDailyMaPeriod: ${profile.currentTouchDailyMaPeriod}`,
+    `- dailyMaEntryTolerancePct: ${profile.dailyMaEntryTolerancePct}`,
+    `- ma20UpperMultiplier: ${profile.ma20UpperMultiplier}`,
+    `- longMaUpperMultiplier: ${profile.longMaUpperMultiplier}`,
+    `- recentVolumeInflowLookbackDays: ${profile.recentVolumeInflowLookbackDays}`,
+    `- recentVolumeInflowMinVolumeRatio: ${profile.recentVolumeInflowMinVolumeRatio}`,
+    `- recentVolumeInflowBaselineDays: ${profile.recentVolumeInflowBaselineDays}`,
+    `- excludedSymbols: ${profile.excludedSymbols.join(", ")}`,
+  ];
+}
 
-const profile = ENTRY_BOOTSTRAP.activeProfile;
 const lines = [
   `# ${ENTRY_BOOTSTRAP.title}`,
   "",
   `entry: ${ENTRY_BOOTSTRAP.entryFile}`,
+  `thresholds: ${ENTRY_BOOTSTRAP.thresholdsFile}`,
   `print: ${ENTRY_BOOTSTRAP.printScriptCommand}`,
+  `sync: ${ENTRY_BOOTSTRAP.syncScriptCommand}`,
+  `profiles: ${ENTRY_BOOTSTRAP.profiles.length}`,
   "",
-  `[active] ${profile.id}`,
-  `title: ${profile.title}`,
-  `sourceProject: ${profile.sourceProject}`,
-  `sourceConfig: ${profile.sourceConfigPath}`,
-  `sourceStatus: ${profile.sourceStatusPath}`,
-  `sourceState: ${profile.sourceStatePath}`,
-  "",
-  "[transferred]",
-  ...profile.transferredSignals.map((item) => `- ${item}`),
-  "",
-  "[omitted]",
-  ...profile.omittedSignals.map((item) => `- ${item}`),
-  "",
-  "[thresholds]",
-  `- minPriceChangePct: ${profile.minPriceChangePct}`,
-  `- min24hNotionalVolumeKrw: ${profile.min24hNotionalVolumeKrw}`,
-  `- minAverage4hNotionalVolumeKrw: ${profile.minAverage4hNotionalVolumeKrw}`,
-  `- average4hNotionalVolumeLookbackBars: ${profile.average4hNotionalVolumeLookbackBars}`,
-  `- currentTouchDailyMaPeriod: ${profile.currentTouchDailyMaPeriod}`,
-  `- dailyMaEntryTolerancePct: ${profile.dailyMaEntryTolerancePct}`,
-  `- ma20UpperMultiplier: ${profile.ma20UpperMultiplier}`,
-  `- longMaUpperMultiplier: ${profile.longMaUpperMultiplier}`,
-  `- recentVolumeInflowLookbackDays: ${profile.recentVolumeInflowLookbackDays}`,
-  `- recentVolumeInflowMinVolumeRatio: ${profile.recentVolumeInflowMinVolumeRatio}`,
-  `- recentVolumeInflowBaselineDays: ${profile.recentVolumeInflowBaselineDays}`,
-  `- excludedSymbols: ${profile.excludedSymbols.join(", ")}`,
+  ...ENTRY_BOOTSTRAP.profiles.flatMap((profile) => [...describeProfile(profile), ""]),
 ];
 
 console.log(lines.join("\n"));
@@ -0,0 +1,70 @@
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { ENTRY_BOOTSTRAP } from "../src/config/entryBootstrap.js";
+import { ENTRY_PROFILE_THRESHOLDS } from "../src/config/entryProfileThresholds.js";
+import {
+  formatThresholdValue,
+  loadEntryProfileSync,
+  renderEntryProfileThresholdsModule,
+} from "../server/entryProfileSync.js";
+
+// Usage: npm run entry:sync -- [--profile <id>] [--config <path>] [--dry-run]
+const { values } = parseArgs({
+  options: {
+    profile: { type: "string" },
+    config: { type: "string" },
+    "dry-run": { type: "boolean", default: false },
+  },
+});
+
+const profiles = ENTRY_BOOTSTRAP.profiles;
+const profile = values.profile
+  ? profiles.find((item) => item.id === values.profile)
+  : profiles.length === 1
+    ? profiles[0]
+    : undefined;
+
+if (!profile) {
+  console.error(
+    values.profile
+      ? `Unknown profile "${values.profile}".`
+      : "Several entry profiles are registered; pass --profile <id>.",
+  );
+  console.error(`profiles: ${profiles.map((item) => item.id).join(", ")}`);
+  process.exit(1);
+}
+
+const result = loadEntryProfileSync(profile, values.config ?? profile.sourceConfigPath);
+console.log(`# ${profile.id} <- ${result.configPath}`);
+
+if (!result.thresholds) {
+  console.error("refused:");
+  result.errors.forEach((error) => console.error(`- ${error}`));
+  process.exit(1);
+}
+
+if (result.changes.length === 0) {
+  console.log("already in sync");
+  process.exit(0);
+}
+
+console.log("[diff]");
+result.changes.forEach((change) =>
+  console.log(`- ${change.field}: ${formatThresholdValue(change.current)} -> ${formatThresholdValue(change.next)}`),
+);
+
+if (values["dry-run"]) {
+  console.log("dry run: nothing written");
+  process.exit(0);
+}
+
+const thresholdsFile = path.join(process.cwd(), ENTRY_BOOTSTRAP.thresholdsFile);
+const nextThresholds = Object.fromEntries(
+  profiles.flatMap((item) => {
+    const thresholds = item.id === profile.id ? result.thresholds : ENTRY_PROFILE_THRESHOLDS[item.id];
+    return thresholds ? [[item.id, thresholds]] : [];
+  }),
+);
+fs.writeFileSync(thresholdsFile, renderEntryProfileThresholdsModule(nextThresholds));
+console.log(`wrote ${ENTRY_BOOTSTRAP.thresholdsFile}`);
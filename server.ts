@@ -2,99 +2,111 @@ import express from "express";
 import fs from "fs";
 import path from "path";
 import {
-  ALL_CONDITION_IDS,
-  DAILY_CONDITION_IDS,
-  FOUR_HOUR_CONDITION_IDS,
+  CONDITIONS,
+  DEFAULT_CONDITION_ID,
+  isRuleCondition,
+  parseCustomConditionInput,
+  type CompositeConditionMeta,
+  type ConditionGroup,
   type ConditionId,
+  type ConditionMeta,
+  type RuleConditionMeta,
 } from "./src/config/screenerBootstrap.js";
-import { ACTIVE_ENTRY_PROFILE } from "./src/config/entryBootstrap.js";
-
-type ScreenerRow = {
-  market: string;
-  korean_name: string;
-  english_name: string;
-  price: number;
-  change: number;
-  volume: number;
-  ma20_d: number | null;
-  ma60_d: number | null;
-  ma120_d: number | null;
-  ma240_d: number | null;
-  ma120_m: number | null;
-  candle_count_m: number;
-};
+import { ENABLED_ENTRY_PROFILES, ENTRY_PROFILES } from "./src/config/entryBootstrap.js";
+import { ruleUsesOrderbook } from "./src/config/conditionRules.js";
+import { SLIPPAGE_ORDER_KRW } from "./src/config/indicatorColumns.js";
+import { DEFAULT_EXCHANGE_ID, getExchangeTradeUrl, isExchangeId, type ExchangeId } from "./src/config/exchanges.js";
+import { createAlertDispatcher, type AlertPayload } from "./server/alertDispatcher.js";
+import { createAlertRuleStore, matchesAlertRule, parseAlertRuleInput } from "./server/alertRuleStore.js";
+import { createBithumbAdapter } from "./server/bithumbAdapter.js";
+import {
+  createCandleStore,
+  migrateLegacyCandleLayout,
+  type CandleInterval,
+  type CandleStore,
+} from "./server/candleStore.js";
+import { createCustomConditionStore } from "./server/customConditionStore.js";
+import { createDataSource, parseDataSource } from "./server/dataSource.js";
+import { loadEntryProfileSync } from "./server/entryProfileSync.js";
+import type { ExchangeAdapter, MarketMeta, Orderbook, TickerQuote } from "./server/exchangeAdapter.js";
+import { createUpbitAdapter } from "./server/upbitAdapter.js";
+import {
+  listBacktestReports,
+  readBacktestReport,
+  runConditionBacktest,
+  writeBacktestReport,
+} from "./server/backtest.js";
+import { buildCompositeResults, explainCompositeExpression } from "./server/compositeEngine.js";
+import { runConcurrentQueue } from "./server/concurrency.js";
+import { isVolumeInflowBar } from "./server/indicators.js";
+import { analyzeOrderbook, getOrderbookColumnValues } from "./server/orderbookAnalysis.js";
+import { calculateRankingScore } from "./server/rankingScore.js";
+import {
+  createAdxCalculator,
+  createAtrCalculator,
+  createBollingerCalculator,
+  createEmaCalculator,
+  createMacdCalculator,
+  mapIndicatorSeries,
+} from "./server/technicalIndicators.js";
+import { createScanHistory, type ScanDiff } from "./server/scanHistory.js";
+import { createScanProgressHub, type ScanProgressTracker } from "./server/scanProgress.js";
+import { createScanScheduler, parseScanSchedule } from "./server/scanScheduler.js";
+import { createSignalTracker } from "./server/signalTracker.js";
+import {
+  evaluateConditionRule,
+  explainConditionRule,
+  findNearMiss,
+  rankNearMisses,
+  type ConditionCheck,
+  type NearMiss,
+  type ConditionEvaluationContext,
+} from "./server/conditionEngine.js";
+import { aggregateFourHourCandles, detectCandleGaps, type CandleSeries } from "./server/candleAggregation.js";
+import {
+  buildFourHourSymbolContext,
+  buildScreenerRow,
+  createBaseSymbolContext,
+  createEvaluationContext,
+  explainBaseSymbolContext,
+  explainFourHourSymbolContext,
+  getRsiPreFilterCheck,
+  passesRsiPreFilter,
+  type BaseSymbolContext,
+  type FourHourSymbolContext,
+  type ScreenerRowQuote,
+} from "./server/symbolContext.js";
+import type { ChartCandle, ScreenerRow } from "./server/types.js";
 
 type ResultsByCondition = Record<ConditionId, ScreenerRow[]>;
-type ResultsCache = { generatedAt: number; resultsByCondition: ResultsByCondition };
+type NearMissesByCondition = Record<ConditionId, (ScreenerRow & NearMiss)[]>;
+type ScanResults = {
+  generatedAt: number;
+  resultsByCondition: ResultsByCondition;
+  nearMissesByCondition: NearMissesByCondition;
+};
+type ResultsCache = ScanResults & { scanDiffByCondition: Record<ConditionId, ScanDiff> };
 type LogLevel = "DEBUG" | "INFO" | "ERROR";
 type Logger = (level: LogLevel, event: string, details?: Record<string, unknown>) => void;
-type MarketMeta = {
-  korean_name: string;
-  english_name: string;
-};
-type MarketApiRow = {
-  market: string;
-  korean_name: string;
-  english_name: string;
-};
-type OrderbookEntry = {
-  price: string;
-  quantity: string;
-};
-type TickerEntry = {
-  closing_price: string;
-  fluctate_rate_24H: string;
-  acc_trade_value_24H: string;
-};
-type TickerApiResponse = {
-  status: string;
-  data: Record<string, TickerEntry | string>;
-};
-type CandleApiResponse = {
-  status: string;
-  data: Array<Array<string | number>>;
-};
-type OrderbookApiResponse = {
-  status: string;
-  data: {
-    bids: OrderbookEntry[];
-  };
-};
-type BaseSymbolContext = {
-  symbol: string;
-  currentPrice: number;
-  dailyCandles: ChartCandle[];
-  dailyPrices: number[];
-  weeklyPrices: number[];
-  monthlyPrices: number[];
-  row: ScreenerRow;
-};
-type FourHourSymbolContext = {
-  currentCandle: ChartCandle;
-  currentPrice: number;
-  completedCandles: ChartCandle[];
-  completedPrices: number[];
-  ma20: number | null;
-  ma30: number | null;
-  ma120: number | null;
-  ma240: number | null;
-  averageNotionalVolume: number | null;
-};
-type ChartCandle = {
-  time: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-};
 type ChartLinePoint = {
   time: number;
   value: number;
 };
+type ChartIndicatorSeries = {
+  ema: Record<string, ChartLinePoint[]>;
+  bollinger: { upper: ChartLinePoint[]; middle: ChartLinePoint[]; lower: ChartLinePoint[] };
+  macd: { macd: ChartLinePoint[]; signal: ChartLinePoint[]; histogram: ChartLinePoint[] };
+  atr: ChartLinePoint[];
+  adx: { adx: ChartLinePoint[]; plusDi: ChartLinePoint[]; minusDi: ChartLinePoint[] };
+};
 type ChartFrameData = {
   candles: ChartCandle[];
   movingAverages: Record<string, ChartLinePoint[]>;
+  indicators: ChartIndicatorSeries;
+  // Bar times that pass the volume-inflow check; daily frame only, empty on 4h.
+  volumeInflowTimes: number[];
+  lastBarInProgress: boolean;
+  gapCount: number;
 };
 type ChartFrameScope = "all" | "daily" | "fourHour";
 type ChartFrameState = {
@@ -104,6 +116,7 @@ type ChartFrameState = {
   generatedAt: number | null;
 };
 type AssetChartResponse = {
+  exchange: ExchangeId;
   market: string;
   symbol: string;
   generatedAt: number;
@@ -113,6 +126,7 @@ type AssetChartResponse = {
 
 const projectRoot = process.cwd();
 const EXCLUDED_SYMBOLS = new Set(["USDC", "USDT", "USD1", "USDE", "USDS"]);
+const NEAR_MISS_LIMIT = 10;
 const LOG_PRIORITY: Record<LogLevel, number> = {
   DEBUG: 10,
   INFO: 20,
@@ -122,10 +136,15 @@ const CSV_HEADER = "Market,Price,MA20(D),MA60(D),MA120(D),MA240(D),MA120(M),Mont
 const TICKER_CACHE_TTL_MS = 30 * 1000;
 const MARKET_METADATA_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
 const CHART_CACHE_TTL_MS = 60 * 1000;
+// Exit anyway if open connections keep server.close() from finishing.
+const SHUTDOWN_TIMEOUT_MS = 10 * 1000;
 const CHART_MOVING_AVERAGE_PERIODS = [20, 30, 60, 120, 240] as const;
-const ACTIVE_ENTRY_EXCLUDED_SYMBOLS = new Set(ACTIVE_ENTRY_PROFILE.excludedSymbols);
-const MIN_MONTHLY_CANDLES = 2;
-const MIN_FOUR_HOUR_CANDLES = 241;
+const CHART_EMA_PERIODS = [20, 50, 100] as const;
+// Markers follow the daily volume-inflow rule of the first enabled entry profile (condition 11).
+const CHART_VOLUME_INFLOW = {
+  baselineBars: ENABLED_ENTRY_PROFILES[0]?.recentVolumeInflowBaselineDays ?? 20,
+  minVolumeRatio: ENABLED_ENTRY_PROFILES[0]?.recentVolumeInflowMinVolumeRatio ?? 1.7,
+};
 
 function loadEnvFile() {
   const envPath = path.join(projectRoot, ".env");
@@ -159,273 +178,33 @@ function ensureDirectory(dirPath: string) {
   }
 }
 
-function createEmptyResults(): ResultsByCondition {
+function createEmptyResults(conditions: ConditionMeta[]): ResultsByCondition {
   return Object.fromEntries(
-    ALL_CONDITION_IDS.map((conditionId) => [conditionId, [] as ScreenerRow[]]),
+    conditions.map(({ id: conditionId }) => [conditionId, [] as ScreenerRow[]]),
   ) as ResultsByCondition;
 }
 
-function calculateMA(prices: number[], period: number) {
-  if (prices.length < period) {
-    return null;
-  }
-
-  const sum = prices.slice(-period).reduce((accumulator, price) => accumulator + price, 0);
-  return sum / period;
-}
-
-function toHigherTimeframePrices(prices: number[], step: number) {
-  const groupedPrices: number[] = [];
-  for (let index = 0; index < prices.length; index += step) {
-    const chunk = prices.slice(index, index + step);
-    if (chunk.length > 0) {
-      groupedPrices.push(chunk[chunk.length - 1]);
-    }
-  }
-  return groupedPrices;
-}
-
-function isBullishAlignment(prices: number[]) {
-  const ma20 = calculateMA(prices, 20);
-  const ma60 = calculateMA(prices, 60);
-  const ma120 = calculateMA(prices, 120);
-
-  if (ma20 === null || ma60 === null) {
-    return false;
-  }
-
-  if (ma120 === null) {
-    return ma20 > ma60;
-  }
-
-  return ma20 > ma60 && ma60 > ma120;
-}
-
-function isNearDailyMA20(prices: number[], currentPrice: number) {
-  const movingAverage = calculateMA(prices, 20);
-  return isWithinPercentRange(currentPrice, movingAverage, 5, -5);
-}
-
-function isAboveDailyMAThreshold(prices: number[], period: number, currentPrice: number, lowerPercent: number) {
-  const movingAverage = calculateMA(prices, period);
-  if (movingAverage === null) {
-    return false;
-  }
-
-  return currentPrice >= movingAverage * (1 + lowerPercent / 100);
-}
-
-function isAboveDailyMA(prices: number[], period: number, currentPrice: number) {
-  const movingAverage = calculateMA(prices, period);
-  if (movingAverage === null) {
-    return false;
-  }
-
-  return currentPrice >= movingAverage;
-}
-
-function isWithinPercentRange(currentPrice: number, movingAverage: number | null, upperPercent: number, lowerPercent: number) {
-  if (movingAverage === null) {
-    return false;
-  }
-
-  const upperLimit = movingAverage * (1 + upperPercent / 100);
-  const lowerLimit = movingAverage * (1 + lowerPercent / 100);
-  return currentPrice >= lowerLimit && currentPrice <= upperLimit;
-}
-
-function matchesFourHourRange(currentPrice: number, shortMa: number | null, longMa: number | null) {
-  return (
-    isWithinPercentRange(currentPrice, shortMa, 5, -1) &&
-    isWithinPercentRange(currentPrice, longMa, 2, -10)
-  );
-}
-
-function passesCandidateEnvelope(
-  currentPrice: number,
-  ma20: number | null,
-  ma120: number | null,
-  ma240: number | null,
-) {
-  if (ma20 === null) {
-    return false;
-  }
-
-  const baseCondition =
-    currentPrice >= ma20 * 0.99 &&
-    currentPrice <= ma20 * ACTIVE_ENTRY_PROFILE.ma20UpperMultiplier;
-
-  if (!baseCondition) {
-    return false;
-  }
-
-  const ma120Condition =
-    ma120 !== null &&
-    currentPrice >= ma120 * 0.90 &&
-    currentPrice <= ma120 * ACTIVE_ENTRY_PROFILE.longMaUpperMultiplier;
-
-  const ma240Condition =
-    ma240 !== null &&
-    currentPrice >= ma240 * 0.90 &&
-    currentPrice <= ma240 * ACTIVE_ENTRY_PROFILE.longMaUpperMultiplier;
-
-  return ma120Condition || ma240Condition;
-}
-
-function passesDailyTouchEntry(candle: ChartCandle, dailyMa20: number) {
-  if (ACTIVE_ENTRY_PROFILE.dailyMaEntryTolerancePct <= 0) {
-    return candle.low <= dailyMa20 && candle.high >= dailyMa20;
-  }
-
-  return (
-    candle.close >= dailyMa20 &&
-    candle.close <= dailyMa20 * (1 + ACTIVE_ENTRY_PROFILE.dailyMaEntryTolerancePct)
-  );
-}
-
-function calculateAverageNotionalVolume(candles: ChartCandle[], lookbackBars: number) {
-  if (candles.length < lookbackBars || lookbackBars <= 0) {
-    return null;
-  }
-
-  const recentCandles = candles.slice(-lookbackBars);
-  const totalNotional = recentCandles.reduce((sum, candle) => sum + candle.close * candle.volume, 0);
-  return totalNotional / lookbackBars;
-}
-
-function passesRecentVolumeInflowInclusion(candles: ChartCandle[]) {
-  const {
-    recentVolumeInflowBaselineDays,
-    recentVolumeInflowLookbackDays,
-    recentVolumeInflowMinVolumeRatio,
-  } = ACTIVE_ENTRY_PROFILE;
-
-  if (
-    recentVolumeInflowLookbackDays <= 0 ||
-    recentVolumeInflowMinVolumeRatio <= 0 ||
-    recentVolumeInflowBaselineDays <= 0
-  ) {
-    return true;
-  }
-
-  if (candles.length <= recentVolumeInflowBaselineDays) {
-    return false;
-  }
-
-  const windowStart = Math.max(
-    candles.length - recentVolumeInflowLookbackDays,
-    recentVolumeInflowBaselineDays,
-  );
-
-  for (let index = windowStart; index < candles.length; index += 1) {
-    const currentCandle = candles[index];
-    if (currentCandle.close <= currentCandle.open) {
-      continue;
-    }
-
-    const baselineWindow = candles.slice(index - recentVolumeInflowBaselineDays, index);
-    if (baselineWindow.length === 0) {
-      continue;
-    }
-
-    const averageVolume =
-      baselineWindow.reduce((sum, candle) => sum + candle.volume, 0) / baselineWindow.length;
-
-    if (averageVolume > 0 && currentCandle.volume / averageVolume >= recentVolumeInflowMinVolumeRatio) {
-      return true;
-    }
-  }
-
-  return false;
-}
-
-function getTopBidNotional(bids: OrderbookEntry[], depth: number) {
-  return bids
-    .slice(0, depth)
-    .reduce((sum, bid) => sum + Number(bid.price) * Number(bid.quantity), 0);
+function createEmptyNearMisses(conditions: ConditionMeta[]): NearMissesByCondition {
+  return Object.fromEntries(conditions.map(({ id: conditionId }) => [conditionId, []])) as NearMissesByCondition;
 }
 
-function calculateRSI(prices: number[], period = 14) {
-  if (prices.length < period + 1) {
-    return null;
-  }
-
-  let gainSum = 0;
-  let lossSum = 0;
-
-  for (let index = 1; index <= period; index += 1) {
-    const change = prices[index] - prices[index - 1];
-    if (change > 0) {
-      gainSum += change;
-    } else {
-      lossSum += -change;
-    }
-  }
-
-  let averageGain = gainSum / period;
-  let averageLoss = lossSum / period;
-
-  for (let index = period + 1; index < prices.length; index += 1) {
-    const change = prices[index] - prices[index - 1];
-    const gain = change > 0 ? change : 0;
-    const loss = change < 0 ? -change : 0;
-
-    averageGain = (averageGain * (period - 1) + gain) / period;
-    averageLoss = (averageLoss * (period - 1) + loss) / period;
+// Highest score first; rows without a score sink to the bottom in volume order.
+function rankResults(resultsByCondition: ResultsByCondition) {
+  for (const rows of Object.values(resultsByCondition)) {
+    rows.sort((left, right) => (right.score ?? -1) - (left.score ?? -1) || right.volume - left.volume);
   }
 
-  if (averageLoss === 0) {
-    return 100;
-  }
-
-  const relativeStrength = averageGain / averageLoss;
-  return 100 - 100 / (1 + relativeStrength);
-}
-
-function normalizeCandles(candles: Array<Array<string | number>>): ChartCandle[] {
-  return candles
-    .map((candle) => ({
-      time: Math.floor(Number(candle[0]) / 1000),
-      open: Number(candle[1]),
-      close: Number(candle[2]),
-      high: Number(candle[3]),
-      low: Number(candle[4]),
-      volume: Number(candle[5] ?? 0),
-    }))
-    .filter(
-      (candle) =>
-        Number.isFinite(candle.time) &&
-        Number.isFinite(candle.open) &&
-        Number.isFinite(candle.close) &&
-        Number.isFinite(candle.high) &&
-        Number.isFinite(candle.low) &&
-        Number.isFinite(candle.volume),
-    )
-    .sort((left, right) => left.time - right.time);
+  return resultsByCondition;
 }
 
-function aggregateCandles(candles: ChartCandle[], step: number) {
-  const aggregatedCandles: ChartCandle[] = [];
-
-  for (let index = 0; index < candles.length; index += step) {
-    const chunk = candles.slice(index, index + step);
-    if (chunk.length === 0) {
-      continue;
-    }
-
-    // Keep 4-hour grouping aligned with the screener logic that builds higher timeframes
-    // by consuming the lower timeframe data in fixed-size chronological chunks.
-    aggregatedCandles.push({
-      time: chunk[chunk.length - 1].time,
-      open: chunk[0].open,
-      close: chunk[chunk.length - 1].close,
-      high: Math.max(...chunk.map((candle) => candle.high)),
-      low: Math.min(...chunk.map((candle) => candle.low)),
-      volume: chunk.reduce((sum, candle) => sum + candle.volume, 0),
-    });
-  }
-
-  return aggregatedCandles;
+// Keeps the closest misses per condition, smallest shortfall first.
+function rankConditionNearMisses(nearMissesByCondition: NearMissesByCondition) {
+  return Object.fromEntries(
+    Object.entries(nearMissesByCondition).map(([conditionId, nearMisses]) => [
+      conditionId,
+      rankNearMisses(nearMisses).slice(0, NEAR_MISS_LIMIT),
+    ]),
+  ) as NearMissesByCondition;
 }
 
 function createMovingAverageLine(candles: ChartCandle[], period: number) {
@@ -442,7 +221,58 @@ function createMovingAverageLine(candles: ChartCandle[], period: number) {
   return linePoints;
 }
 
-function createChartFrame(candles: ChartCandle[]): ChartFrameData {
+// Drops warm-up bars so every series starts at its first real value.
+function toLinePoints<T>(candles: ChartCandle[], values: (T | null)[], pick: (value: T) => number | null) {
+  return values.flatMap((value, index): ChartLinePoint[] => {
+    const pointValue = value === null ? null : pick(value);
+    return pointValue === null ? [] : [{ time: candles[index].time, value: pointValue }];
+  });
+}
+
+function createIndicatorSeries(candles: ChartCandle[]): ChartIndicatorSeries {
+  const closes = candles.map((candle) => candle.close);
+  const bollinger = mapIndicatorSeries(closes, createBollingerCalculator(20, 2));
+  const macd = mapIndicatorSeries(closes, createMacdCalculator(12, 26, 9));
+  const adx = mapIndicatorSeries(candles, createAdxCalculator(14));
+
+  return {
+    ema: Object.fromEntries(
+      CHART_EMA_PERIODS.map((period) => [
+        `ema${period}`,
+        toLinePoints(candles, mapIndicatorSeries(closes, createEmaCalculator(period)), (value) => value),
+      ]),
+    ),
+    bollinger: {
+      upper: toLinePoints(candles, bollinger, (value) => value.upper),
+      middle: toLinePoints(candles, bollinger, (value) => value.middle),
+      lower: toLinePoints(candles, bollinger, (value) => value.lower),
+    },
+    macd: {
+      macd: toLinePoints(candles, macd, (value) => value.macd),
+      signal: toLinePoints(candles, macd, (value) => value.signal),
+      histogram: toLinePoints(candles, macd, (value) => value.histogram),
+    },
+    atr: toLinePoints(candles, mapIndicatorSeries(candles, createAtrCalculator(14)), (value) => value),
+    adx: {
+      adx: toLinePoints(candles, adx, (value) => value.adx),
+      plusDi: toLinePoints(candles, adx, (value) => value.plusDi),
+      minusDi: toLinePoints(candles, adx, (value) => value.minusDi),
+    },
+  };
+}
+
+function findVolumeInflowTimes(candles: ChartCandle[]) {
+  return candles
+    .filter((_, index) =>
+      isVolumeInflowBar(candles, index, CHART_VOLUME_INFLOW.baselineBars, CHART_VOLUME_INFLOW.minVolumeRatio),
+    )
+    .map((candle) => candle.time);
+}
+
+function createChartFrame(
+  { candles, gaps, lastBarInProgress }: CandleSeries,
+  scope: Exclude<ChartFrameScope, "all">,
+): ChartFrameData {
   const movingAverages = Object.fromEntries(
     CHART_MOVING_AVERAGE_PERIODS.map((period) => [`ma${period}`, createMovingAverageLine(candles, period)]),
   );
@@ -450,6 +280,19 @@ function createChartFrame(candles: ChartCandle[]): ChartFrameData {
   return {
     candles,
     movingAverages,
+    indicators: createIndicatorSeries(candles),
+    volumeInflowTimes: scope === "daily" ? findVolumeInflowTimes(candles) : [],
+    lastBarInProgress,
+    gapCount: gaps.length,
+  };
+}
+
+function createDailySeries(dailyCandles: ChartCandle[]): CandleSeries {
+  const lastCandle = dailyCandles[dailyCandles.length - 1];
+  return {
+    candles: dailyCandles,
+    gaps: detectCandleGaps(dailyCandles, 24 * 60 * 60),
+    lastBarInProgress: lastCandle !== undefined && Date.now() / 1000 < lastCandle.time + 24 * 60 * 60,
   };
 }
 
@@ -471,205 +314,67 @@ function createEmptyChartFrame(error: string | null = null): ChartFrameState {
   };
 }
 
-function getTickerEntry(tickerData: TickerApiResponse, symbol: string) {
-  const entry = tickerData.data[symbol];
-  if (!entry || typeof entry === "string") {
-    return null;
-  }
+const MIN_SCREENABLE_PRICE = 0.01;
 
-  return entry;
+function isScreenableQuote(symbol: string, quote: TickerQuote) {
+  return !EXCLUDED_SYMBOLS.has(symbol) && quote.price >= MIN_SCREENABLE_PRICE;
 }
 
-function getScreenableSymbols(tickerData: TickerApiResponse) {
-  return Object.keys(tickerData.data).filter((symbol) => {
-    if (symbol === "date" || EXCLUDED_SYMBOLS.has(symbol)) {
-      return false;
-    }
-
-    const tickerEntry = getTickerEntry(tickerData, symbol);
-    if (!tickerEntry) {
-      return false;
-    }
-
-    return Number(tickerEntry.closing_price) >= 0.01;
-  });
+function getScreenableSymbols(tickers: Map<string, TickerQuote>) {
+  return [...tickers.entries()].filter(([symbol, quote]) => isScreenableQuote(symbol, quote)).map(([symbol]) => symbol);
 }
 
-function buildRow(
-  tickerData: TickerApiResponse,
+function getRowQuote(
+  tickers: Map<string, TickerQuote>,
   marketMetadata: Map<string, MarketMeta>,
   symbol: string,
-  currentPrice: number,
-  dailyPrices: number[],
-  monthlyPrices: number[],
-): ScreenerRow {
-  const tickerEntry = getTickerEntry(tickerData, symbol);
-  if (!tickerEntry) {
+): ScreenerRowQuote {
+  const quote = tickers.get(symbol);
+  if (!quote) {
     throw new Error(`Ticker entry is missing for ${symbol}`);
   }
 
   return {
-    market: `${symbol}/KRW`,
     korean_name: marketMetadata.get(symbol)?.korean_name || symbol,
     english_name: marketMetadata.get(symbol)?.english_name || symbol,
-    price: currentPrice,
-    change: Number(tickerEntry.fluctate_rate_24H) / 100,
-    volume: Number(tickerEntry.acc_trade_value_24H),
-    ma20_d: calculateMA(dailyPrices, 20),
-    ma60_d: calculateMA(dailyPrices, 60),
-    ma120_d: calculateMA(dailyPrices, 120),
-    ma240_d: calculateMA(dailyPrices, 240),
-    ma120_m: calculateMA(monthlyPrices, 120),
-    candle_count_m: monthlyPrices.length,
-  };
-}
-
-function buildFourHourSymbolContext(hourlyCandles: ChartCandle[]): FourHourSymbolContext | null {
-  const fourHourCandles = aggregateCandles(hourlyCandles, 4);
-  if (fourHourCandles.length < MIN_FOUR_HOUR_CANDLES) {
-    return null;
-  }
-
-  const currentCandle = fourHourCandles[fourHourCandles.length - 1];
-  const completedCandles = fourHourCandles.slice(0, -1);
-  const completedPrices = completedCandles.map((candle) => candle.close);
-
-  return {
-    currentCandle,
-    currentPrice: currentCandle.close,
-    completedCandles,
-    completedPrices,
-    ma20: calculateMA(completedPrices, 20),
-    ma30: calculateMA(completedPrices, 30),
-    ma120: calculateMA(completedPrices, 120),
-    ma240: calculateMA(completedPrices, 240),
-    averageNotionalVolume: calculateAverageNotionalVolume(
-      completedCandles,
-      ACTIVE_ENTRY_PROFILE.average4hNotionalVolumeLookbackBars,
-    ),
+    change: quote.changeRate,
+    volume: quote.tradeValue24h,
   };
 }
 
-function appendDailyConditionMatches(
-  resultsByCondition: ResultsByCondition,
-  context: BaseSymbolContext,
-) {
-  const { currentPrice, dailyPrices, weeklyPrices, monthlyPrices, row } = context;
-  const isDailyBullish = isBullishAlignment(dailyPrices);
-
-  if (isDailyBullish) {
-    resultsByCondition[5].push(row);
-  }
-
-  if (isDailyBullish && isWithinPercentRange(currentPrice, calculateMA(dailyPrices, 30), 6, -1)) {
-    resultsByCondition[6].push(row);
-  }
-
-  if (isWithinPercentRange(currentPrice, row.ma120_d, 7, -1)) {
-    resultsByCondition[7].push(row);
-  }
-
-  if (isWithinPercentRange(currentPrice, row.ma120_d, 10, -10)) {
-    resultsByCondition[8].push(row);
-  }
-
-  if (isBullishAlignment(weeklyPrices) && isNearDailyMA20(dailyPrices, currentPrice)) {
-    resultsByCondition[9].push(row);
-  }
-
-  if (isBullishAlignment(monthlyPrices) && isNearDailyMA20(dailyPrices, currentPrice)) {
-    resultsByCondition[10].push(row);
-  }
-}
-
-async function appendFourHourConditionMatches(
+async function appendConditionMatches(
   resultsByCondition: ResultsByCondition,
-  baseContext: BaseSymbolContext,
-  fourHourContext: FourHourSymbolContext,
-  passesTopBidOrderbook: () => Promise<boolean>,
+  nearMissesByCondition: NearMissesByCondition,
+  conditions: RuleConditionMeta[],
+  context: ConditionEvaluationContext,
 ) {
-  const { symbol, currentPrice, dailyCandles, dailyPrices, row } = baseContext;
-  const {
-    currentCandle,
-    currentPrice: currentFourHourPrice,
-    completedPrices,
-    ma20,
-    ma30,
-    ma120,
-    ma240,
-    averageNotionalVolume,
-  } = fourHourContext;
-
-  const meetsDailyConditionOneGuard = isAboveDailyMAThreshold(dailyPrices, 20, currentPrice, -3);
-  const meetsDailyConditionThreeGuard = isAboveDailyMA(dailyPrices, 30, currentPrice);
-  const meetsDailyConditionFourGuard = isAboveDailyMA(dailyPrices, 20, currentPrice);
-  const dailyMa20 = calculateMA(dailyPrices, ACTIVE_ENTRY_PROFILE.currentTouchDailyMaPeriod);
-
-  // 4시간봉 현재 가격은 진행 중인 캔들을 쓰되, MA는 완료된 4시간봉만으로 계산해
-  // intrabar self-reference를 줄입니다.
-  if (
-    meetsDailyConditionOneGuard &&
-    matchesFourHourRange(currentFourHourPrice, ma20, ma120) &&
-    await passesTopBidOrderbook()
-  ) {
-    resultsByCondition[1].push(row);
-  }
-
-  if (isBullishAlignment(completedPrices) && await passesTopBidOrderbook()) {
-    resultsByCondition[2].push(row);
-  }
-
-  if (
-    meetsDailyConditionThreeGuard &&
-    matchesFourHourRange(currentFourHourPrice, ma30, ma120) &&
-    await passesTopBidOrderbook()
-  ) {
-    resultsByCondition[3].push(row);
-  }
+  for (const condition of conditions) {
+    // A symbol dropped by the condition's own pre-filter is neither a match nor a near miss.
+    if (!passesRsiPreFilter(context.frames.daily?.prices ?? [], condition.rsiPreFilter)) {
+      continue;
+    }
 
-  if (
-    meetsDailyConditionFourGuard &&
-    matchesFourHourRange(currentFourHourPrice, ma30, ma120) &&
-    await passesTopBidOrderbook()
-  ) {
-    resultsByCondition[4].push(row);
-  }
+    if (await evaluateConditionRule(condition.rule, context)) {
+      // Orderbook columns are filled only when the rule itself read the orderbook, so the memoized
+      // request is reused and other conditions add no orderbook call per match. A failed request
+      // only blanks the columns; it does not drop the match.
+      const orderbook =
+        context.getOrderbook && ruleUsesOrderbook(condition.rule) ? await context.getOrderbook().catch(() => null) : null;
+      resultsByCondition[condition.id].push({
+        ...context.row,
+        ...getOrderbookColumnValues(orderbook),
+        score: calculateRankingScore(context, condition.score),
+      });
+      continue;
+    }
 
-  // perpDex_my live ma_touch_rr long entry proxy for spot screening.
-  if (
-    !ACTIVE_ENTRY_EXCLUDED_SYMBOLS.has(symbol) &&
-    row.change >= ACTIVE_ENTRY_PROFILE.minPriceChangePct / 100 &&
-    row.volume >= ACTIVE_ENTRY_PROFILE.min24hNotionalVolumeKrw &&
-    dailyMa20 !== null &&
-    currentFourHourPrice >= dailyMa20 &&
-    passesDailyTouchEntry(currentCandle, dailyMa20) &&
-    passesCandidateEnvelope(currentFourHourPrice, ma20, ma120, ma240) &&
-    averageNotionalVolume !== null &&
-    averageNotionalVolume >= ACTIVE_ENTRY_PROFILE.minAverage4hNotionalVolumeKrw &&
-    passesRecentVolumeInflowInclusion(dailyCandles)
-  ) {
-    resultsByCondition[11].push(row);
+    const nearMiss = await findNearMiss(condition.rule, context);
+    if (nearMiss) {
+      nearMissesByCondition[condition.id].push({ ...context.row, ...nearMiss });
+    }
   }
 }
 
-async function runConcurrentQueue<T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>) {
-  const queue = [...items];
-  const workerCount = Math.min(concurrency, queue.length || 1);
-
-  await Promise.all(
-    Array.from({ length: workerCount }, async () => {
-      while (queue.length > 0) {
-        const item = queue.shift();
-        if (item === undefined) {
-          return;
-        }
-
-        await worker(item);
-      }
-    }),
-  );
-}
-
 loadEnvFile();
 
 async function startServer() {
@@ -681,18 +386,33 @@ async function startServer() {
   const publicDir = path.join(projectRoot, "public");
   const logsDir = path.join(projectRoot, "logs");
   const distDir = path.join(projectRoot, "dist");
+  const localDir = path.join(projectRoot, ".local");
+  const backtestDir = path.join(localDir, "backtesting");
+  const candleDir = path.join(localDir, "candles");
   const isProduction = process.env.NODE_ENV === "production";
+  const dataSourceConfig = parseDataSource(process.env.DATA_SOURCE, projectRoot);
+  const scanSchedule = parseScanSchedule(process.env, dataSourceConfig.mode === "replay");
+  const alertWebhookUrls = (process.env.ALERT_WEBHOOK_URLS ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+  const alertCooldownMs = (Number(process.env.ALERT_COOLDOWN_MINUTES) || 240) * 60 * 1000;
   const logFile = path.join(logsDir, `app-${new Date().toISOString().slice(0, 10)}.log`);
-  let cachedDailyResults: ResultsCache | null = null;
-  let cachedFourHourResults: ResultsCache | null = null;
-  let cachedTickerSnapshot: { generatedAt: number; data: TickerApiResponse } | null = null;
-  let cachedMarketMetadata: { generatedAt: number; data: Map<string, MarketMeta> } | null = null;
+  // Every venue keeps its own caches; keys are exchange ids (charts use `${exchange}:${symbol}`).
+  const cachedDailyResults = new Map<ExchangeId, ResultsCache>();
+  const cachedFourHourResults = new Map<ExchangeId, ResultsCache>();
+  const cachedCompositeResults = new Map<ExchangeId, ResultsCache>();
+  // The group scans each exchange's composite history was last recorded from.
+  const compositeRecordedScans = new Map<ExchangeId, { fourHour: number; daily: number }>();
+  const cachedTickerSnapshots = new Map<ExchangeId, { generatedAt: number; data: Map<string, TickerQuote> }>();
+  const cachedMarketMetadata = new Map<ExchangeId, { generatedAt: number; data: Map<string, MarketMeta> }>();
   const chartCache = new Map<string, AssetChartResponse & { generatedAt: number }>();
-  let inflightDailyBuild: Promise<ResultsCache> | null = null;
-  let inflightFourHourBuild: Promise<ResultsCache> | null = null;
-  let inflightTickerSnapshot: Promise<TickerApiResponse> | null = null;
-  let inflightMarketMetadata: Promise<Map<string, MarketMeta>> | null = null;
+  const inflightDailyBuilds = new Map<ExchangeId, Promise<ResultsCache>>();
+  const inflightFourHourBuilds = new Map<ExchangeId, Promise<ResultsCache>>();
+  const inflightTickerSnapshots = new Map<ExchangeId, Promise<Map<string, TickerQuote>>>();
+  const inflightMarketMetadata = new Map<ExchangeId, Promise<Map<string, MarketMeta>>>();
   const inflightChartRequests = new Map<string, Promise<AssetChartResponse>>();
+  let inflightBacktest: Promise<unknown> | null = null;
 
   ensureDirectory(publicDir);
   ensureDirectory(logsDir);
@@ -714,20 +434,110 @@ async function startServer() {
     console.log(entry);
   };
 
+  // A corrupt state file is set aside and its store starts empty rather than failing startup.
+  const logStoreLoadError = (store: string) => (error: unknown, backupPath: string) => {
+    logEvent("ERROR", "local_store_load_failed", {
+      store,
+      backupPath,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  };
+
+  const customConditionStore = createCustomConditionStore(
+    path.join(localDir, "custom-conditions.json"),
+    (id, errors) => logEvent("ERROR", "custom_condition_skipped", { id, errors }),
+    logStoreLoadError("custom-conditions"),
+  );
+
+  // Compares each entry profile with the perpDex_my config it was synced from, so a live bot
+  // change that was never re-synced shows up in the log. The configs only exist on the bot host.
+  const checkEntryProfileDrift = () => {
+    for (const profile of ENTRY_PROFILES) {
+      if (!fs.existsSync(profile.sourceConfigPath)) {
+        logEvent("DEBUG", "entry_profile_source_missing", {
+          profileId: profile.id,
+          configPath: profile.sourceConfigPath,
+        });
+        continue;
+      }
+
+      const sync = loadEntryProfileSync(profile);
+      if (!sync.thresholds) {
+        logEvent("ERROR", "entry_profile_source_invalid", {
+          profileId: profile.id,
+          configPath: sync.configPath,
+          errors: sync.errors,
+        });
+      } else if (sync.changes.length > 0) {
+        logEvent("ERROR", "entry_profile_drift", {
+          profileId: profile.id,
+          configPath: sync.configPath,
+          changes: sync.changes,
+        });
+      }
+    }
+  };
+
+  checkEntryProfileDrift();
+
+  const alertRuleStore = createAlertRuleStore(path.join(localDir, "alert-rules.json"), logStoreLoadError("alert-rules"));
+  const alertDispatcher = createAlertDispatcher({
+    statePath: path.join(localDir, "alert-state.json"),
+    webhookUrls: alertWebhookUrls,
+    cooldownMs: alertCooldownMs,
+    onLoadError: logStoreLoadError("alert-state"),
+    onPersistError: (error) => {
+      logEvent("ERROR", "alert_state_write_failed", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+    },
+    onDelivered: (payload, url, attempts) => {
+      logEvent("INFO", "alert_delivered", {
+        url,
+        attempts,
+        exchange: payload.exchange,
+        conditionId: payload.conditionId,
+        market: payload.market,
+      });
+    },
+    onFailed: (payload, url, error) => {
+      logEvent("ERROR", "alert_failed", {
+        url,
+        exchange: payload.exchange,
+        conditionId: payload.conditionId,
+        market: payload.market,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    },
+  });
+
+  const getConditionRegistry = () => [...CONDITIONS, ...customConditionStore.list()];
+  const getGroupConditions = (group: ConditionGroup) =>
+    getConditionRegistry().filter((condition): condition is RuleConditionMeta => condition.group === group);
+  const getCompositeConditions = () =>
+    getConditionRegistry().filter((condition): condition is CompositeConditionMeta => !isRuleCondition(condition));
+
+  const invalidateGroupResults = (group: ConditionGroup) => {
+    if (group === "daily") {
+      cachedDailyResults.clear();
+    } else {
+      cachedFourHourResults.clear();
+    }
+  };
+
+  const dataSource = createDataSource(dataSourceConfig.mode, dataSourceConfig.fixtureDir);
+
   const fetchJson = async <T>(url: string, retryCount = 1): Promise<T> => {
     let lastError: unknown = null;
 
     for (let attempt = 0; attempt <= retryCount; attempt += 1) {
       try {
-        const response = await fetch(url, {
-          signal: AbortSignal.timeout(fetchTimeoutMs),
-        });
+        const { status, body: responseText } = await dataSource.fetchRaw(url, fetchTimeoutMs);
 
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}`);
+        if (status < 200 || status >= 300) {
+          throw new Error(`HTTP ${status}`);
         }
 
-        const responseText = await response.text();
         if (!responseText.trim()) {
           throw new Error("Empty response body");
         }
@@ -744,77 +554,110 @@ async function startServer() {
     throw lastError instanceof Error ? lastError : new Error(String(lastError));
   };
 
-  const getTickerData = async () => {
+  const exchangeAdapters: Record<ExchangeId, ExchangeAdapter> = {
+    bithumb: createBithumbAdapter(fetchJson),
+    upbit: createUpbitAdapter(fetchJson),
+  };
+
+  try {
+    for (const { interval, action } of migrateLegacyCandleLayout(candleDir, path.join(candleDir, DEFAULT_EXCHANGE_ID))) {
+      logEvent("INFO", "legacy_candle_store_migrated", { exchange: DEFAULT_EXCHANGE_ID, interval, action });
+    }
+  } catch (error) {
+    logEvent("ERROR", "legacy_candle_store_migration_failed", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const candleStores = Object.fromEntries(
+    Object.values(exchangeAdapters).map((adapter) => [
+      adapter.id,
+      createCandleStore(
+        path.join(candleDir, adapter.id),
+        {
+          fetchFullHistory: adapter.fetchCandleHistory,
+          fetchRecent: adapter.fetchRecentCandles,
+        },
+        (symbol, interval, reason) => {
+          logEvent("DEBUG", "candle_tail_fallback", { exchange: adapter.id, symbol, interval, reason });
+        },
+      ),
+    ]),
+  ) as Record<ExchangeId, CandleStore>;
+
+  // Fixture runs bypass the on-disk store: its tail requests depend on the wall clock and would not replay.
+  const fetchCandles = (exchange: ExchangeId, symbol: string, interval: CandleInterval) =>
+    dataSource.mode === "live"
+      ? candleStores[exchange].load(symbol, interval)
+      : exchangeAdapters[exchange].fetchCandleHistory(symbol, interval);
+
+  const getTickerData = async (exchange: ExchangeId) => {
+    const cachedTickerSnapshot = cachedTickerSnapshots.get(exchange);
     if (cachedTickerSnapshot && Date.now() - cachedTickerSnapshot.generatedAt < TICKER_CACHE_TTL_MS) {
       return cachedTickerSnapshot.data;
     }
 
+    let inflightTickerSnapshot = inflightTickerSnapshots.get(exchange);
     if (!inflightTickerSnapshot) {
-      inflightTickerSnapshot = fetchJson<TickerApiResponse>("https://api.bithumb.com/public/ticker/ALL_KRW")
-        .then((tickerData) => {
-          if (tickerData.status !== "0000") {
-            throw new Error("Bithumb ticker API error");
-          }
-
-          cachedTickerSnapshot = {
+      inflightTickerSnapshot = exchangeAdapters[exchange]
+        .fetchTickers()
+        .then((tickers) => {
+          cachedTickerSnapshots.set(exchange, {
             generatedAt: Date.now(),
-            data: tickerData,
-          };
-          return tickerData;
+            data: tickers,
+          });
+          return tickers;
         })
         .finally(() => {
-          inflightTickerSnapshot = null;
+          inflightTickerSnapshots.delete(exchange);
         });
+      inflightTickerSnapshots.set(exchange, inflightTickerSnapshot);
     }
 
     return inflightTickerSnapshot;
   };
 
-  const getMarketMetadata = async () => {
-    if (cachedMarketMetadata && Date.now() - cachedMarketMetadata.generatedAt < MARKET_METADATA_CACHE_TTL_MS) {
-      return cachedMarketMetadata.data;
+  const getMarketMetadata = async (exchange: ExchangeId) => {
+    const cachedMetadata = cachedMarketMetadata.get(exchange);
+    if (cachedMetadata && Date.now() - cachedMetadata.generatedAt < MARKET_METADATA_CACHE_TTL_MS) {
+      return cachedMetadata.data;
     }
 
-    if (!inflightMarketMetadata) {
-      inflightMarketMetadata = fetchJson<MarketApiRow[]>("https://api.bithumb.com/v1/market/all")
-        .then((marketResponse) => {
-          const marketMap = new Map<string, MarketMeta>();
-
-          for (const item of marketResponse) {
-            const symbol = String(item.market).replace("KRW-", "");
-            marketMap.set(symbol, {
-              korean_name: item.korean_name,
-              english_name: item.english_name,
-            });
-          }
-
-          cachedMarketMetadata = {
+    let inflightMetadata = inflightMarketMetadata.get(exchange);
+    if (!inflightMetadata) {
+      inflightMetadata = exchangeAdapters[exchange]
+        .fetchMarketMetadata()
+        .then((marketMap) => {
+          cachedMarketMetadata.set(exchange, {
             generatedAt: Date.now(),
             data: marketMap,
-          };
+          });
           return marketMap;
         })
         .finally(() => {
-          inflightMarketMetadata = null;
+          inflightMarketMetadata.delete(exchange);
         });
+      inflightMarketMetadata.set(exchange, inflightMetadata);
     }
 
-    return inflightMarketMetadata;
+    return inflightMetadata;
   };
 
   const getAssetChartData = async (
+    exchange: ExchangeId,
     marketOrSymbol: string,
     forceRefresh = false,
     frameScope: ChartFrameScope = "all",
   ): Promise<AssetChartResponse> => {
     const symbol = normalizeSymbol(marketOrSymbol);
-    const cachedChart = chartCache.get(symbol);
+    const chartKey = `${exchange}:${symbol}`;
+    const cachedChart = chartCache.get(chartKey);
 
     if (!forceRefresh && frameScope === "all" && cachedChart && Date.now() - cachedChart.generatedAt < CHART_CACHE_TTL_MS) {
       return cachedChart;
     }
 
-    const inflightChartRequest = inflightChartRequests.get(symbol);
+    const inflightChartRequest = inflightChartRequests.get(chartKey);
     if (!forceRefresh && frameScope === "all" && inflightChartRequest) {
       return inflightChartRequest;
     }
@@ -827,30 +670,24 @@ async function startServer() {
         return previousState ?? createEmptyChartFrame();
       }
 
-      const url =
-        scope === "daily"
-          ? `https://api.bithumb.com/public/candlestick/${symbol}_KRW/24h`
-          : `https://api.bithumb.com/public/candlestick/${symbol}_KRW/1h`;
-
-      const retryCount = scope === "daily" ? 2 : 3;
       const label = scope === "daily" ? "일봉" : "4시간봉";
 
       try {
-        const candleResponse = await fetchJson<CandleApiResponse>(url, retryCount);
-        if (candleResponse.status !== "0000") {
-          throw new Error(`${label} API status ${candleResponse.status}`);
+        const normalizedCandles = await fetchCandles(exchange, symbol, scope === "daily" ? "24h" : "1h");
+        if (!normalizedCandles) {
+          throw new Error(`${label} API 응답이 올바르지 않습니다.`);
         }
 
-        const normalizedCandles = normalizeCandles(candleResponse.data);
-        const chartCandles =
-          scope === "daily" ? normalizedCandles : aggregateCandles(normalizedCandles, 4);
+        // The chart uses the same clock-aligned 4h bars as conditions 1-4 and 11.
+        const chartSeries =
+          scope === "daily" ? createDailySeries(normalizedCandles) : aggregateFourHourCandles(normalizedCandles);
 
-        if (chartCandles.length === 0) {
+        if (chartSeries.candles.length === 0) {
           throw new Error(`${label} 데이터가 비어 있습니다.`);
         }
 
         return {
-          frame: createChartFrame(chartCandles),
+          frame: createChartFrame(chartSeries, scope),
           error: null,
           stale: false,
           generatedAt: Date.now(),
@@ -875,6 +712,7 @@ async function startServer() {
     ])
       .then(([daily, fourHour]) => {
         const chartPayload: AssetChartResponse = {
+          exchange,
           market: `${symbol}/KRW`,
           symbol,
           generatedAt: Date.now(),
@@ -883,199 +721,495 @@ async function startServer() {
         };
 
         if (daily.frame || fourHour.frame) {
-          chartCache.set(symbol, chartPayload);
+          chartCache.set(chartKey, chartPayload);
         }
 
         return chartPayload;
       })
       .finally(() => {
         if (frameScope === "all") {
-          inflightChartRequests.delete(symbol);
+          inflightChartRequests.delete(chartKey);
         }
       });
 
     if (frameScope === "all") {
-      inflightChartRequests.set(symbol, chartRequest);
+      inflightChartRequests.set(chartKey, chartRequest);
     }
 
     return chartRequest;
   };
 
-  const hasLightTopBidOrderbook = async (symbol: string) => {
-    const orderbookData = await fetchJson<OrderbookApiResponse>(`https://api.bithumb.com/public/orderbook/${symbol}_KRW`);
-    if (orderbookData.status !== "0000") {
-      return false;
-    }
+  // The orderbook is fetched at most once per symbol and only when a rule or a matched row needs it.
+  const createOrderbookReader = (exchange: ExchangeId, symbol: string) => {
+    let orderbookRequest: Promise<Orderbook | null> | null = null;
 
-    return getTopBidNotional(orderbookData.data.bids, 10) < 100_000_000;
+    return () => {
+      orderbookRequest ??= exchangeAdapters[exchange].fetchOrderbook(symbol);
+      return orderbookRequest;
+    };
   };
 
-  const buildBaseSymbolContext = async (
-    symbol: string,
-    tickerData: TickerApiResponse,
-    marketMetadata: Map<string, MarketMeta>,
-  ): Promise<BaseSymbolContext | null> => {
-    const dailyCandleData = await fetchJson<CandleApiResponse>(`https://api.bithumb.com/public/candlestick/${symbol}_KRW/24h`);
-    if (dailyCandleData.status !== "0000") {
-      return null;
-    }
-
-    const dailyCandles = normalizeCandles(dailyCandleData.data);
-    const dailyPrices = dailyCandles.map((candle) => candle.close);
-    const weeklyPrices = toHigherTimeframePrices(dailyPrices, 7);
-    const monthlyPrices = toHigherTimeframePrices(dailyPrices, 30);
-    const currentPrice = dailyPrices[dailyPrices.length - 1];
+  const scanHistory = createScanHistory();
+  const scanProgressHub = createScanProgressHub();
+
+  const signalTracker = createSignalTracker({
+    filePath: path.join(localDir, "signal-tracking.json"),
+    loadHourlyCandles: (exchange, symbol) => fetchCandles(exchange, symbol, "1h"),
+    onLoadError: logStoreLoadError("signal-tracking"),
+    onError: (exchange, symbol, error) => {
+      logEvent("DEBUG", "signal_return_failed", {
+        exchange,
+        symbol,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    },
+  });
 
-    if (!Number.isFinite(currentPrice) || monthlyPrices.length < MIN_MONTHLY_CANDLES) {
-      return null;
+  const trackSignals = (exchange: ExchangeId, group: ConditionMeta["group"], results: ScanResults) => {
+    // Replayed scans are not live signals and must not skew the scoreboard.
+    if (dataSource.mode === "replay") {
+      return;
     }
 
-    const rsi14 = calculateRSI(dailyPrices, 14);
-    if (rsi14 === null || rsi14 < 40) {
-      return null;
+    try {
+      const addedCount = signalTracker.recordResults(exchange, results.generatedAt, results.resultsByCondition);
+      logEvent("INFO", "signals_recorded", { exchange, group, addedCount });
+    } catch (error) {
+      logEvent("ERROR", "signal_record_failed", {
+        exchange,
+        group,
+        message: error instanceof Error ? error.message : String(error),
+      });
     }
 
-    return {
-      symbol,
-      currentPrice,
-      dailyCandles,
-      dailyPrices,
-      weeklyPrices,
-      monthlyPrices,
-      row: buildRow(tickerData, marketMetadata, symbol, currentPrice, dailyPrices, monthlyPrices),
-    };
+    void signalTracker.resolvePendingReturns().catch((error) => {
+      logEvent("ERROR", "signal_resolve_failed", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+    });
   };
 
-  const writeCsv = (results: ScreenerRow[]) => {
-    const rows = results
-      .map((row) =>
-        `${row.market},${row.price},${row.ma20_d?.toFixed(0) || "N/A"},${row.ma60_d?.toFixed(0) || "N/A"},${row.ma120_d?.toFixed(0) || "N/A"},${row.ma240_d?.toFixed(0) || "N/A"},${row.ma120_m?.toFixed(0) || "N/A"},${row.candle_count_m}`,
+  // Only markets that newly entered a condition since the previous scan are alerted.
+  const sendEntryAlerts = (exchange: ExchangeId, results: ResultsCache) => {
+    // Replayed fixtures would otherwise post stale matches to real webhooks.
+    if (dataSource.mode === "replay") {
+      return;
+    }
+
+    const rules = alertRuleStore.list();
+    const conditionRegistry = getConditionRegistry();
+    const payloads: AlertPayload[] = [];
+
+    for (const [key, diff] of Object.entries(results.scanDiffByCondition)) {
+      const conditionId = Number(key);
+      const condition = conditionRegistry.find((item) => item.id === conditionId);
+      for (const market of diff.entered) {
+        const row = results.resultsByCondition[conditionId]?.find((item) => item.market === market);
+        if (!condition || !row || !rules.some((rule) => matchesAlertRule(rule, exchange, conditionId, market))) {
+          continue;
+        }
+
+        payloads.push({
+          event: "condition_entered",
+          exchange,
+          conditionId,
+          conditionTitle: condition.title,
+          market,
+          price: row.price,
+          change: row.change,
+          volume: row.volume,
+          chartUrl: getExchangeTradeUrl(exchange, market.split("/")[0]),
+          scannedAt: results.generatedAt,
+        });
+      }
+    }
+
+    try {
+      const { queued } = alertDispatcher.dispatch(payloads);
+      if (queued.length > 0) {
+        logEvent("INFO", "alerts_queued", { exchange, count: queued.length, skipped: payloads.length - queued.length });
+      }
+    } catch (error) {
+      logEvent("ERROR", "alert_dispatch_failed", {
+        exchange,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const buildBaseSymbolContext = async (
+    exchange: ExchangeId,
+    symbol: string,
+    tickers: Map<string, TickerQuote>,
+    marketMetadata: Map<string, MarketMeta>,
+  ): Promise<BaseSymbolContext | null> => {
+    const dailyCandles = await fetchCandles(exchange, symbol, "24h");
+    if (!dailyCandles) {
+      return null;
+    }
+
+    return createBaseSymbolContext(symbol, dailyCandles, getRowQuote(tickers, marketMetadata, symbol));
+  };
+
+  const writeCsv = (results: ScreenerRow[]) => {
+    const rows = results
+      .map((row) =>
+        `${row.market},${row.price},${row.ma20_d?.toFixed(0) || "N/A"},${row.ma60_d?.toFixed(0) || "N/A"},${row.ma120_d?.toFixed(0) || "N/A"},${row.ma240_d?.toFixed(0) || "N/A"},${row.ma120_m?.toFixed(0) || "N/A"},${row.candle_count_m}`,
       )
       .join("\n");
 
     fs.writeFileSync(path.join(publicDir, "screener_result.csv"), CSV_HEADER + rows);
   };
 
-  const buildDailyConditionResults = async (): Promise<ResultsCache> => {
-    const [tickerData, marketMetadata] = await Promise.all([getTickerData(), getMarketMetadata()]);
-    const resultsByCondition = createEmptyResults();
+  const buildDailyConditionResults = async (exchange: ExchangeId, progress: ScanProgressTracker): Promise<ScanResults> => {
+    const [tickers, marketMetadata] = await Promise.all([getTickerData(exchange), getMarketMetadata(exchange)]);
+    const conditions = getGroupConditions("daily");
+    const resultsByCondition = createEmptyResults(conditions);
+    const nearMissesByCondition = createEmptyNearMisses(conditions);
+    const symbols = getScreenableSymbols(tickers);
+    progress.startSymbols(symbols.length, resultsByCondition);
 
-    await runConcurrentQueue(getScreenableSymbols(tickerData), 15, async (symbol) => {
+    await runConcurrentQueue(symbols, 15, async (symbol) => {
       try {
-        const baseContext = await buildBaseSymbolContext(symbol, tickerData, marketMetadata);
+        const baseContext = await buildBaseSymbolContext(exchange, symbol, tickers, marketMetadata);
         if (!baseContext) {
           return;
         }
-        appendDailyConditionMatches(resultsByCondition, baseContext);
+        await appendConditionMatches(
+          resultsByCondition,
+          nearMissesByCondition,
+          conditions,
+          createEvaluationContext(baseContext, null, createOrderbookReader(exchange, symbol)),
+        );
       } catch (error) {
+        progress.markFailed();
         logEvent("DEBUG", "daily_symbol_failed", {
+          exchange,
           symbol,
           message: error instanceof Error ? error.message : String(error),
         });
       }
-    });
+    }, progress.updateCompleted);
 
     return {
       generatedAt: Date.now(),
-      resultsByCondition,
+      resultsByCondition: rankResults(resultsByCondition),
+      nearMissesByCondition: rankConditionNearMisses(nearMissesByCondition),
     };
   };
 
-  const buildFourHourConditionResults = async (): Promise<ResultsCache> => {
-    const [tickerData, marketMetadata] = await Promise.all([getTickerData(), getMarketMetadata()]);
-    const resultsByCondition = createEmptyResults();
+  const buildFourHourConditionResults = async (exchange: ExchangeId, progress: ScanProgressTracker): Promise<ScanResults> => {
+    const [tickers, marketMetadata] = await Promise.all([getTickerData(exchange), getMarketMetadata(exchange)]);
+    const conditions = getGroupConditions("fourHour");
+    const resultsByCondition = createEmptyResults(conditions);
+    const nearMissesByCondition = createEmptyNearMisses(conditions);
+    const symbols = getScreenableSymbols(tickers);
+    progress.startSymbols(symbols.length, resultsByCondition);
 
-    await runConcurrentQueue(getScreenableSymbols(tickerData), 15, async (symbol) => {
+    await runConcurrentQueue(symbols, 15, async (symbol) => {
       try {
-        const baseContext = await buildBaseSymbolContext(symbol, tickerData, marketMetadata);
-        if (!baseContext) {
+        const baseContext = await buildBaseSymbolContext(exchange, symbol, tickers, marketMetadata);
+        // Skip the 1h fetch when every 4h condition would drop the symbol on its RSI pre-filter anyway.
+        if (
+          !baseContext ||
+          !conditions.some((condition) => passesRsiPreFilter(baseContext.dailyPrices, condition.rsiPreFilter))
+        ) {
           return;
         }
 
-        const hourlyCandleData = await fetchJson<CandleApiResponse>(`https://api.bithumb.com/public/candlestick/${symbol}_KRW/1h`);
-        if (hourlyCandleData.status !== "0000") {
+        const hourlyCandles = await fetchCandles(exchange, symbol, "1h");
+        if (!hourlyCandles) {
           return;
         }
 
-        const hourlyCandles = normalizeCandles(hourlyCandleData.data);
         const fourHourContext = buildFourHourSymbolContext(hourlyCandles);
         if (!fourHourContext) {
           return;
         }
 
-        let topBidOrderbookCheck: boolean | null = null;
-        const passesTopBidOrderbook = async () => {
-          if (topBidOrderbookCheck === null) {
-            topBidOrderbookCheck = await hasLightTopBidOrderbook(symbol);
-          }
-          return topBidOrderbookCheck;
-        };
-
-        await appendFourHourConditionMatches(
+        await appendConditionMatches(
           resultsByCondition,
-          baseContext,
-          fourHourContext,
-          passesTopBidOrderbook,
+          nearMissesByCondition,
+          conditions,
+          createEvaluationContext(baseContext, fourHourContext, createOrderbookReader(exchange, symbol)),
         );
       } catch (error) {
+        progress.markFailed();
         logEvent("DEBUG", "four_hour_symbol_failed", {
+          exchange,
           symbol,
           message: error instanceof Error ? error.message : String(error),
         });
       }
-    });
+    }, progress.updateCompleted);
 
     return {
       generatedAt: Date.now(),
-      resultsByCondition,
+      resultsByCondition: rankResults(resultsByCondition),
+      nearMissesByCondition: rankConditionNearMisses(nearMissesByCondition),
     };
   };
 
-  const getDailyResults = async (forceRefresh: boolean) => {
-    if (!forceRefresh && cachedDailyResults && Date.now() - cachedDailyResults.generatedAt < cacheTtlMs) {
-      return cachedDailyResults;
+  // Re-runs one condition for one symbol with every sub-check recorded, including the scan-wide
+  // pre-filters that normally drop a symbol silently. Returns null when the market is not listed.
+  const explainConditionMatch = async (exchange: ExchangeId, symbol: string, condition: RuleConditionMeta) => {
+    const [tickers, marketMetadata] = await Promise.all([getTickerData(exchange), getMarketMetadata(exchange)]);
+    const quote = tickers.get(symbol);
+    if (!quote) {
+      return null;
     }
 
-    if (forceRefresh) {
-      cachedDailyResults = null;
+    const preFilters: ConditionCheck[] = [
+      {
+        kind: "preFilter",
+        label: "스캔 대상 종목",
+        passed: isScreenableQuote(symbol, quote),
+        actual: EXCLUDED_SYMBOLS.has(symbol) ? "스테이블코인" : `현재가 ${quote.price}`,
+        threshold: `스테이블코인 제외, 현재가 ${MIN_SCREENABLE_PRICE} 이상`,
+      },
+    ];
+    const explainCandleData = (label: string, candles: ChartCandle[] | null) => {
+      preFilters.push({
+        kind: "preFilter",
+        label,
+        passed: candles !== null,
+        actual: candles ? `${candles.length}개` : null,
+        threshold: "수신 성공",
+      });
+    };
+
+    const dailyCandles = await fetchCandles(exchange, symbol, "24h");
+    explainCandleData("일봉 데이터", dailyCandles);
+    const base = dailyCandles ? explainBaseSymbolContext(symbol, dailyCandles, getRowQuote(tickers, marketMetadata, symbol)) : null;
+    preFilters.push(...(base?.checks ?? []));
+    const rsiPreFilterCheck = dailyCandles
+      ? getRsiPreFilterCheck(dailyCandles.map((candle) => candle.close), condition.rsiPreFilter)
+      : null;
+    if (rsiPreFilterCheck) {
+      preFilters.push(rsiPreFilterCheck);
+    }
+
+    let fourHourContext: FourHourSymbolContext | null = null;
+    if (condition.group === "fourHour") {
+      const hourlyCandles = await fetchCandles(exchange, symbol, "1h");
+      explainCandleData("1시간봉 데이터", hourlyCandles);
+      if (hourlyCandles) {
+        const fourHour = explainFourHourSymbolContext(hourlyCandles);
+        preFilters.push(fourHour.check);
+        fourHourContext = fourHour.context;
+      }
+    }
+
+    const checks = base?.context
+      ? await explainConditionRule(
+          condition.rule,
+          createEvaluationContext(base.context, fourHourContext, createOrderbookReader(exchange, symbol)),
+        )
+      : null;
+
+    return {
+      passed: preFilters.every((check) => check.passed) && (checks?.passed ?? false),
+      preFilters,
+      checks,
+    };
+  };
+
+  // Each referenced condition becomes one node whose children are its own pre-filters and checks.
+  const explainCompositeMatch = async (exchange: ExchangeId, symbol: string, condition: CompositeConditionMeta) => {
+    const conditionRegistry = getConditionRegistry();
+    let marketListed = true;
+    const checks = await explainCompositeExpression(condition.expression, async (id) => {
+      const referenced = conditionRegistry.find((item) => item.id === id);
+      const explanation =
+        referenced && isRuleCondition(referenced) ? await explainConditionMatch(exchange, symbol, referenced) : null;
+      marketListed &&= explanation !== null;
+
+      return {
+        kind: "condition",
+        label: `조건 ${id}${referenced ? ` ${referenced.title}` : ""}`,
+        passed: explanation?.passed ?? false,
+        actual: explanation?.passed ? "통과" : "미통과",
+        threshold: "통과",
+        children: explanation
+          ? [...explanation.preFilters.filter((check) => !check.passed), ...(explanation.checks ? [explanation.checks] : [])]
+          : [],
+      };
+    });
+
+    return marketListed ? { passed: checks.passed, preFilters: [] as ConditionCheck[], checks } : null;
+  };
+
+  const resultCaches: Record<ConditionGroup, Map<ExchangeId, ResultsCache>> = {
+    daily: cachedDailyResults,
+    fourHour: cachedFourHourResults,
+  };
+  const inflightBuilds: Record<ConditionGroup, Map<ExchangeId, Promise<ResultsCache>>> = {
+    daily: inflightDailyBuilds,
+    fourHour: inflightFourHourBuilds,
+  };
+  const scanBuilders: Record<
+    ConditionGroup,
+    (exchange: ExchangeId, progress: ScanProgressTracker) => Promise<ScanResults>
+  > = {
+    daily: buildDailyConditionResults,
+    fourHour: buildFourHourConditionResults,
+  };
+
+  // A group cache may feed composites while it would still be served on its own: within the TTL,
+  // or stale on a scheduled exchange that refreshes it in the background.
+  const isServableGroupCache = (results: ResultsCache, exchange: ExchangeId) =>
+    Date.now() - results.generatedAt < cacheTtlMs || (scanSchedule.enabled && scanSchedule.exchanges.includes(exchange));
+
+  // Composites are recomputed whenever either group finishes, from the latest scan of each group.
+  // Until both groups have a servable scan there is nothing to combine. History, live tracking and
+  // alerts only advance once both groups have rescanned since the last recorded composite, so a
+  // cycle is recorded once and never joins a fresh group with the other group's previous scan.
+  const rebuildCompositeResults = (exchange: ExchangeId) => {
+    const fourHour = cachedFourHourResults.get(exchange);
+    const daily = cachedDailyResults.get(exchange);
+    if (!fourHour || !daily || !isServableGroupCache(fourHour, exchange) || !isServableGroupCache(daily, exchange)) {
+      cachedCompositeResults.delete(exchange);
+      return null;
+    }
+
+    const conditions = getCompositeConditions();
+    const generatedAt = Math.max(fourHour.generatedAt, daily.generatedAt);
+    const resultsByCondition = rankResults(
+      buildCompositeResults(conditions, {
+        ...fourHour.resultsByCondition,
+        ...daily.resultsByCondition,
+      }),
+    );
+    const lastRecorded = compositeRecordedScans.get(exchange);
+    const isNewCycle =
+      !lastRecorded || (fourHour.generatedAt > lastRecorded.fourHour && daily.generatedAt > lastRecorded.daily);
+    const results: ResultsCache = {
+      generatedAt,
+      resultsByCondition,
+      nearMissesByCondition: createEmptyNearMisses(conditions),
+      scanDiffByCondition: isNewCycle
+        ? scanHistory.record(exchange, generatedAt, resultsByCondition)
+        : scanHistory.compare(exchange, generatedAt, resultsByCondition),
+    };
+    cachedCompositeResults.set(exchange, results);
+    if (isNewCycle) {
+      compositeRecordedScans.set(exchange, { fourHour: fourHour.generatedAt, daily: daily.generatedAt });
+      trackSignals(exchange, "composite", results);
+      sendEntryAlerts(exchange, results);
     }
+    return results;
+  };
 
-    if (!inflightDailyBuild) {
-      inflightDailyBuild = buildDailyConditionResults()
-        .then((results) => {
-          cachedDailyResults = results;
+  // The previous results stay cached while a build runs, so scheduled rebuilds never blank the screen.
+  const startResultsBuild = (group: ConditionGroup, exchange: ExchangeId) => {
+    let inflightBuild = inflightBuilds[group].get(exchange);
+    if (!inflightBuild) {
+      const progress = scanProgressHub.begin(exchange, group);
+      inflightBuild = scanBuilders[group](exchange, progress)
+        .then((scan) => {
+          progress.finish();
+          const results: ResultsCache = {
+            ...scan,
+            scanDiffByCondition: scanHistory.record(exchange, scan.generatedAt, scan.resultsByCondition),
+          };
+          resultCaches[group].set(exchange, results);
+          trackSignals(exchange, group, results);
+          sendEntryAlerts(exchange, results);
+          rebuildCompositeResults(exchange);
           return results;
         })
+        .catch((error: unknown) => {
+          progress.finish(error);
+          throw error;
+        })
         .finally(() => {
-          inflightDailyBuild = null;
+          inflightBuilds[group].delete(exchange);
         });
+      inflightBuilds[group].set(exchange, inflightBuild);
     }
 
-    return inflightDailyBuild;
+    return inflightBuild;
   };
 
-  const getFourHourResults = async (forceRefresh: boolean) => {
-    if (!forceRefresh && cachedFourHourResults && Date.now() - cachedFourHourResults.generatedAt < cacheTtlMs) {
-      return cachedFourHourResults;
+  const getGroupResults = async (group: ConditionGroup, exchange: ExchangeId, forceRefresh: boolean) => {
+    const cachedResults = resultCaches[group].get(exchange);
+    if (!forceRefresh && cachedResults) {
+      if (Date.now() - cachedResults.generatedAt < cacheTtlMs) {
+        return cachedResults;
+      }
+
+      // Scheduled exchanges serve the stale scan and refresh it in the background instead of
+      // making the visitor wait for a full rebuild.
+      if (scanSchedule.enabled && scanSchedule.exchanges.includes(exchange)) {
+        void startResultsBuild(group, exchange).catch((error) => {
+          logEvent("ERROR", "background_scan_failed", {
+            exchange,
+            group,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        });
+        return cachedResults;
+      }
     }
 
     if (forceRefresh) {
-      cachedFourHourResults = null;
+      resultCaches[group].delete(exchange);
     }
 
-    if (!inflightFourHourBuild) {
-      inflightFourHourBuild = buildFourHourConditionResults()
-        .then((results) => {
-          cachedFourHourResults = results;
-          return results;
-        })
-        .finally(() => {
-          inflightFourHourBuild = null;
+    return startResultsBuild(group, exchange);
+  };
+
+  const getDailyResults = (exchange: ExchangeId, forceRefresh: boolean) => getGroupResults("daily", exchange, forceRefresh);
+  const getFourHourResults = (exchange: ExchangeId, forceRefresh: boolean) =>
+    getGroupResults("fourHour", exchange, forceRefresh);
+  // The groups are built one after the other, like scheduled scans, to spread the exchange load.
+  const getCompositeResults = async (exchange: ExchangeId, forceRefresh: boolean) => {
+    await getFourHourResults(exchange, forceRefresh);
+    await getDailyResults(exchange, forceRefresh);
+    const results = cachedCompositeResults.get(exchange) ?? rebuildCompositeResults(exchange);
+    if (!results) {
+      throw new Error(`Composite results are unavailable for ${exchange}`);
+    }
+    return results;
+  };
+  const getConditionResults = (condition: ConditionMeta, exchange: ExchangeId, forceRefresh: boolean) => {
+    switch (condition.group) {
+      case "daily":
+        return getDailyResults(exchange, forceRefresh);
+      case "fourHour":
+        return getFourHourResults(exchange, forceRefresh);
+      case "composite":
+        return getCompositeResults(exchange, forceRefresh);
+    }
+  };
+
+  const scanScheduler = createScanScheduler(scanSchedule, async (group) => {
+    const failedExchanges: string[] = [];
+
+    for (const exchange of scanSchedule.exchanges) {
+      const startedAt = Date.now();
+      try {
+        const results = await startResultsBuild(group, exchange);
+        logEvent("INFO", "scheduled_scan_completed", {
+          exchange,
+          group,
+          durationMs: Date.now() - startedAt,
+          matchCount: Object.values(results.resultsByCondition).reduce((sum, rows) => sum + rows.length, 0),
+        });
+      } catch (error) {
+        failedExchanges.push(exchange);
+        logEvent("ERROR", "scheduled_scan_failed", {
+          exchange,
+          group,
+          message: error instanceof Error ? error.message : String(error),
         });
+      }
     }
 
-    return inflightFourHourBuild;
-  };
+    if (failedExchanges.length > 0) {
+      throw new Error(`Scan failed for ${failedExchanges.join(", ")}`);
+    }
+  });
 
   app.use(express.json());
 
@@ -1089,36 +1223,71 @@ async function startServer() {
   });
 
   app.get("/api/crypto", async (req, res) => {
-    const requested = req.query.conditionId ? parseInt(req.query.conditionId.toString(), 10) : 1;
-    const conditionId = (ALL_CONDITION_IDS.includes(requested as ConditionId) ? requested : 1) as ConditionId;
+    const requested = req.query.conditionId ? parseInt(req.query.conditionId.toString(), 10) : DEFAULT_CONDITION_ID;
+    const conditionRegistry = getConditionRegistry();
+    const condition =
+      conditionRegistry.find((item) => item.id === requested) ??
+      conditionRegistry.find((item) => item.id === DEFAULT_CONDITION_ID)!;
+    const conditionId = condition.id;
     const forceRefresh = req.query.refresh === "1";
-    const isDailyCondition = DAILY_CONDITION_IDS.includes(conditionId);
+    const exchange = req.query.exchange?.toString() ?? DEFAULT_EXCHANGE_ID;
+
+    if (!isExchangeId(exchange)) {
+      return res.status(400).json({ success: false, error: "Unknown exchange" });
+    }
 
     res.setHeader("Content-Type", "application/json");
 
     try {
-      const { generatedAt, resultsByCondition } = isDailyCondition
-        ? await getDailyResults(forceRefresh)
-        : await getFourHourResults(forceRefresh);
+      let { generatedAt, resultsByCondition, nearMissesByCondition, scanDiffByCondition } = await getConditionResults(
+        condition,
+        exchange,
+        forceRefresh,
+      );
 
-      const results = resultsByCondition[conditionId];
-      const relevantConditionIds = isDailyCondition ? DAILY_CONDITION_IDS : FOUR_HOUR_CONDITION_IDS;
+      // A custom condition created while a build was in flight is missing from that build.
+      if (!resultsByCondition[conditionId]) {
+        ({ generatedAt, resultsByCondition, nearMissesByCondition, scanDiffByCondition } = await getConditionResults(
+          condition,
+          exchange,
+          true,
+        ));
+      }
+
+      const withScanPresence = (id: ConditionId) =>
+        (resultsByCondition[id] ?? []).map((row) => ({ ...row, ...scanDiffByCondition[id]?.presence[row.market] }));
+      const results = resultsByCondition[conditionId] ?? [];
+      const scanDiff = scanDiffByCondition[conditionId];
       const relevantData = Object.fromEntries(
-        relevantConditionIds.map((id) => [id, resultsByCondition[id]]),
+        conditionRegistry
+          .filter((item) => item.group === condition.group && resultsByCondition[item.id])
+          .map((item) => [item.id, withScanPresence(item.id)]),
+      );
+      const relevantNearMisses = Object.fromEntries(
+        Object.keys(relevantData).map((key) => [key, nearMissesByCondition[Number(key)] ?? []]),
       );
 
       writeCsv(results);
 
       return res.json({
         success: true,
+        exchange,
         count: results.length,
-        data: results,
+        data: withScanPresence(conditionId),
         allData: relevantData,
+        scanDiff: scanDiff && {
+          previousScanAt: scanDiff.previousScanAt,
+          entered: scanDiff.entered,
+          exited: scanDiff.exited,
+        },
+        nearMisses: nearMissesByCondition[conditionId] ?? [],
+        allNearMisses: relevantNearMisses,
         generatedAt,
         downloadUrl: "/screener_result.csv",
       });
     } catch (error) {
       logEvent("ERROR", "api_crypto_failed", {
+        exchange,
         conditionId,
         message: error instanceof Error ? error.message : String(error),
       });
@@ -1127,12 +1296,53 @@ async function startServer() {
     }
   });
 
+  // Server-Sent Events: the latest snapshot for the exchange and group on connect, then every update.
+  // Held so shutdown can end them; the heartbeat would otherwise keep server.close() waiting.
+  const openScanStreams = new Set<express.Response>();
+
+  app.get("/api/scan/stream", (req, res) => {
+    const exchange = req.query.exchange?.toString() ?? DEFAULT_EXCHANGE_ID;
+    const group = req.query.group?.toString();
+
+    if (!isExchangeId(exchange)) {
+      return res.status(400).json({ success: false, error: "Unknown exchange" });
+    }
+
+    if (group !== "daily" && group !== "fourHour") {
+      return res.status(400).json({ success: false, error: "group must be daily or fourHour" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const send = (snapshot: object) => {
+      res.write(`event: progress\ndata: ${JSON.stringify(snapshot)}\n\n`);
+    };
+    const currentSnapshot = scanProgressHub.get(exchange, group);
+    if (currentSnapshot) {
+      send(currentSnapshot);
+    }
+
+    const unsubscribe = scanProgressHub.subscribe(exchange, group, send);
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 15_000);
+    openScanStreams.add(res);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      openScanStreams.delete(res);
+    });
+  });
+
   app.get("/api/chart", async (req, res) => {
     const market = req.query.market?.toString() ?? "";
     const forceRefresh = req.query.refresh === "1";
     const rawFrame = req.query.frame?.toString();
     const frameScope: ChartFrameScope =
       rawFrame === "daily" || rawFrame === "fourHour" ? rawFrame : "all";
+    const exchange = req.query.exchange?.toString() ?? DEFAULT_EXCHANGE_ID;
 
     if (!market.trim()) {
       return res.status(400).json({
@@ -1141,14 +1351,19 @@ async function startServer() {
       });
     }
 
+    if (!isExchangeId(exchange)) {
+      return res.status(400).json({ success: false, error: "Unknown exchange" });
+    }
+
     try {
-      const chartData = await getAssetChartData(market, forceRefresh, frameScope);
+      const chartData = await getAssetChartData(exchange, market, forceRefresh, frameScope);
       return res.json({
         success: true,
         ...chartData,
       });
     } catch (error) {
       logEvent("ERROR", "api_chart_failed", {
+        exchange,
         market,
         message: error instanceof Error ? error.message : String(error),
       });
@@ -1160,6 +1375,449 @@ async function startServer() {
     }
   });
 
+  app.get("/api/explain", async (req, res) => {
+    const market = req.query.market?.toString() ?? "";
+    const conditionId = Number(req.query.conditionId);
+    const exchange = req.query.exchange?.toString() ?? DEFAULT_EXCHANGE_ID;
+    const condition = getConditionRegistry().find((item) => item.id === conditionId);
+
+    if (!market.trim()) {
+      return res.status(400).json({ success: false, error: "market query is required" });
+    }
+
+    if (!condition) {
+      return res.status(400).json({ success: false, error: "Unknown condition" });
+    }
+
+    if (!isExchangeId(exchange)) {
+      return res.status(400).json({ success: false, error: "Unknown exchange" });
+    }
+
+    const symbol = normalizeSymbol(market);
+
+    try {
+      const explanation = isRuleCondition(condition)
+        ? await explainConditionMatch(exchange, symbol, condition)
+        : await explainCompositeMatch(exchange, symbol, condition);
+      if (!explanation) {
+        return res.status(404).json({ success: false, error: "Market not found" });
+      }
+
+      return res.json({
+        success: true,
+        exchange,
+        market: `${symbol}/KRW`,
+        conditionId,
+        ...explanation,
+      });
+    } catch (error) {
+      logEvent("ERROR", "api_explain_failed", {
+        exchange,
+        market,
+        conditionId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Failed to explain condition" });
+    }
+  });
+
+  // Always fetched live: orderbook snapshots go stale far faster than the chart cache.
+  app.get("/api/orderbook", async (req, res) => {
+    const market = req.query.market?.toString() ?? "";
+    const exchange = req.query.exchange?.toString() ?? DEFAULT_EXCHANGE_ID;
+    const orderKrw = req.query.orderKrw === undefined ? SLIPPAGE_ORDER_KRW : Number(req.query.orderKrw);
+
+    if (!market.trim()) {
+      return res.status(400).json({ success: false, error: "market query is required" });
+    }
+
+    if (!isExchangeId(exchange)) {
+      return res.status(400).json({ success: false, error: "Unknown exchange" });
+    }
+
+    if (!Number.isFinite(orderKrw) || orderKrw <= 0) {
+      return res.status(400).json({ success: false, error: "orderKrw must be a positive number" });
+    }
+
+    const symbol = normalizeSymbol(market);
+
+    try {
+      const orderbook = await exchangeAdapters[exchange].fetchOrderbook(symbol);
+      if (!orderbook) {
+        return res.status(404).json({ success: false, error: "Orderbook not found" });
+      }
+
+      return res.json({
+        success: true,
+        exchange,
+        market: `${symbol}/KRW`,
+        generatedAt: Date.now(),
+        ...analyzeOrderbook(orderbook, orderKrw),
+      });
+    } catch (error) {
+      logEvent("ERROR", "api_orderbook_failed", {
+        exchange,
+        market,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Failed to fetch orderbook" });
+    }
+  });
+
+  // Every market that matched at least one rule condition of the requested groups, with the ids it
+  // matched, so the client can show all conditions side by side from one request.
+  app.get("/api/matrix", async (req, res) => {
+    const exchange = req.query.exchange?.toString() ?? DEFAULT_EXCHANGE_ID;
+    const group = req.query.group?.toString() ?? "all";
+    const forceRefresh = req.query.refresh === "1";
+
+    if (!isExchangeId(exchange)) {
+      return res.status(400).json({ success: false, error: "Unknown exchange" });
+    }
+
+    if (group !== "all" && group !== "fourHour" && group !== "daily") {
+      return res.status(400).json({ success: false, error: "group must be all, fourHour or daily" });
+    }
+
+    const groups: ConditionGroup[] = group === "all" ? ["fourHour", "daily"] : [group];
+
+    try {
+      const generatedAt: Partial<Record<ConditionGroup, number>> = {};
+      const rowsByMarket = new Map<string, ScreenerRow & { matchedConditionIds: ConditionId[] }>();
+      const conditions: RuleConditionMeta[] = [];
+
+      // One group at a time, like scheduled scans, to spread the exchange load.
+      for (const scanGroup of groups) {
+        const { generatedAt: scannedAt, resultsByCondition } = await getGroupResults(scanGroup, exchange, forceRefresh);
+        generatedAt[scanGroup] = scannedAt;
+
+        for (const condition of getGroupConditions(scanGroup)) {
+          conditions.push(condition);
+          for (const row of resultsByCondition[condition.id] ?? []) {
+            const matrixRow = rowsByMarket.get(row.market) ?? { ...row, matchedConditionIds: [] };
+            matrixRow.matchedConditionIds.push(condition.id);
+            rowsByMarket.set(row.market, matrixRow);
+          }
+        }
+      }
+
+      // Markets that matched nothing still get a row, built from the ticker alone (indicator fields null).
+      const [tickers, marketMetadata] = await Promise.all([getTickerData(exchange), getMarketMetadata(exchange)]);
+      for (const symbol of getScreenableSymbols(tickers)) {
+        const quote = getRowQuote(tickers, marketMetadata, symbol);
+        const row = buildScreenerRow(symbol, quote, tickers.get(symbol)!.price, [], []);
+        if (!rowsByMarket.has(row.market)) {
+          rowsByMarket.set(row.market, { ...row, matchedConditionIds: [] });
+        }
+      }
+
+      const rows = [...rowsByMarket.values()].sort(
+        (left, right) => right.matchedConditionIds.length - left.matchedConditionIds.length || right.volume - left.volume,
+      );
+
+      return res.json({
+        success: true,
+        exchange,
+        group,
+        generatedAt,
+        conditions: conditions.map(({ id, group: conditionGroup, title }) => ({ id, group: conditionGroup, title })),
+        rows,
+      });
+    } catch (error) {
+      logEvent("ERROR", "api_matrix_failed", {
+        exchange,
+        group,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Failed to build condition matrix" });
+    }
+  });
+
+  app.get("/api/conditions", (_req, res) => {
+    res.json({
+      success: true,
+      conditions: getConditionRegistry(),
+    });
+  });
+
+  app.post("/api/conditions", (req, res) => {
+    const { input, errors } = parseCustomConditionInput(req.body);
+    if (!input) {
+      return res.status(400).json({ success: false, error: "Invalid condition", details: errors });
+    }
+
+    try {
+      const condition = customConditionStore.create(input);
+      invalidateGroupResults(condition.group);
+      logEvent("INFO", "custom_condition_created", { conditionId: condition.id, group: condition.group });
+      return res.status(201).json({ success: true, condition });
+    } catch (error) {
+      logEvent("ERROR", "custom_condition_create_failed", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Failed to save condition" });
+    }
+  });
+
+  app.put("/api/conditions/:id", (req, res) => {
+    const conditionId = Number(req.params.id);
+    const previous = customConditionStore.get(conditionId);
+    if (!previous) {
+      return res.status(404).json({ success: false, error: "Custom condition not found" });
+    }
+
+    const { input, errors } = parseCustomConditionInput(req.body);
+    if (!input) {
+      return res.status(400).json({ success: false, error: "Invalid condition", details: errors });
+    }
+
+    try {
+      const condition = customConditionStore.update(conditionId, input);
+      invalidateGroupResults(previous.group);
+      invalidateGroupResults(input.group);
+      logEvent("INFO", "custom_condition_updated", { conditionId, group: input.group });
+      return res.json({ success: true, condition });
+    } catch (error) {
+      logEvent("ERROR", "custom_condition_update_failed", {
+        conditionId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Failed to save condition" });
+    }
+  });
+
+  app.delete("/api/conditions/:id", (req, res) => {
+    const conditionId = Number(req.params.id);
+    const previous = customConditionStore.get(conditionId);
+    if (!previous) {
+      return res.status(404).json({ success: false, error: "Custom condition not found" });
+    }
+
+    try {
+      customConditionStore.remove(conditionId);
+      const removedAlertRuleCount = alertRuleStore.removeByCondition(conditionId);
+      invalidateGroupResults(previous.group);
+      logEvent("INFO", "custom_condition_deleted", { conditionId, removedAlertRuleCount });
+      return res.json({ success: true });
+    } catch (error) {
+      logEvent("ERROR", "custom_condition_delete_failed", {
+        conditionId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Failed to delete condition" });
+    }
+  });
+
+  app.get("/api/condition-performance", async (req, res) => {
+    const exchange = req.query.exchange?.toString() ?? DEFAULT_EXCHANGE_ID;
+    if (!isExchangeId(exchange)) {
+      return res.status(400).json({ success: false, error: "Unknown exchange" });
+    }
+
+    try {
+      await signalTracker.resolvePendingReturns();
+      return res.json({ success: true, exchange, conditions: signalTracker.getScoreboard(exchange) });
+    } catch (error) {
+      logEvent("ERROR", "api_condition_performance_failed", {
+        exchange,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Failed to load condition performance" });
+    }
+  });
+
+  app.get("/api/alerts", (_req, res) => {
+    res.json({
+      success: true,
+      webhookCount: alertWebhookUrls.length,
+      cooldownMinutes: alertCooldownMs / 60_000,
+      rules: alertRuleStore.list(),
+    });
+  });
+
+  app.post("/api/alerts", (req, res) => {
+    const conditionRegistry = getConditionRegistry();
+    const { input, errors } = parseAlertRuleInput(req.body, (conditionId) =>
+      conditionRegistry.some((condition) => condition.id === conditionId),
+    );
+    if (!input) {
+      return res.status(400).json({ success: false, error: "Invalid alert rule", details: errors });
+    }
+
+    try {
+      const rule = alertRuleStore.create(input);
+      logEvent("INFO", "alert_rule_created", { ruleId: rule.id, conditionId: rule.conditionId });
+      return res.status(201).json({ success: true, rule });
+    } catch (error) {
+      logEvent("ERROR", "alert_rule_create_failed", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Failed to save alert rule" });
+    }
+  });
+
+  app.put("/api/alerts/:id", (req, res) => {
+    const ruleId = Number(req.params.id);
+    const conditionRegistry = getConditionRegistry();
+    const { input, errors } = parseAlertRuleInput(req.body, (conditionId) =>
+      conditionRegistry.some((condition) => condition.id === conditionId),
+    );
+    if (!input) {
+      return res.status(400).json({ success: false, error: "Invalid alert rule", details: errors });
+    }
+
+    try {
+      const rule = alertRuleStore.update(ruleId, input);
+      if (!rule) {
+        return res.status(404).json({ success: false, error: "Alert rule not found" });
+      }
+
+      logEvent("INFO", "alert_rule_updated", { ruleId, conditionId: rule.conditionId });
+      return res.json({ success: true, rule });
+    } catch (error) {
+      logEvent("ERROR", "alert_rule_update_failed", {
+        ruleId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Failed to save alert rule" });
+    }
+  });
+
+  app.delete("/api/alerts/:id", (req, res) => {
+    const ruleId = Number(req.params.id);
+
+    try {
+      if (!alertRuleStore.remove(ruleId)) {
+        return res.status(404).json({ success: false, error: "Alert rule not found" });
+      }
+
+      logEvent("INFO", "alert_rule_deleted", { ruleId });
+      return res.json({ success: true });
+    } catch (error) {
+      logEvent("ERROR", "alert_rule_delete_failed", {
+        ruleId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Failed to delete alert rule" });
+    }
+  });
+
+  app.get("/api/scheduler", (_req, res) => {
+    res.json({ success: true, ...scanScheduler.getStatus() });
+  });
+
+  app.get("/api/backtest", (req, res) => {
+    const fileName = req.query.file?.toString();
+    const requestedConditionId = req.query.conditionId ? Number(req.query.conditionId) : undefined;
+
+    try {
+      if (fileName) {
+        const report = readBacktestReport(backtestDir, fileName);
+        if (!report) {
+          return res.status(404).json({ success: false, error: "Backtest report not found" });
+        }
+
+        return res.json({ success: true, report });
+      }
+
+      return res.json({
+        success: true,
+        running: inflightBacktest !== null,
+        reports: listBacktestReports(backtestDir, requestedConditionId),
+      });
+    } catch (error) {
+      logEvent("ERROR", "api_backtest_read_failed", {
+        fileName,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Failed to read backtest reports" });
+    }
+  });
+
+  app.post("/api/backtest", async (req, res) => {
+    const conditionId = Number(req.body?.conditionId);
+    const condition = getConditionRegistry().find((item) => item.id === conditionId);
+    const maxBars = req.body?.maxBars === undefined ? undefined : Number(req.body.maxBars);
+    const requestedSymbols = Array.isArray(req.body?.symbols)
+      ? (req.body.symbols as unknown[]).map((symbol) => normalizeSymbol(String(symbol)))
+      : null;
+
+    if (!condition) {
+      return res.status(400).json({ success: false, error: "Unknown conditionId" });
+    }
+
+    if (!isRuleCondition(condition)) {
+      return res.status(400).json({ success: false, error: "Composite conditions cannot be backtested" });
+    }
+
+    if (maxBars !== undefined && (!Number.isInteger(maxBars) || maxBars <= 0)) {
+      return res.status(400).json({ success: false, error: "maxBars must be a positive integer" });
+    }
+
+    // Requested symbols end up in exchange URLs and candle file names, so only listed markets pass.
+    let screenableSymbols: string[];
+    try {
+      screenableSymbols = getScreenableSymbols(await getTickerData(DEFAULT_EXCHANGE_ID));
+    } catch (error) {
+      logEvent("ERROR", "api_backtest_failed", {
+        conditionId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Backtest failed" });
+    }
+
+    const unknownSymbols = requestedSymbols?.filter((symbol) => !screenableSymbols.includes(symbol)) ?? [];
+    if (unknownSymbols.length > 0) {
+      return res.status(400).json({ success: false, error: `Unknown symbols: ${unknownSymbols.join(", ")}` });
+    }
+
+    if (inflightBacktest) {
+      return res.status(409).json({ success: false, error: "A backtest is already running" });
+    }
+
+    const backtestRun = (async () => {
+      const symbols = requestedSymbols ?? screenableSymbols;
+      logEvent("INFO", "backtest_started", { conditionId, symbolCount: symbols.length, maxBars });
+
+      const report = await runConditionBacktest({
+        condition,
+        symbols,
+        maxBars,
+        loadCandles: (symbol, interval) => fetchCandles(DEFAULT_EXCHANGE_ID, symbol, interval),
+        onSymbolError: (symbol, error) => {
+          logEvent("DEBUG", "backtest_symbol_failed", {
+            conditionId,
+            symbol,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        },
+      });
+      const fileName = writeBacktestReport(backtestDir, report);
+      logEvent("INFO", "backtest_finished", {
+        conditionId,
+        fileName,
+        signalCount: report.summary.signalCount,
+        durationMs: report.durationMs,
+      });
+      return { fileName, report };
+    })();
+
+    inflightBacktest = backtestRun;
+
+    try {
+      const { fileName, report } = await backtestRun;
+      return res.json({ success: true, fileName, report });
+    } catch (error) {
+      logEvent("ERROR", "api_backtest_failed", {
+        conditionId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return res.status(500).json({ success: false, error: "Backtest failed" });
+    } finally {
+      inflightBacktest = null;
+    }
+  });
+
   app.use(express.static(publicDir));
 
   if (!isProduction) {
@@ -1181,17 +1839,28 @@ async function startServer() {
       port,
       command: process.argv.join(" "),
       nodeEnv: process.env.NODE_ENV || "undefined",
+      dataSource: dataSource.mode,
+      fixtureDir: dataSource.fixtureDir,
+      scanScheduler: scanSchedule.enabled ? scanSchedule.exchanges : "off",
       cwd: process.cwd(),
       distExists: fs.existsSync(distDir),
     });
+    scanScheduler.start();
   });
 
   const shutdown = (signal: string) => {
     logEvent("INFO", "server_stopping", { signal });
+    scanScheduler.stop();
     server.close(() => {
       logEvent("INFO", "server_stopped", { signal });
       process.exit(0);
     });
+    openScanStreams.forEach((stream) => stream.end());
+    server.closeIdleConnections();
+    setTimeout(() => {
+      logEvent("ERROR", "server_stop_timeout", { signal, timeoutMs: SHUTDOWN_TIMEOUT_MS });
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS).unref();
   };
 
   process.on("SIGINT", () => shutdown("SIGINT"));
@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { createAlertDispatcher, getAlertKey, type AlertPayload } from "./alertDispatcher.js";
+
+// Runs the dispatcher against a local webhook that answers from a per-test queue of status codes
+// (200 once the queue is empty), with retry delays shrunk to zero.
+
+const PAYLOAD: AlertPayload = {
+  event: "condition_entered",
+  exchange: "bithumb",
+  conditionId: 11,
+  conditionTitle: "Test condition",
+  market: "XRP/KRW",
+  price: 1000,
+  change: 0.05,
+  volume: 1_000_000,
+  chartUrl: "https://example.com/XRP",
+  scannedAt: 0,
+};
+
+let server: http.Server;
+let webhookUrl: string;
+let statuses: number[] = [];
+let received: AlertPayload[] = [];
+let stateDir: string;
+
+before(async () => {
+  server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => {
+      body += chunk;
+    });
+    request.on("end", () => {
+      received.push(JSON.parse(body) as AlertPayload);
+      response.writeHead(statuses.shift() ?? 200);
+      response.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "alert-dispatcher-"));
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  fs.rmSync(stateDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  statuses = [];
+  received = [];
+});
+
+function createDispatcher(statePath: string, webhookUrls = [webhookUrl]) {
+  const failures: unknown[] = [];
+  const dispatcher = createAlertDispatcher({
+    statePath,
+    webhookUrls,
+    cooldownMs: 60_000,
+    retryDelaysMs: [0, 0],
+    onFailed: (_payload, _url, error) => failures.push(error),
+  });
+  return { ...dispatcher, failures };
+}
+
+function readState(statePath: string) {
+  return JSON.parse(fs.readFileSync(statePath, "utf8")) as Record<string, number>;
+}
+
+describe("createAlertDispatcher", () => {
+  test("retries server errors until the webhook accepts", async () => {
+    const statePath = path.join(stateDir, "retry.json");
+    const dispatcher = createDispatcher(statePath);
+    statuses = [500, 503];
+
+    const { queued, delivery } = dispatcher.dispatch([PAYLOAD]);
+    await delivery;
+
+    assert.equal(queued.length, 1);
+    assert.equal(received.length, 3);
+    assert.deepEqual(received[2], PAYLOAD);
+    assert.deepEqual(dispatcher.failures, []);
+    assert.ok(getAlertKey(PAYLOAD) in readState(statePath));
+  });
+
+  test("does not retry client errors other than 429", async () => {
+    const dispatcher = createDispatcher(path.join(stateDir, "client-error.json"));
+    statuses = [400];
+
+    await dispatcher.dispatch([PAYLOAD]).delivery;
+
+    assert.equal(received.length, 1);
+    assert.equal(dispatcher.failures.length, 1);
+  });
+
+  test("skips a payload inside its cooldown, including after a restart", async () => {
+    const statePath = path.join(stateDir, "cooldown.json");
+    const dispatcher = createDispatcher(statePath);
+
+    await dispatcher.dispatch([PAYLOAD]).delivery;
+    const repeat = dispatcher.dispatch([PAYLOAD]);
+    await repeat.delivery;
+    const restarted = createDispatcher(statePath).dispatch([PAYLOAD]);
+    await restarted.delivery;
+
+    assert.equal(received.length, 1);
+    assert.deepEqual(repeat.queued, []);
+    assert.deepEqual(restarted.queued, []);
+  });
+
+  test("does not queue a payload twice while it is still being delivered", async () => {
+    const dispatcher = createDispatcher(path.join(stateDir, "in-flight.json"));
+
+    const first = dispatcher.dispatch([PAYLOAD]);
+    const second = dispatcher.dispatch([PAYLOAD, { ...PAYLOAD, market: "BTC/KRW" }]);
+    await Promise.all([first.delivery, second.delivery]);
+
+    assert.deepEqual(
+      second.queued.map((payload) => payload.market),
+      ["BTC/KRW"],
+    );
+    assert.equal(received.length, 2);
+  });
+
+  test("starts no cooldown when every delivery failed", async () => {
+    const statePath = path.join(stateDir, "failed.json");
+    const dispatcher = createDispatcher(statePath);
+    statuses = [500, 500, 500];
+
+    await dispatcher.dispatch([PAYLOAD]).delivery;
+    assert.equal(received.length, 3);
+    assert.equal(dispatcher.failures.length, 1);
+    assert.equal(fs.existsSync(statePath), false);
+
+    const retried = dispatcher.dispatch([PAYLOAD]);
+    await retried.delivery;
+    assert.equal(retried.queued.length, 1);
+    assert.equal(received.length, 4);
+  });
+
+  test("starts the cooldown when one of several webhooks accepted", async () => {
+    const statePath = path.join(stateDir, "partial.json");
+    const dispatcher = createDispatcher(statePath, [webhookUrl, "http://127.0.0.1:1/unreachable"]);
+
+    await dispatcher.dispatch([PAYLOAD]).delivery;
+
+    assert.equal(dispatcher.failures.length, 1);
+    assert.ok(getAlertKey(PAYLOAD) in readState(statePath));
+  });
+});
@@ -0,0 +1,152 @@
+import fs from "fs";
+import path from "path";
+import type { ExchangeId } from "../src/config/exchanges.js";
+import type { ConditionId } from "../src/config/screenerBootstrap.js";
+import { readLocalJsonFile } from "./localJsonFile.js";
+
+export type AlertPayload = {
+  event: "condition_entered";
+  exchange: ExchangeId;
+  conditionId: ConditionId;
+  conditionTitle: string;
+  market: string;
+  price: number;
+  change: number;
+  volume: number;
+  chartUrl: string;
+  scannedAt: number;
+};
+
+// Waits before each retry; a delivery is attempted RETRY_DELAYS_MS.length + 1 times in total.
+const RETRY_DELAYS_MS = [2_000, 8_000];
+const WEBHOOK_TIMEOUT_MS = 5_000;
+
+async function postWebhook(url: string, payload: AlertPayload) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  return response.status;
+}
+
+// Client errors other than rate limiting will not fix themselves on retry.
+function isRetryableStatus(status: number) {
+  return status >= 500 || status === 429;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function getAlertKey(payload: Pick<AlertPayload, "exchange" | "conditionId" | "market">) {
+  return `${payload.exchange}:${payload.conditionId}:${payload.market}`;
+}
+
+// Posts each new match to every configured webhook. The same exchange+condition+market fires at
+// most once per cooldown, even across restarts. The cooldown starts once at least one webhook has
+// accepted the payload, so an alert whose deliveries all failed goes out again on the next scan;
+// while its deliveries are still in flight, later scans do not queue it a second time.
+export function createAlertDispatcher(options: {
+  statePath: string;
+  webhookUrls: string[];
+  cooldownMs: number;
+  retryDelaysMs?: number[];
+  onDelivered?: (payload: AlertPayload, url: string, attempts: number) => void;
+  onFailed?: (payload: AlertPayload, url: string, error: unknown) => void;
+  onLoadError?: (error: unknown, backupPath: string) => void;
+  onPersistError?: (error: unknown) => void;
+}) {
+  const {
+    statePath,
+    webhookUrls,
+    cooldownMs,
+    retryDelaysMs = RETRY_DELAYS_MS,
+    onDelivered,
+    onFailed,
+    onLoadError,
+    onPersistError,
+  } = options;
+  let lastSentAt = readLocalJsonFile<Record<string, number>>(statePath, {}, onLoadError);
+  const inFlight = new Set<string>();
+
+  const persist = (now: number) => {
+    lastSentAt = Object.fromEntries(Object.entries(lastSentAt).filter(([, sentAt]) => now - sentAt < cooldownMs));
+    fs.mkdirSync(path.dirname(statePath), { recursive: true });
+    fs.writeFileSync(statePath, `${JSON.stringify(lastSentAt, null, 2)}\n`);
+  };
+
+  // Resolves to whether the webhook accepted the payload.
+  const deliver = async (url: string, payload: AlertPayload) => {
+    for (let attempt = 0; ; attempt += 1) {
+      let failure: unknown;
+      let retryable = true;
+      try {
+        const status = await postWebhook(url, payload);
+        if (status >= 200 && status < 300) {
+          onDelivered?.(payload, url, attempt + 1);
+          return true;
+        }
+
+        failure = new Error(`HTTP ${status}`);
+        retryable = isRetryableStatus(status);
+      } catch (error) {
+        failure = error;
+      }
+
+      if (!retryable || attempt >= retryDelaysMs.length) {
+        onFailed?.(payload, url, failure);
+        return false;
+      }
+
+      await wait(retryDelaysMs[attempt]);
+    }
+  };
+
+  const deliverToAll = async (key: string, payload: AlertPayload) => {
+    try {
+      const accepted = await Promise.all(webhookUrls.map((url) => deliver(url, payload)));
+      if (!accepted.some(Boolean)) {
+        return;
+      }
+
+      const now = Date.now();
+      lastSentAt[key] = now;
+      try {
+        persist(now);
+      } catch (error) {
+        // The cooldown still holds in memory until the next restart.
+        onPersistError?.(error);
+      }
+    } finally {
+      inFlight.delete(key);
+    }
+  };
+
+  // Returns the payloads that passed the cooldown; deliveries continue in the background.
+  const dispatch = (payloads: AlertPayload[]) => {
+    if (webhookUrls.length === 0 || payloads.length === 0) {
+      return { queued: [] as AlertPayload[], delivery: Promise.resolve() };
+    }
+
+    const now = Date.now();
+    const queued = payloads.filter((payload) => {
+      const key = getAlertKey(payload);
+      if (inFlight.has(key) || now - (lastSentAt[key] ?? 0) < cooldownMs) {
+        return false;
+      }
+
+      inFlight.add(key);
+      return true;
+    });
+
+    const delivery = Promise.all(queued.map((payload) => deliverToAll(getAlertKey(payload), payload))).then(
+      () => undefined,
+    );
+    return { queued, delivery };
+  };
+
+  return { dispatch };
+}
+
+export type AlertDispatcher = ReturnType<typeof createAlertDispatcher>;
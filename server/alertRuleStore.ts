@@ -0,0 +1,130 @@
+import fs from "fs";
+import path from "path";
+import { isExchangeId, type ExchangeId } from "../src/config/exchanges.js";
+import type { ConditionId } from "../src/config/screenerBootstrap.js";
+import { readLocalJsonFile } from "./localJsonFile.js";
+
+export type AlertRuleInput = {
+  conditionId: ConditionId;
+  // Null matches every exchange.
+  exchange: ExchangeId | null;
+  // Markets such as "XRP/KRW"; null matches any symbol. A favorites-only rule stores the favorites here.
+  markets: string[] | null;
+  // Set on rules made from the screen's favorites; the screen rewrites `markets` whenever they change.
+  followsFavorites: boolean;
+};
+
+export type AlertRule = AlertRuleInput & {
+  id: number;
+  createdAt: number;
+};
+
+export function parseAlertRuleInput(value: unknown, isKnownCondition: (conditionId: number) => boolean) {
+  const errors: string[] = [];
+  const raw = (value ?? {}) as Record<string, unknown>;
+  const conditionId = Number(raw.conditionId);
+  const exchange = raw.exchange ?? null;
+  const markets = raw.markets ?? null;
+  const followsFavorites = raw.followsFavorites ?? false;
+
+  if (!Number.isInteger(conditionId) || !isKnownCondition(conditionId)) {
+    errors.push("conditionId must reference an existing condition");
+  }
+
+  if (exchange !== null && !isExchangeId(exchange)) {
+    errors.push("exchange must be bithumb, upbit or null");
+  }
+
+  if (markets !== null && (!Array.isArray(markets) || markets.some((market) => typeof market !== "string" || !market.trim()))) {
+    errors.push("markets must be null or a list of market names");
+  }
+
+  if (typeof followsFavorites !== "boolean" || (followsFavorites && markets === null)) {
+    errors.push("followsFavorites must be a boolean and needs a markets list");
+  }
+
+  if (errors.length > 0) {
+    return { input: null, errors };
+  }
+
+  return {
+    input: {
+      conditionId,
+      exchange: exchange as ExchangeId | null,
+      markets: markets ? (markets as string[]).map((market) => market.trim().toUpperCase()) : null,
+      followsFavorites: followsFavorites as boolean,
+    } satisfies AlertRuleInput,
+    errors,
+  };
+}
+
+export function matchesAlertRule(rule: AlertRule, exchange: ExchangeId, conditionId: ConditionId, market: string) {
+  return (
+    rule.conditionId === conditionId &&
+    (rule.exchange === null || rule.exchange === exchange) &&
+    (rule.markets === null || rule.markets.includes(market))
+  );
+}
+
+// Alert rules live next to custom conditions in .local/ and are edited through /api/alerts.
+export function createAlertRuleStore(filePath: string, onLoadError?: (error: unknown, backupPath: string) => void) {
+  const parsed = readLocalJsonFile<unknown>(filePath, [], onLoadError);
+  let rules: AlertRule[] = Array.isArray(parsed) ? (parsed as AlertRule[]) : [];
+
+  const persist = () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `${JSON.stringify(rules, null, 2)}\n`);
+  };
+
+  const list = () => rules;
+
+  const create = (input: AlertRuleInput) => {
+    const rule: AlertRule = {
+      ...input,
+      id: rules.reduce((maxId, item) => Math.max(maxId, item.id + 1), 1),
+      createdAt: Date.now(),
+    };
+    rules = [...rules, rule];
+    persist();
+    return rule;
+  };
+
+  // Replaces the editable fields of a rule; returns null when no rule has this id.
+  const update = (id: number, input: AlertRuleInput) => {
+    const current = rules.find((rule) => rule.id === id);
+    if (!current) {
+      return null;
+    }
+
+    const rule: AlertRule = { ...current, ...input };
+    rules = rules.map((item) => (item.id === id ? rule : item));
+    persist();
+    return rule;
+  };
+
+  const remove = (id: number) => {
+    const nextRules = rules.filter((rule) => rule.id !== id);
+    if (nextRules.length === rules.length) {
+      return false;
+    }
+
+    rules = nextRules;
+    persist();
+    return true;
+  };
+
+  // Drops every rule that targets a deleted condition; returns how many were removed.
+  const removeByCondition = (conditionId: ConditionId) => {
+    const nextRules = rules.filter((rule) => rule.conditionId !== conditionId);
+    const removedCount = rules.length - nextRules.length;
+    if (removedCount > 0) {
+      rules = nextRules;
+      persist();
+    }
+    return removedCount;
+  };
+
+  return { list, create, update, remove, removeByCondition };
+}
+
+export type AlertRuleStore = ReturnType<typeof createAlertRuleStore>;
@@ -0,0 +1,360 @@
+import fs from "fs";
+import path from "path";
+import { ORDERBOOK_RULE_KINDS, ruleUsesKind, type ConditionRule } from "../src/config/conditionRules.js";
+import type { ConditionGroup, ConditionId, RuleConditionMeta } from "../src/config/screenerBootstrap.js";
+import type { CandleInterval } from "./candleStore.js";
+import { runConcurrentQueue } from "./concurrency.js";
+import { evaluateConditionRule } from "./conditionEngine.js";
+import { aggregateFourHourCandles, FOUR_HOUR_SECONDS } from "./candleAggregation.js";
+import {
+  buildFourHourSymbolContext,
+  createBaseSymbolContext,
+  createEvaluationContext,
+  MIN_FOUR_HOUR_CANDLES,
+  passesRsiPreFilter,
+  type ScreenerRowQuote,
+} from "./symbolContext.js";
+import type { ChartCandle } from "./types.js";
+
+export const BACKTEST_HORIZONS = [1, 3, 7, 14, 30] as const;
+export const DEFAULT_BACKTEST_MAX_BARS: Record<ConditionGroup, number> = {
+  daily: 365,
+  fourHour: 540,
+};
+
+const HOURS_PER_DAY = 24;
+const REPORT_FILE_PATTERN = /^(\d+)-[\dTZ-]+\.json$/;
+
+export type BacktestCandleLoader = (symbol: string, interval: CandleInterval) => Promise<ChartCandle[] | null>;
+
+type BacktestSignal = {
+  time: number;
+  entryPrice: number;
+  forwardReturns: Array<number | null>;
+  mfe: number | null;
+  mae: number | null;
+};
+
+type HorizonStats = {
+  sampleCount: number;
+  averageReturn: number | null;
+  hitRate: number | null;
+};
+
+type SignalStats = {
+  signalCount: number;
+  horizons: Record<string, HorizonStats>;
+  averageMfe: number | null;
+  averageMae: number | null;
+};
+
+export type BacktestSymbolResult = SignalStats & {
+  symbol: string;
+  lastSignalTime: number | null;
+};
+
+export type BacktestReport = {
+  conditionId: ConditionId;
+  title: string;
+  group: ConditionGroup;
+  generatedAt: number;
+  durationMs: number;
+  barUnit: ConditionGroup;
+  maxBars: number;
+  horizons: number[];
+  // Live-only inputs that cannot be replayed from candles are treated as passing.
+  assumedPassingRules: ConditionRule["kind"][];
+  symbolCount: number;
+  failedSymbols: string[];
+  summary: SignalStats & { symbolsWithSignals: number };
+  symbols: BacktestSymbolResult[];
+};
+
+export type BacktestReportListing = {
+  fileName: string;
+  conditionId: ConditionId;
+  title: string;
+  generatedAt: number;
+  signalCount: number;
+  symbolCount: number;
+};
+
+function average(values: number[]) {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function measureSignal(bars: ChartCandle[], index: number, entryPrice: number): BacktestSignal {
+  const maxHorizon = BACKTEST_HORIZONS[BACKTEST_HORIZONS.length - 1];
+  const forwardWindow = bars.slice(index + 1, index + 1 + maxHorizon);
+
+  return {
+    time: bars[index].time,
+    entryPrice,
+    forwardReturns: BACKTEST_HORIZONS.map((horizon) => {
+      const futureBar = bars[index + horizon];
+      return futureBar ? futureBar.close / entryPrice - 1 : null;
+    }),
+    mfe: forwardWindow.length > 0 ? Math.max(...forwardWindow.map((bar) => bar.high)) / entryPrice - 1 : null,
+    mae: forwardWindow.length > 0 ? Math.min(...forwardWindow.map((bar) => bar.low)) / entryPrice - 1 : null,
+  };
+}
+
+function summarizeSignals(signals: BacktestSignal[]): SignalStats {
+  const horizons = Object.fromEntries(
+    BACKTEST_HORIZONS.map((horizon, horizonIndex) => {
+      const returns = signals
+        .map((signal) => signal.forwardReturns[horizonIndex])
+        .filter((value): value is number => value !== null);
+
+      return [
+        String(horizon),
+        {
+          sampleCount: returns.length,
+          averageReturn: average(returns),
+          hitRate: returns.length > 0 ? returns.filter((value) => value > 0).length / returns.length : null,
+        },
+      ];
+    }),
+  );
+
+  return {
+    signalCount: signals.length,
+    horizons,
+    averageMfe: average(signals.flatMap((signal) => (signal.mfe === null ? [] : [signal.mfe]))),
+    averageMae: average(signals.flatMap((signal) => (signal.mae === null ? [] : [signal.mae]))),
+  };
+}
+
+// Orderbook snapshots are not historical, so replays treat orderbook guards as satisfied.
+const assumePassingOrderbook = null;
+
+function createReplayQuote(symbol: string, change: number, volume: number): ScreenerRowQuote {
+  return {
+    korean_name: symbol,
+    english_name: symbol,
+    change,
+    volume,
+  };
+}
+
+// Daily history as it looked at `barEnd`: completed days plus the current day rebuilt from
+// the hourly bars seen so far, so 4h replays never peek at the day's final close.
+function buildDailyHistoryAt(dailyCandles: ChartCandle[], hourlyHistory: ChartCandle[], barEnd: number) {
+  let dayIndex = -1;
+  for (let index = dailyCandles.length - 1; index >= 0; index -= 1) {
+    if (dailyCandles[index].time < barEnd) {
+      dayIndex = index;
+      break;
+    }
+  }
+
+  if (dayIndex === -1) {
+    return [];
+  }
+
+  const dayStart = dailyCandles[dayIndex].time;
+  const completedDays = dailyCandles.slice(0, dayIndex);
+  const intradayBars = hourlyHistory.filter((candle) => candle.time >= dayStart && candle.time < barEnd);
+  if (intradayBars.length === 0) {
+    return completedDays;
+  }
+
+  return [
+    ...completedDays,
+    {
+      time: dayStart,
+      open: intradayBars[0].open,
+      high: Math.max(...intradayBars.map((candle) => candle.high)),
+      low: Math.min(...intradayBars.map((candle) => candle.low)),
+      close: intradayBars[intradayBars.length - 1].close,
+      volume: intradayBars.reduce((sum, candle) => sum + candle.volume, 0),
+    },
+  ];
+}
+
+async function replayDailySymbol(condition: RuleConditionMeta, symbol: string, dailyCandles: ChartCandle[], maxBars: number) {
+  const signals: BacktestSignal[] = [];
+
+  for (let index = Math.max(1, dailyCandles.length - maxBars); index < dailyCandles.length; index += 1) {
+    const candle = dailyCandles[index];
+    const previousClose = dailyCandles[index - 1].close;
+    const quote = createReplayQuote(
+      symbol,
+      previousClose > 0 ? candle.close / previousClose - 1 : 0,
+      candle.close * candle.volume,
+    );
+    const baseContext = createBaseSymbolContext(symbol, dailyCandles.slice(0, index + 1), quote);
+    if (!baseContext || !passesRsiPreFilter(baseContext.dailyPrices, condition.rsiPreFilter)) {
+      continue;
+    }
+
+    if (await evaluateConditionRule(condition.rule, createEvaluationContext(baseContext, null, assumePassingOrderbook))) {
+      signals.push(measureSignal(dailyCandles, index, baseContext.currentPrice));
+    }
+  }
+
+  return signals;
+}
+
+async function replayFourHourSymbol(
+  condition: RuleConditionMeta,
+  symbol: string,
+  dailyCandles: ChartCandle[],
+  hourlyCandles: ChartCandle[],
+  maxBars: number,
+) {
+  const signals: BacktestSignal[] = [];
+  const { candles: fourHourBars } = aggregateFourHourCandles(hourlyCandles);
+  let hourlyEnd = 0;
+
+  for (
+    let barIndex = Math.max(MIN_FOUR_HOUR_CANDLES - 1, fourHourBars.length - maxBars);
+    barIndex < fourHourBars.length;
+    barIndex += 1
+  ) {
+    // Each bar is replayed as of its slot close, using only the hours that had printed by then.
+    const barEnd = fourHourBars[barIndex].time + FOUR_HOUR_SECONDS;
+    while (hourlyEnd < hourlyCandles.length && hourlyCandles[hourlyEnd].time < barEnd) {
+      hourlyEnd += 1;
+    }
+
+    const hourlyHistory = hourlyCandles.slice(0, hourlyEnd);
+    const fourHourContext = buildFourHourSymbolContext(hourlyHistory, barEnd);
+    if (!fourHourContext) {
+      continue;
+    }
+
+    const trailingDay = hourlyHistory.slice(-HOURS_PER_DAY);
+    const quote = createReplayQuote(
+      symbol,
+      trailingDay[0].open > 0 ? fourHourContext.currentPrice / trailingDay[0].open - 1 : 0,
+      trailingDay.reduce((sum, candle) => sum + candle.close * candle.volume, 0),
+    );
+    const baseContext = createBaseSymbolContext(symbol, buildDailyHistoryAt(dailyCandles, hourlyHistory, barEnd), quote);
+    if (!baseContext || !passesRsiPreFilter(baseContext.dailyPrices, condition.rsiPreFilter)) {
+      continue;
+    }
+
+    const context = createEvaluationContext(baseContext, fourHourContext, assumePassingOrderbook);
+    if (await evaluateConditionRule(condition.rule, context)) {
+      signals.push(measureSignal(fourHourBars, barIndex, fourHourContext.currentPrice));
+    }
+  }
+
+  return signals;
+}
+
+export async function runConditionBacktest(options: {
+  condition: RuleConditionMeta;
+  symbols: string[];
+  loadCandles: BacktestCandleLoader;
+  maxBars?: number;
+  concurrency?: number;
+  onSymbolError?: (symbol: string, error: unknown) => void;
+}): Promise<BacktestReport> {
+  const { condition, symbols, loadCandles, onSymbolError } = options;
+  const maxBars = options.maxBars ?? DEFAULT_BACKTEST_MAX_BARS[condition.group];
+  const startedAt = Date.now();
+  const symbolSignals = new Map<string, BacktestSignal[]>();
+  const failedSymbols: string[] = [];
+
+  await runConcurrentQueue(symbols, options.concurrency ?? 5, async (symbol) => {
+    try {
+      const dailyCandles = await loadCandles(symbol, "24h");
+      if (!dailyCandles || dailyCandles.length < 2) {
+        return;
+      }
+
+      if (condition.group === "daily") {
+        symbolSignals.set(symbol, await replayDailySymbol(condition, symbol, dailyCandles, maxBars));
+        return;
+      }
+
+      const hourlyCandles = await loadCandles(symbol, "1h");
+      if (!hourlyCandles) {
+        return;
+      }
+
+      symbolSignals.set(symbol, await replayFourHourSymbol(condition, symbol, dailyCandles, hourlyCandles, maxBars));
+    } catch (error) {
+      failedSymbols.push(symbol);
+      onSymbolError?.(symbol, error);
+    }
+  });
+
+  const symbolResults: BacktestSymbolResult[] = [...symbolSignals.entries()]
+    .filter(([, signals]) => signals.length > 0)
+    .map(([symbol, signals]) => ({
+      symbol,
+      lastSignalTime: signals[signals.length - 1].time,
+      ...summarizeSignals(signals),
+    }))
+    .sort((left, right) => right.signalCount - left.signalCount);
+
+  return {
+    conditionId: condition.id,
+    title: condition.title,
+    group: condition.group,
+    generatedAt: Date.now(),
+    durationMs: Date.now() - startedAt,
+    barUnit: condition.group,
+    maxBars,
+    horizons: [...BACKTEST_HORIZONS],
+    assumedPassingRules: ORDERBOOK_RULE_KINDS.filter((kind) => ruleUsesKind(condition.rule, kind)),
+    symbolCount: symbols.length,
+    failedSymbols,
+    summary: {
+      ...summarizeSignals([...symbolSignals.values()].flat()),
+      symbolsWithSignals: symbolResults.length,
+    },
+    symbols: symbolResults,
+  };
+}
+
+export function writeBacktestReport(directory: string, report: BacktestReport) {
+  const timestamp = new Date(report.generatedAt).toISOString().replace(/[:.]/g, "-");
+  const fileName = `${report.conditionId}-${timestamp}.json`;
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(path.join(directory, fileName), `${JSON.stringify(report, null, 2)}\n`);
+  return fileName;
+}
+
+export function readBacktestReport(directory: string, fileName: string) {
+  if (!REPORT_FILE_PATTERN.test(fileName)) {
+    return null;
+  }
+
+  const filePath = path.join(directory, fileName);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as BacktestReport;
+}
+
+export function listBacktestReports(directory: string, conditionId?: ConditionId): BacktestReportListing[] {
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(directory)
+    .filter((fileName) => {
+      const match = REPORT_FILE_PATTERN.exec(fileName);
+      return match !== null && (conditionId === undefined || Number(match[1]) === conditionId);
+    })
+    .flatMap((fileName) => {
+      const report = readBacktestReport(directory, fileName);
+      return report
+        ? [{
+            fileName,
+            conditionId: report.conditionId,
+            title: report.title,
+            generatedAt: report.generatedAt,
+            signalCount: report.summary.signalCount,
+            symbolCount: report.symbolCount,
+          }]
+        : [];
+    })
+    .sort((left, right) => right.generatedAt - left.generatedAt);
+}
@@ -0,0 +1,121 @@
+import {
+  getKstCandleEndpoint,
+  normalizeKstCandleRows,
+  toMarketMetadata,
+  type ExchangeAdapter,
+  type JsonFetcher,
+  type KrwMarketRow,
+  type KstCandleRow,
+  type TickerQuote,
+} from "./exchangeAdapter.js";
+import type { ChartCandle } from "./types.js";
+
+type TickerEntry = {
+  closing_price: string;
+  fluctate_rate_24H: string;
+  acc_trade_value_24H: string;
+};
+type TickerApiResponse = {
+  status: string;
+  data: Record<string, TickerEntry | string>;
+};
+type CandleApiResponse = {
+  status: string;
+  data: Array<Array<string | number>>;
+};
+type OrderbookApiResponse = {
+  status: string;
+  data: {
+    bids: Array<{ price: string; quantity: string }>;
+    asks: Array<{ price: string; quantity: string }>;
+  };
+};
+
+const API_BASE_URL = "https://api.bithumb.com";
+const SUCCESS_STATUS = "0000";
+
+// Legacy candlestick rows are ordered [time(ms), open, close, high, low, volume].
+function normalizeCandles(candles: Array<Array<string | number>>): ChartCandle[] {
+  return candles
+    .map((candle) => ({
+      time: Math.floor(Number(candle[0]) / 1000),
+      open: Number(candle[1]),
+      close: Number(candle[2]),
+      high: Number(candle[3]),
+      low: Number(candle[4]),
+      volume: Number(candle[5] ?? 0),
+    }))
+    .filter(
+      (candle) =>
+        Number.isFinite(candle.time) &&
+        Number.isFinite(candle.open) &&
+        Number.isFinite(candle.close) &&
+        Number.isFinite(candle.high) &&
+        Number.isFinite(candle.low) &&
+        Number.isFinite(candle.volume),
+    )
+    .sort((left, right) => left.time - right.time);
+}
+
+export function createBithumbAdapter(fetchJson: JsonFetcher): ExchangeAdapter {
+  return {
+    id: "bithumb",
+
+    fetchTickers: async () => {
+      const tickerData = await fetchJson<TickerApiResponse>(`${API_BASE_URL}/public/ticker/ALL_KRW`);
+      if (tickerData.status !== SUCCESS_STATUS) {
+        throw new Error("Bithumb ticker API error");
+      }
+
+      const tickers = new Map<string, TickerQuote>();
+      for (const [symbol, entry] of Object.entries(tickerData.data)) {
+        // The payload mixes a "date" string in with the per-symbol entries.
+        if (typeof entry === "string") {
+          continue;
+        }
+
+        tickers.set(symbol, {
+          price: Number(entry.closing_price),
+          changeRate: Number(entry.fluctate_rate_24H) / 100,
+          tradeValue24h: Number(entry.acc_trade_value_24H),
+        });
+      }
+
+      return tickers;
+    },
+
+    fetchMarketMetadata: async () => toMarketMetadata(await fetchJson<KrwMarketRow[]>(`${API_BASE_URL}/v1/market/all`)),
+
+    fetchCandleHistory: async (symbol, interval) => {
+      const candleData = await fetchJson<CandleApiResponse>(`${API_BASE_URL}/public/candlestick/${symbol}_KRW/${interval}`);
+      if (candleData.status !== SUCCESS_STATUS) {
+        return null;
+      }
+
+      return normalizeCandles(candleData.data);
+    },
+
+    fetchRecentCandles: async (symbol, interval, count) => {
+      const rows = await fetchJson<KstCandleRow[]>(
+        `${API_BASE_URL}/v1/candles/${getKstCandleEndpoint(interval)}?market=KRW-${symbol}&count=${count}`,
+      );
+      if (!Array.isArray(rows)) {
+        throw new Error("Unexpected recent candle response");
+      }
+
+      return normalizeKstCandleRows(rows);
+    },
+
+    fetchOrderbook: async (symbol) => {
+      const orderbookData = await fetchJson<OrderbookApiResponse>(`${API_BASE_URL}/public/orderbook/${symbol}_KRW`);
+      if (orderbookData.status !== SUCCESS_STATUS) {
+        return null;
+      }
+
+      return {
+        bids: orderbookData.data.bids.map((bid) => ({ price: Number(bid.price), quantity: Number(bid.quantity) })),
+        asks: orderbookData.data.asks.map((ask) => ({ price: Number(ask.price), quantity: Number(ask.quantity) })),
+      };
+    },
+  };
+}
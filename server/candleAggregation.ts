@@ -0,0 +1,110 @@
+import type { ChartCandle } from "./types.js";
+
+export type CalendarPeriod = "week" | "month";
+
+export type CandleGap = {
+  from: number;
+  to: number;
+  missingBars: number;
+};
+
+// Aggregated bars plus the bookkeeping needed to tell complete bars from partial ones.
+export type CandleSeries = {
+  candles: ChartCandle[];
+  gaps: CandleGap[];
+  lastBarInProgress: boolean;
+};
+
+const HOUR_SECONDS = 60 * 60;
+const DAY_SECONDS = 24 * HOUR_SECONDS;
+const KST_OFFSET_SECONDS = 9 * HOUR_SECONDS;
+export const FOUR_HOUR_SECONDS = 4 * HOUR_SECONDS;
+
+// Lists stretches where bars are missing between consecutive candles (`from` is the first missing bar open).
+export function detectCandleGaps(candles: ChartCandle[], intervalSeconds: number) {
+  const gaps: CandleGap[] = [];
+
+  for (let index = 1; index < candles.length; index += 1) {
+    const expectedTime = candles[index - 1].time + intervalSeconds;
+    if (candles[index].time > expectedTime) {
+      gaps.push({
+        from: expectedTime,
+        to: candles[index].time,
+        missingBars: Math.round((candles[index].time - expectedTime) / intervalSeconds),
+      });
+    }
+  }
+
+  return gaps;
+}
+
+// Start of the KST 4-hour slot (00/04/08/12/16/20 KST) containing `time`, as UTC seconds.
+// KST slots make six 4h bars tile exactly one KST-midnight daily candle.
+export function getKstFourHourStart(time: number) {
+  const kstTime = time + KST_OFFSET_SECONDS;
+  return kstTime - (((kstTime % FOUR_HOUR_SECONDS) + FOUR_HOUR_SECONDS) % FOUR_HOUR_SECONDS) - KST_OFFSET_SECONDS;
+}
+
+// Start of the KST calendar week (ISO, Monday) or month containing `time`, as UTC seconds.
+export function getKstPeriodStart(time: number, period: CalendarPeriod) {
+  const kstDate = new Date((time + KST_OFFSET_SECONDS) * 1000);
+  const kstMidnight = Date.UTC(kstDate.getUTCFullYear(), kstDate.getUTCMonth(), kstDate.getUTCDate()) / 1000;
+
+  const periodStart =
+    period === "week"
+      ? kstMidnight - ((kstDate.getUTCDay() + 6) % 7) * DAY_SECONDS
+      : Date.UTC(kstDate.getUTCFullYear(), kstDate.getUTCMonth(), 1) / 1000;
+
+  return periodStart - KST_OFFSET_SECONDS;
+}
+
+// Groups daily candles into KST calendar weeks or months by their own timestamps, so bar
+// boundaries stay fixed as history grows. The last bar is the in-progress week or month.
+export function aggregateCalendarCandles(dailyCandles: ChartCandle[], period: CalendarPeriod) {
+  const aggregatedCandles: ChartCandle[] = [];
+
+  for (const candle of dailyCandles) {
+    const periodStart = getKstPeriodStart(candle.time, period);
+    const current = aggregatedCandles[aggregatedCandles.length - 1];
+
+    if (!current || current.time !== periodStart) {
+      aggregatedCandles.push({ ...candle, time: periodStart });
+      continue;
+    }
+
+    current.high = Math.max(current.high, candle.high);
+    current.low = Math.min(current.low, candle.low);
+    current.close = candle.close;
+    current.volume += candle.volume;
+  }
+
+  return aggregatedCandles;
+}
+
+// Buckets 1h candles into fixed KST 4-hour slots by timestamp, so a missing hour only thins its
+// own bar instead of shifting every later one. `asOf` decides whether the last slot has closed.
+export function aggregateFourHourCandles(hourlyCandles: ChartCandle[], asOf = Date.now() / 1000): CandleSeries {
+  const candles: ChartCandle[] = [];
+
+  for (const candle of hourlyCandles) {
+    const slotStart = getKstFourHourStart(candle.time);
+    const current = candles[candles.length - 1];
+
+    if (!current || current.time !== slotStart) {
+      candles.push({ ...candle, time: slotStart });
+      continue;
+    }
+
+    current.high = Math.max(current.high, candle.high);
+    current.low = Math.min(current.low, candle.low);
+    current.close = candle.close;
+    current.volume += candle.volume;
+  }
+
+  const lastCandle = candles[candles.length - 1];
+  return {
+    candles,
+    gaps: detectCandleGaps(hourlyCandles, HOUR_SECONDS),
+    lastBarInProgress: lastCandle !== undefined && asOf < lastCandle.time + FOUR_HOUR_SECONDS,
+  };
+}
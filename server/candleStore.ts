@@ -0,0 +1,175 @@
+import fs from "fs";
+import path from "path";
+import { readLocalJsonFile } from "./localJsonFile.js";
+import type { ChartCandle } from "./types.js";
+
+export type CandleInterval = "24h" | "1h";
+
+export const CANDLE_INTERVAL_SECONDS: Record<CandleInterval, number> = {
+  "24h": 24 * 60 * 60,
+  "1h": 60 * 60,
+};
+
+// The tail endpoint returns at most this many bars per request.
+export const MAX_TAIL_FETCH_BARS = 200;
+
+// Hourly history grows by ~8.8k bars a year; a year covers the backtester's 4h replay plus MA warm-up.
+const MAX_STORED_BARS: Record<CandleInterval, number> = {
+  "24h": Number.POSITIVE_INFINITY,
+  "1h": 24 * 365,
+};
+
+type CandleStoreFetchers = {
+  fetchFullHistory: (symbol: string, interval: CandleInterval) => Promise<ChartCandle[] | null>;
+  fetchRecent: (symbol: string, interval: CandleInterval, count: number) => Promise<ChartCandle[]>;
+};
+
+const CANDLE_FIELDS = ["time", "open", "high", "low", "close", "volume"] as const;
+
+// A stored history is usable only when every bar has numeric fields and times strictly increase.
+function isValidCandleHistory(value: unknown): value is ChartCandle[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (candle, index) =>
+        typeof candle === "object" &&
+        candle !== null &&
+        CANDLE_FIELDS.every((field) => Number.isFinite((candle as Record<string, unknown>)[field])) &&
+        (index === 0 || (candle as ChartCandle).time > (value[index - 1] as ChartCandle).time),
+    )
+  );
+}
+
+// Merges a freshly fetched tail into stored history. Returns null when the tail does not line up
+// with the stored bar grid or leaves a gap, so the caller can fall back to a full download.
+function mergeCandleTail(stored: ChartCandle[], tail: ChartCandle[], intervalSeconds: number) {
+  if (tail.length === 0) {
+    return stored;
+  }
+
+  const lastStoredTime = stored[stored.length - 1].time;
+  const firstTailTime = tail[0].time;
+  const isAligned = tail.every((candle) => (candle.time - lastStoredTime) % intervalSeconds === 0);
+  if (!isAligned || firstTailTime > lastStoredTime + intervalSeconds) {
+    return null;
+  }
+
+  // Tail bars win: the last stored bar was usually still in progress when it was saved.
+  return [...stored.filter((candle) => candle.time < firstTailTime), ...tail];
+}
+
+// Candle history is kept per symbol and interval under .local/candles/ so scans only fetch
+// the bars that closed since the previous run, and history survives restarts.
+export function createCandleStore(
+  rootDir: string,
+  fetchers: CandleStoreFetchers,
+  onTailFallback?: (symbol: string, interval: CandleInterval, reason: string) => void,
+) {
+  const inflightLoads = new Map<string, Promise<ChartCandle[] | null>>();
+
+  const getFilePath = (symbol: string, interval: CandleInterval) => path.join(rootDir, interval, `${symbol}.json`);
+
+  // A corrupt or malformed file reads as missing, so refresh() falls back to a full download.
+  const read = (symbol: string, interval: CandleInterval): ChartCandle[] | null => {
+    const parsed = readLocalJsonFile<unknown>(getFilePath(symbol, interval), null, () => {
+      onTailFallback?.(symbol, interval, "stored_file_corrupt");
+    });
+    if (parsed === null) {
+      return null;
+    }
+    if (!isValidCandleHistory(parsed)) {
+      onTailFallback?.(symbol, interval, "stored_file_invalid");
+      return null;
+    }
+
+    return parsed;
+  };
+
+  const write = (symbol: string, interval: CandleInterval, candles: ChartCandle[]) => {
+    const filePath = getFilePath(symbol, interval);
+    const tempPath = `${filePath}.tmp`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(candles));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  const refresh = async (symbol: string, interval: CandleInterval) => {
+    const intervalSeconds = CANDLE_INTERVAL_SECONDS[interval];
+    const stored = read(symbol, interval);
+
+    if (stored) {
+      const lastStoredTime = stored[stored.length - 1].time;
+      const missingBars = Math.floor((Date.now() / 1000 - lastStoredTime) / intervalSeconds) + 1;
+
+      if (missingBars <= MAX_TAIL_FETCH_BARS) {
+        try {
+          const merged = mergeCandleTail(stored, await fetchers.fetchRecent(symbol, interval, missingBars), intervalSeconds);
+          if (merged) {
+            const trimmed = merged.slice(-MAX_STORED_BARS[interval]);
+            write(symbol, interval, trimmed);
+            return trimmed;
+          }
+
+          onTailFallback?.(symbol, interval, "tail_misaligned");
+        } catch (error) {
+          onTailFallback?.(symbol, interval, error instanceof Error ? error.message : String(error));
+        }
+      } else {
+        onTailFallback?.(symbol, interval, "history_too_old");
+      }
+    }
+
+    const fullHistory = await fetchers.fetchFullHistory(symbol, interval);
+    if (!fullHistory || fullHistory.length === 0) {
+      return null;
+    }
+
+    const trimmed = fullHistory.slice(-MAX_STORED_BARS[interval]);
+    write(symbol, interval, trimmed);
+    return trimmed;
+  };
+
+  const load = (symbol: string, interval: CandleInterval) => {
+    const key = `${interval}:${symbol}`;
+    const inflightLoad = inflightLoads.get(key);
+    if (inflightLoad) {
+      return inflightLoad;
+    }
+
+    const loadPromise = refresh(symbol, interval).finally(() => {
+      inflightLoads.delete(key);
+    });
+    inflightLoads.set(key, loadPromise);
+    return loadPromise;
+  };
+
+  return { load, read };
+}
+
+export type CandleStore = ReturnType<typeof createCandleStore>;
+
+// Before per-exchange stores, history sat directly in .local/candles/<interval>/ and came from the
+// default exchange. Those folders move under that exchange, or are removed when it already has its
+// own. Returns the intervals that were migrated or removed.
+export function migrateLegacyCandleLayout(candleDir: string, defaultExchangeDir: string) {
+  const handled: { interval: CandleInterval; action: "moved" | "removed" }[] = [];
+  for (const interval of Object.keys(CANDLE_INTERVAL_SECONDS) as CandleInterval[]) {
+    const legacyDir = path.join(candleDir, interval);
+    if (!fs.existsSync(legacyDir)) {
+      continue;
+    }
+
+    const targetDir = path.join(defaultExchangeDir, interval);
+    if (fs.existsSync(targetDir)) {
+      fs.rmSync(legacyDir, { recursive: true, force: true });
+      handled.push({ interval, action: "removed" });
+    } else {
+      fs.mkdirSync(defaultExchangeDir, { recursive: true });
+      fs.renameSync(legacyDir, targetDir);
+      handled.push({ interval, action: "moved" });
+    }
+  }
+
+  return handled;
+}
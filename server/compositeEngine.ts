@@ -0,0 +1,74 @@
+import { collectCompositeConditionIds, evaluateCompositeExpression, type CompositeExpression } from "../src/config/compositeExpressions.js";
+import type { CompositeConditionMeta, ConditionId } from "../src/config/screenerBootstrap.js";
+import type { ConditionCheck } from "./conditionEngine.js";
+import type { ScreenerRow } from "./types.js";
+
+// Combines finished result sets. A market can only match a composite if at least one referenced
+// condition matched it, since that is where its row comes from. The row keeps the ranking score
+// of the first referenced condition that matched it.
+export function buildCompositeResults(
+  conditions: CompositeConditionMeta[],
+  resultsByCondition: Record<ConditionId, ScreenerRow[]>,
+) {
+  const marketsByCondition = new Map(
+    Object.entries(resultsByCondition).map(([id, rows]) => [Number(id), new Set(rows.map((row) => row.market))]),
+  );
+  const isMatchedBy = (market: string) => (id: number) => marketsByCondition.get(id)?.has(market) ?? false;
+
+  return Object.fromEntries(
+    conditions.map((condition) => {
+      const candidates = new Map<string, ScreenerRow>();
+      for (const id of collectCompositeConditionIds(condition.expression)) {
+        for (const row of resultsByCondition[id] ?? []) {
+          if (!candidates.has(row.market)) {
+            candidates.set(row.market, row);
+          }
+        }
+      }
+
+      const rows = [...candidates.values()].filter((row) =>
+        evaluateCompositeExpression(condition.expression, isMatchedBy(row.market)),
+      );
+      return [condition.id, rows];
+    }),
+  ) as Record<ConditionId, ScreenerRow[]>;
+}
+
+// Mirrors the expression as a check tree; each referenced condition is explained by the caller.
+export async function explainCompositeExpression(
+  expression: CompositeExpression,
+  explainCondition: (id: ConditionId) => Promise<ConditionCheck>,
+): Promise<ConditionCheck> {
+  switch (expression.kind) {
+    case "condition":
+      return explainCondition(expression.id);
+    case "not": {
+      const child = await explainCompositeExpression(expression.expression, explainCondition);
+      return {
+        kind: "not",
+        label: "다음을 만족하지 않음",
+        passed: !child.passed,
+        actual: child.passed ? "만족" : "불만족",
+        threshold: "불만족",
+        children: [child],
+      };
+    }
+    case "allOf":
+    case "anyOf": {
+      const children: ConditionCheck[] = [];
+      for (const child of expression.expressions) {
+        children.push(await explainCompositeExpression(child, explainCondition));
+      }
+
+      return {
+        kind: expression.kind,
+        label: expression.kind === "allOf" ? "모두 만족" : "하나 이상 만족",
+        passed:
+          expression.kind === "allOf" ? children.every((child) => child.passed) : children.some((child) => child.passed),
+        actual: `${children.filter((child) => child.passed).length}/${children.length} 통과`,
+        threshold: null,
+        children,
+      };
+    }
+  }
+}
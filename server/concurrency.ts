@@ -0,0 +1,28 @@
+export async function runConcurrentQueue<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  onItemDone?: (completed: number, total: number) => void,
+) {
+  const queue = [...items];
+  const workerCount = Math.min(concurrency, queue.length || 1);
+  let completed = 0;
+
+  await Promise.all(
+    Array.from({ length: workerCount }, async () => {
+      while (queue.length > 0) {
+        const item = queue.shift();
+        if (item === undefined) {
+          return;
+        }
+
+        try {
+          await worker(item);
+        } finally {
+          completed += 1;
+          onItemDone?.(completed, items.length);
+        }
+      }
+    }),
+  );
+}
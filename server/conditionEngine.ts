@@ -0,0 +1,559 @@
+import type { CompositeExpression } from "../src/config/compositeExpressions.js";
+import {
+  describeConditionRule,
+  formatKrwAmount,
+  formatSignedPercent,
+  isOrderbookRuleKind,
+  resolvePriceTimeframe,
+  type ConditionRule,
+  type OrderbookRuleKind,
+  type RuleTimeframe,
+} from "../src/config/conditionRules.js";
+import type { Orderbook } from "./exchangeAdapter.js";
+import {
+  calculateAverageNotionalVolume,
+  calculateMA,
+  calculateMaxVolumeInflowRatio,
+  isBullishAlignment,
+  isWithinPercentRange,
+  passesRecentVolumeInflowInclusion,
+} from "./indicators.js";
+import {
+  calculateImbalanceRatio,
+  calculateSpreadBps,
+  estimateSlippage,
+  getOrderbookSide,
+  sumOrderbookNotional,
+} from "./orderbookAnalysis.js";
+import {
+  createAdxCalculator,
+  createAtrCalculator,
+  createBollingerCalculator,
+  createEmaCalculator,
+  createMacdCalculator,
+  getLatestIndicatorValue,
+  mapIndicatorSeries,
+} from "./technicalIndicators.js";
+import type { ChartCandle, ScreenerRow } from "./types.js";
+
+export type EvaluationFrame = {
+  // Closes the MAs are computed on. For 4h this excludes the in-progress bar.
+  prices: number[];
+  candles: ChartCandle[];
+  currentPrice: number | null;
+  currentCandle: ChartCandle | null;
+};
+
+export type ConditionEvaluationContext = {
+  symbol: string;
+  row: ScreenerRow;
+  frames: Partial<Record<RuleTimeframe, EvaluationFrame>>;
+  // Shared by every orderbook rule of one symbol. Null when no live orderbook exists (backtest
+  // replays); orderbook rules then pass as assumed.
+  getOrderbook: (() => Promise<Orderbook | null>) | null;
+};
+
+// One evaluated node of a rule tree (or a scan pre-filter) with the value it saw and the bar it had to clear.
+export type ConditionCheck = {
+  kind: ConditionRule["kind"] | CompositeExpression["kind"] | "preFilter";
+  label: string;
+  passed: boolean;
+  actual: string | null;
+  threshold: string | null;
+  children?: ConditionCheck[];
+};
+
+type LeafRule = Exclude<ConditionRule, { kind: "allOf" | "anyOf" }>;
+type OrderbookRule = Extract<ConditionRule, { kind: OrderbookRuleKind }>;
+// shortfallPct is how far a failed leaf is from passing, in percent (0 when it passed). It is null
+// when the gap cannot be measured or closed, e.g. missing history or an excluded symbol.
+type LeafCheckResult = Pick<ConditionCheck, "passed" | "actual" | "threshold"> & { shortfallPct: number | null };
+
+function formatPercentValue(value: number) {
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+function formatKrwValue(value: number) {
+  if (value >= 100_000_000) {
+    return `${(value / 100_000_000).toFixed(2)}억`;
+  }
+
+  return `${Math.round(value / 10_000).toLocaleString("ko-KR")}만`;
+}
+
+function formatPrice(value: number | null) {
+  return value === null ? "-" : value.toLocaleString("ko-KR", { maximumFractionDigits: 4 });
+}
+
+function getDistancePct(price: number, movingAverage: number) {
+  return (price / movingAverage - 1) * 100;
+}
+
+function getRangeShortfallPct(distancePct: number, lowerPct: number, upperPct: number) {
+  return distancePct < lowerPct ? lowerPct - distancePct : distancePct > upperPct ? distancePct - upperPct : 0;
+}
+
+function getMinimumShortfallPct(actual: number, minimum: number) {
+  return actual >= minimum ? 0 : (1 - actual / minimum) * 100;
+}
+
+// Largest step by which a shorter MA sits below the next longer one; null while MAs are unresolved.
+function getAlignmentShortfallPct(movingAverages: (number | null)[], minResolvedPeriods: number) {
+  const resolved: number[] = [];
+  for (const movingAverage of movingAverages) {
+    if (movingAverage === null) {
+      break;
+    }
+    resolved.push(movingAverage);
+  }
+
+  if (resolved.length < minResolvedPeriods) {
+    return null;
+  }
+
+  return resolved.reduce(
+    (shortfall, movingAverage, index) =>
+      index === 0 ? shortfall : Math.max(shortfall, getMinimumShortfallPct(resolved[index - 1], movingAverage)),
+    0,
+  );
+}
+
+function getFrameMovingAverage(context: ConditionEvaluationContext, timeframe: RuleTimeframe, period: number) {
+  const frame = context.frames[timeframe];
+  return frame ? calculateMA(frame.prices, period) : null;
+}
+
+function getFramePrice(context: ConditionEvaluationContext, timeframe: RuleTimeframe) {
+  return context.frames[timeframe]?.currentPrice ?? null;
+}
+
+// How far an actual value is above a cap, in percent of the cap (0 when within it).
+function getMaximumShortfallPct(actual: number, maximum: number) {
+  return actual <= maximum ? 0 : maximum > 0 ? (actual / maximum - 1) * 100 : null;
+}
+
+// True when the MACD histogram turned from <= 0 to > 0 on one of the last `lookbackBars` bars.
+function hasRecentMacdCross(histogram: (number | null)[], lookbackBars: number) {
+  for (let index = Math.max(histogram.length - lookbackBars, 1); index < histogram.length; index += 1) {
+    const previous = histogram[index - 1];
+    const current = histogram[index];
+    if (previous !== null && current !== null && previous <= 0 && current > 0) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// A missing orderbook fails every orderbook rule with an unmeasurable shortfall.
+function checkOrderbookRule(rule: OrderbookRule, orderbook: Orderbook | null): LeafCheckResult {
+  switch (rule.kind) {
+    case "topBidOrderbook": {
+      const topBidNotional = orderbook ? sumOrderbookNotional(orderbook.bids, rule.depth) : null;
+      const passed = topBidNotional !== null && topBidNotional < rule.maxNotionalKrw;
+      return {
+        passed,
+        actual: topBidNotional === null ? null : formatKrwValue(topBidNotional),
+        threshold: `${formatKrwAmount(rule.maxNotionalKrw)} 미만`,
+        shortfallPct: passed ? 0 : topBidNotional === null ? null : (topBidNotional / rule.maxNotionalKrw - 1) * 100,
+      };
+    }
+    case "orderbookDepth": {
+      const notional = orderbook ? sumOrderbookNotional(getOrderbookSide(orderbook, rule.side), rule.depth) : null;
+      return {
+        passed: notional !== null && notional >= rule.minNotionalKrw,
+        actual: notional === null ? null : formatKrwValue(notional),
+        threshold: `${formatKrwAmount(rule.minNotionalKrw)} 이상`,
+        shortfallPct: notional === null ? null : getMinimumShortfallPct(notional, rule.minNotionalKrw),
+      };
+    }
+    case "orderbookSpread": {
+      const spreadBps = orderbook ? calculateSpreadBps(orderbook) : null;
+      return {
+        passed: spreadBps !== null && spreadBps <= rule.maxSpreadBps,
+        actual: spreadBps === null ? null : `${spreadBps.toFixed(1)}bp`,
+        threshold: `${rule.maxSpreadBps}bp 이하`,
+        shortfallPct: spreadBps === null ? null : getMaximumShortfallPct(spreadBps, rule.maxSpreadBps),
+      };
+    }
+    case "orderbookImbalance": {
+      const ratio = orderbook ? calculateImbalanceRatio(orderbook, rule.depth) : null;
+      return {
+        passed: ratio !== null && ratio >= rule.minRatio,
+        actual: ratio === null ? null : `${ratio.toFixed(2)}배`,
+        threshold: `${rule.minRatio}배 이상`,
+        shortfallPct: ratio === null ? null : getMinimumShortfallPct(ratio, rule.minRatio),
+      };
+    }
+    case "orderbookSlippage": {
+      const estimate = orderbook ? estimateSlippage(orderbook, rule.side, rule.orderKrw) : null;
+      const slippagePct = estimate?.slippagePct ?? null;
+      return {
+        passed: slippagePct !== null && slippagePct <= rule.maxSlippagePct,
+        actual: !estimate
+          ? null
+          : slippagePct === null
+            ? `호가 부족 (${formatKrwValue(estimate.fillableKrw)}까지 체결)`
+            : `${slippagePct.toFixed(2)}%`,
+        threshold: `${rule.maxSlippagePct}% 이하`,
+        shortfallPct: slippagePct === null ? null : getMaximumShortfallPct(slippagePct, rule.maxSlippagePct),
+      };
+    }
+  }
+}
+
+async function checkLeafRule(rule: LeafRule, context: ConditionEvaluationContext): Promise<LeafCheckResult> {
+  switch (rule.kind) {
+    case "maAlignment": {
+      const frame = context.frames[rule.timeframe];
+      const movingAverages = rule.periods.map((period) => (frame ? calculateMA(frame.prices, period) : null));
+      const passed = frame ? isBullishAlignment(frame.prices, rule.periods, rule.minResolvedPeriods) : false;
+      return {
+        passed,
+        actual: rule.periods.map((period, index) => `${period}선 ${formatPrice(movingAverages[index])}`).join(" > "),
+        threshold: `내림차순 (최소 ${rule.minResolvedPeriods}개 계산)`,
+        shortfallPct: passed ? 0 : getAlignmentShortfallPct(movingAverages, rule.minResolvedPeriods),
+      };
+    }
+    case "maEnvelope": {
+      const currentPrice = getFramePrice(context, resolvePriceTimeframe(rule.timeframe, rule.priceTimeframe));
+      const movingAverage = getFrameMovingAverage(context, rule.timeframe, rule.period);
+      const distancePct = currentPrice !== null && movingAverage !== null ? getDistancePct(currentPrice, movingAverage) : null;
+      return {
+        passed: currentPrice !== null && isWithinPercentRange(currentPrice, movingAverage, rule.upperPct, rule.lowerPct),
+        actual: distancePct === null ? null : formatPercentValue(distancePct),
+        threshold: `${formatSignedPercent(rule.lowerPct)} ~ ${formatSignedPercent(rule.upperPct)}`,
+        shortfallPct: distancePct === null ? null : getRangeShortfallPct(distancePct, rule.lowerPct, rule.upperPct),
+      };
+    }
+    case "aboveMa": {
+      const currentPrice = getFramePrice(context, resolvePriceTimeframe(rule.timeframe, rule.priceTimeframe));
+      const movingAverage = getFrameMovingAverage(context, rule.timeframe, rule.period);
+      const distancePct = currentPrice !== null && movingAverage !== null ? getDistancePct(currentPrice, movingAverage) : null;
+      return {
+        passed: currentPrice !== null && movingAverage !== null && currentPrice >= movingAverage * (1 + rule.minPct / 100),
+        actual: distancePct === null ? null : formatPercentValue(distancePct),
+        threshold: `${formatSignedPercent(rule.minPct)} 이상`,
+        shortfallPct: distancePct === null ? null : Math.max(rule.minPct - distancePct, 0),
+      };
+    }
+    case "maTouch": {
+      const candle = context.frames[rule.candleTimeframe]?.currentCandle ?? null;
+      const movingAverage = getFrameMovingAverage(context, rule.timeframe, rule.period);
+      if (!candle || movingAverage === null) {
+        return { passed: false, actual: null, threshold: null, shortfallPct: null };
+      }
+
+      if (rule.tolerance <= 0) {
+        return {
+          passed: candle.low <= movingAverage && candle.high >= movingAverage,
+          actual: `저가 ${formatPrice(candle.low)} / 고가 ${formatPrice(candle.high)}`,
+          threshold: `MA ${formatPrice(movingAverage)} 포함`,
+          shortfallPct:
+            movingAverage > candle.high
+              ? getDistancePct(movingAverage, candle.high)
+              : movingAverage < candle.low
+                ? -getDistancePct(movingAverage, candle.low)
+                : 0,
+        };
+      }
+
+      const distancePct = getDistancePct(candle.close, movingAverage);
+      return {
+        passed: candle.close >= movingAverage && candle.close <= movingAverage * (1 + rule.tolerance),
+        actual: formatPercentValue(distancePct),
+        threshold: `0% ~ ${formatSignedPercent(rule.tolerance * 100)}`,
+        shortfallPct: getRangeShortfallPct(distancePct, 0, rule.tolerance * 100),
+      };
+    }
+    case "topBidOrderbook":
+    case "orderbookDepth":
+    case "orderbookSpread":
+    case "orderbookImbalance":
+    case "orderbookSlippage": {
+      if (!context.getOrderbook) {
+        return { passed: true, actual: "가정 통과", threshold: null, shortfallPct: 0 };
+      }
+
+      return checkOrderbookRule(rule, await context.getOrderbook());
+    }
+    case "volumeInflow": {
+      const frame = context.frames[rule.timeframe];
+      const maxRatio = frame ? calculateMaxVolumeInflowRatio(frame.candles, rule.lookbackBars, rule.baselineBars) : null;
+      const passed = frame
+        ? passesRecentVolumeInflowInclusion(frame.candles, rule.lookbackBars, rule.baselineBars, rule.minVolumeRatio)
+        : false;
+      return {
+        passed,
+        actual: maxRatio === null ? null : `최대 ${maxRatio.toFixed(2)}배`,
+        threshold: `${rule.minVolumeRatio}배 이상`,
+        shortfallPct: passed ? 0 : maxRatio === null ? null : getMinimumShortfallPct(maxRatio, rule.minVolumeRatio),
+      };
+    }
+    case "averageNotional": {
+      const frame = context.frames[rule.timeframe];
+      const averageNotionalVolume = frame ? calculateAverageNotionalVolume(frame.candles, rule.lookbackBars) : null;
+      return {
+        passed: averageNotionalVolume !== null && averageNotionalVolume >= rule.minNotionalKrw,
+        actual: averageNotionalVolume === null ? null : formatKrwValue(averageNotionalVolume),
+        threshold: `${formatKrwAmount(rule.minNotionalKrw)} 이상`,
+        shortfallPct: averageNotionalVolume === null ? null : getMinimumShortfallPct(averageNotionalVolume, rule.minNotionalKrw),
+      };
+    }
+    case "tickerMinimum":
+      return rule.field === "changePct"
+        ? {
+            passed: context.row.change >= rule.min / 100,
+            actual: formatPercentValue(context.row.change * 100),
+            threshold: `${formatSignedPercent(rule.min)} 이상`,
+            shortfallPct: Math.max(rule.min - context.row.change * 100, 0),
+          }
+        : {
+            passed: context.row.volume >= rule.min,
+            actual: formatKrwValue(context.row.volume),
+            threshold: `${formatKrwAmount(rule.min)} 이상`,
+            shortfallPct: getMinimumShortfallPct(context.row.volume, rule.min),
+          };
+    case "excludeSymbols": {
+      const passed = !rule.symbols.includes(context.symbol);
+      return {
+        passed,
+        actual: context.symbol,
+        threshold: `${rule.symbols.join("·")} 아님`,
+        shortfallPct: passed ? 0 : null,
+      };
+    }
+    case "emaAlignment": {
+      const prices = context.frames[rule.timeframe]?.prices ?? [];
+      const emas = rule.periods.map((period) => getLatestIndicatorValue(prices, createEmaCalculator(period)));
+      const passed = emas.every((ema, index) => ema !== null && (index === 0 || emas[index - 1]! > ema));
+      return {
+        passed,
+        actual: rule.periods.map((period, index) => `EMA ${period} ${formatPrice(emas[index])}`).join(" > "),
+        threshold: "내림차순",
+        shortfallPct: passed ? 0 : getAlignmentShortfallPct(emas, rule.periods.length),
+      };
+    }
+    case "bollingerSqueeze": {
+      const prices = context.frames[rule.timeframe]?.prices ?? [];
+      const bands = getLatestIndicatorValue(prices, createBollingerCalculator(rule.period, rule.stdDev));
+      return {
+        passed: bands !== null && bands.bandwidthPct <= rule.maxBandwidthPct,
+        actual: bands === null ? null : `폭 ${bands.bandwidthPct.toFixed(2)}%`,
+        threshold: `${rule.maxBandwidthPct}% 이하`,
+        shortfallPct: bands === null ? null : getMaximumShortfallPct(bands.bandwidthPct, rule.maxBandwidthPct),
+      };
+    }
+    case "atrDistance": {
+      const frame = context.frames[rule.timeframe];
+      const movingAverage = frame ? calculateMA(frame.prices, rule.maPeriod) : null;
+      const atr = frame ? getLatestIndicatorValue(frame.candles, createAtrCalculator(rule.atrPeriod)) : null;
+      const currentPrice = frame?.currentPrice ?? null;
+      if (movingAverage === null || atr === null || currentPrice === null || atr <= 0) {
+        return { passed: false, actual: null, threshold: `${rule.maxAtrMultiple}배 이내`, shortfallPct: null };
+      }
+
+      const atrMultiple = Math.abs(currentPrice - movingAverage) / atr;
+      return {
+        passed: atrMultiple <= rule.maxAtrMultiple,
+        actual: `ATR ${atrMultiple.toFixed(2)}배`,
+        threshold: `${rule.maxAtrMultiple}배 이내`,
+        shortfallPct: getMaximumShortfallPct(atrMultiple, rule.maxAtrMultiple),
+      };
+    }
+    case "macdCross": {
+      const prices = context.frames[rule.timeframe]?.prices ?? [];
+      const series = mapIndicatorSeries(prices, createMacdCalculator(rule.fastPeriod, rule.slowPeriod, rule.signalPeriod));
+      const latest = series[series.length - 1] ?? null;
+      const passed = hasRecentMacdCross(
+        series.map((value) => value?.histogram ?? null),
+        rule.lookbackBars,
+      );
+      return {
+        passed,
+        actual:
+          !latest || latest.signal === null ? null : `MACD ${latest.macd.toFixed(4)} / 시그널 ${latest.signal.toFixed(4)}`,
+        threshold: `최근 ${rule.lookbackBars}봉 안에 골든크로스`,
+        // A cross is an event, so there is no distance to report.
+        shortfallPct: passed ? 0 : null,
+      };
+    }
+    case "adxTrend": {
+      const candles = context.frames[rule.timeframe]?.candles ?? [];
+      const value = getLatestIndicatorValue(candles, createAdxCalculator(rule.period));
+      if (!value || value.adx === null) {
+        return { passed: false, actual: null, threshold: `${rule.minAdx} 이상`, shortfallPct: null };
+      }
+
+      const isUptrend = value.plusDi > value.minusDi;
+      return {
+        passed: isUptrend && value.adx >= rule.minAdx,
+        actual: `ADX ${value.adx.toFixed(1)} (+DI ${value.plusDi.toFixed(1)} / -DI ${value.minusDi.toFixed(1)})`,
+        threshold: `${rule.minAdx} 이상, +DI > -DI`,
+        shortfallPct: isUptrend ? getMinimumShortfallPct(value.adx, rule.minAdx) : null,
+      };
+    }
+  }
+}
+
+// Rules are evaluated in declaration order and short-circuit, so network-backed guards such as
+// the orderbook check should be listed last to avoid fetching for symbols that already failed.
+export async function evaluateConditionRule(rule: ConditionRule, context: ConditionEvaluationContext): Promise<boolean> {
+  switch (rule.kind) {
+    case "allOf": {
+      for (const childRule of rule.rules) {
+        if (!(await evaluateConditionRule(childRule, context))) {
+          return false;
+        }
+      }
+      return true;
+    }
+    case "anyOf": {
+      for (const childRule of rule.rules) {
+        if (await evaluateConditionRule(childRule, context)) {
+          return true;
+        }
+      }
+      return false;
+    }
+    default:
+      return (await checkLeafRule(rule, context)).passed;
+  }
+}
+
+// Same verdict as evaluateConditionRule, but every child is visited so failures past the first
+// one are visible too. Meant for single-symbol inspection, not scans.
+export async function explainConditionRule(rule: ConditionRule, context: ConditionEvaluationContext): Promise<ConditionCheck> {
+  if (rule.kind === "allOf" || rule.kind === "anyOf") {
+    const children: ConditionCheck[] = [];
+    for (const childRule of rule.rules) {
+      children.push(await explainConditionRule(childRule, context));
+    }
+
+    return {
+      kind: rule.kind,
+      label: rule.kind === "allOf" ? "모두 만족" : "하나 이상 만족",
+      passed: rule.kind === "allOf" ? children.every((child) => child.passed) : children.some((child) => child.passed),
+      actual: `${children.filter((child) => child.passed).length}/${children.length} 통과`,
+      threshold: null,
+      children,
+    };
+  }
+
+  const { passed, actual, threshold } = await checkLeafRule(rule, context);
+  return { kind: rule.kind, label: describeConditionRule(rule), passed, actual, threshold };
+}
+
+export type NearMiss = {
+  failedCheck: ConditionCheck;
+  shortfallPct: number;
+};
+
+type RuleMissCount = {
+  // Leaf failures that must be fixed for the rule to pass; Infinity when a failure is unmeasurable.
+  failedLeaves: number;
+  miss: NearMiss | null;
+};
+
+async function countRuleMisses(
+  rule: ConditionRule,
+  context: ConditionEvaluationContext,
+  skipNetworkRules: boolean,
+): Promise<RuleMissCount> {
+  switch (rule.kind) {
+    case "allOf": {
+      let failedLeaves = 0;
+      let miss: NearMiss | null = null;
+      for (const childRule of rule.rules) {
+        const childCount = await countRuleMisses(childRule, context, skipNetworkRules);
+        failedLeaves += childCount.failedLeaves;
+        miss = childCount.miss ?? miss;
+        if (failedLeaves > 1) {
+          return { failedLeaves, miss: null };
+        }
+      }
+      return { failedLeaves, miss: failedLeaves === 1 ? miss : null };
+    }
+    case "anyOf": {
+      let best: RuleMissCount = { failedLeaves: Number.POSITIVE_INFINITY, miss: null };
+      for (const childRule of rule.rules) {
+        const childCount = await countRuleMisses(childRule, context, skipNetworkRules);
+        // Shortfalls are only comparable between leaves of the same kind; otherwise the earlier child wins the tie.
+        const isCloser =
+          childCount.failedLeaves < best.failedLeaves ||
+          (childCount.failedLeaves === best.failedLeaves &&
+            childCount.miss !== null &&
+            best.miss !== null &&
+            childCount.miss.failedCheck.kind === best.miss.failedCheck.kind &&
+            childCount.miss.shortfallPct < best.miss.shortfallPct);
+        if (isCloser) {
+          best = childCount;
+        }
+      }
+      return best;
+    }
+    default: {
+      if (skipNetworkRules && isOrderbookRuleKind(rule.kind)) {
+        return { failedLeaves: 0, miss: null };
+      }
+
+      const { passed, actual, threshold, shortfallPct } = await checkLeafRule(rule, context);
+      if (passed) {
+        return { failedLeaves: 0, miss: null };
+      }
+
+      if (shortfallPct === null) {
+        return { failedLeaves: Number.POSITIVE_INFINITY, miss: null };
+      }
+
+      return {
+        failedLeaves: 1,
+        miss: {
+          failedCheck: { kind: rule.kind, label: describeConditionRule(rule), passed, actual, threshold },
+          shortfallPct,
+        },
+      };
+    }
+  }
+}
+
+// A near miss is a symbol whose rule would pass if exactly one leaf check passed. Network-backed
+// rules are assumed to pass on a first cheap pass, so the orderbook is only fetched for symbols
+// that are already within one failure.
+export async function findNearMiss(rule: ConditionRule, context: ConditionEvaluationContext): Promise<NearMiss | null> {
+  const cheapCount = await countRuleMisses(rule, context, true);
+  if (cheapCount.failedLeaves > 1) {
+    return null;
+  }
+
+  const fullCount = await countRuleMisses(rule, context, false);
+  return fullCount.failedLeaves === 1 ? fullCount.miss : null;
+}
+
+// Every near miss has exactly one failed leaf, but shortfallPct is in that leaf's own unit (percent
+// of price for MA distances, relative gap for ratios and ATR multiples). Rows are therefore ordered
+// by their rank among near misses that failed the same kind of leaf, scaled to 0-1 so the closest
+// row of every kind comes before the second-closest of any kind. Ties fall back to shortfallPct,
+// then market, so the order does not depend on scan order.
+export function rankNearMisses<T extends NearMiss & { market: string }>(nearMisses: T[]): T[] {
+  const compareShortfall = (left: T, right: T) =>
+    left.shortfallPct - right.shortfallPct || left.market.localeCompare(right.market);
+
+  const nearMissesByKind = new Map<string, T[]>();
+  for (const nearMiss of nearMisses) {
+    const group = nearMissesByKind.get(nearMiss.failedCheck.kind);
+    if (group) {
+      group.push(nearMiss);
+    } else {
+      nearMissesByKind.set(nearMiss.failedCheck.kind, [nearMiss]);
+    }
+  }
+
+  const kindRanks = new Map<T, number>();
+  nearMissesByKind.forEach((group) => {
+    group.sort(compareShortfall).forEach((nearMiss, index) => kindRanks.set(nearMiss, index / group.length));
+  });
+
+  return [...nearMisses].sort(
+    (left, right) => kindRanks.get(left)! - kindRanks.get(right)! || compareShortfall(left, right),
+  );
+}
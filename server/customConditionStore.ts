@@ -0,0 +1,111 @@
+import fs from "fs";
+import path from "path";
+import {
+  createCustomConditionMeta,
+  CUSTOM_CONDITION_ID_START,
+  parseCustomConditionInput,
+  type ConditionId,
+  type ConditionMeta,
+  type CustomConditionInput,
+} from "../src/config/screenerBootstrap.js";
+import { readLocalJsonFile } from "./localJsonFile.js";
+
+type StoredCustomCondition = CustomConditionInput & {
+  id: ConditionId;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// File layout: `nextId` only ever grows, so a deleted condition's id is never handed out again and
+// its signals, scan history and alert rules cannot attach to a new condition. Files written before
+// the counter existed are a bare array of conditions.
+type CustomConditionFile = {
+  nextId: number;
+  conditions: unknown[];
+};
+
+// Custom conditions live in a single JSON file under .local/ so they survive restarts
+// without touching the tracked bootstrap config.
+export function createCustomConditionStore(
+  filePath: string,
+  onInvalidEntry?: (id: unknown, errors: string[]) => void,
+  onLoadError?: (error: unknown, backupPath: string) => void,
+) {
+  let entries: StoredCustomCondition[] = [];
+
+  const parsed = readLocalJsonFile<unknown>(filePath, [], onLoadError);
+  const file: Partial<CustomConditionFile> = Array.isArray(parsed)
+    ? { conditions: parsed }
+    : typeof parsed === "object" && parsed !== null
+      ? (parsed as Partial<CustomConditionFile>)
+      : {};
+  for (const item of Array.isArray(file.conditions) ? file.conditions : []) {
+    const { input, errors } = parseCustomConditionInput(item);
+    const id = (item as { id?: unknown }).id;
+    if (!input || typeof id !== "number" || id < CUSTOM_CONDITION_ID_START) {
+      onInvalidEntry?.(id, errors);
+      continue;
+    }
+
+    entries.push({
+      ...input,
+      id,
+      createdAt: Number((item as StoredCustomCondition).createdAt) || Date.now(),
+      updatedAt: Number((item as StoredCustomCondition).updatedAt) || Date.now(),
+    });
+  }
+
+  const storedNextId = Number.isInteger(file.nextId) ? (file.nextId as number) : CUSTOM_CONDITION_ID_START;
+  let nextId = entries.reduce(
+    (maxId, entry) => Math.max(maxId, entry.id + 1),
+    Math.max(storedNextId, CUSTOM_CONDITION_ID_START),
+  );
+
+  const persist = () => {
+    const content: CustomConditionFile = { nextId, conditions: entries };
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `${JSON.stringify(content, null, 2)}\n`);
+  };
+
+  const list = (): ConditionMeta[] => entries.map((entry) => createCustomConditionMeta(entry.id, entry));
+
+  const get = (id: ConditionId) => {
+    const entry = entries.find((item) => item.id === id);
+    return entry ? createCustomConditionMeta(entry.id, entry) : null;
+  };
+
+  const create = (input: CustomConditionInput) => {
+    const id = nextId;
+    const now = Date.now();
+    nextId += 1;
+    entries = [...entries, { ...input, id, createdAt: now, updatedAt: now }];
+    persist();
+    return createCustomConditionMeta(id, input);
+  };
+
+  const update = (id: ConditionId, input: CustomConditionInput) => {
+    const existing = entries.find((entry) => entry.id === id);
+    if (!existing) {
+      return null;
+    }
+
+    entries = entries.map((entry) => (entry.id === id ? { ...entry, ...input, updatedAt: Date.now() } : entry));
+    persist();
+    return createCustomConditionMeta(id, input);
+  };
+
+  const remove = (id: ConditionId) => {
+    const nextEntries = entries.filter((entry) => entry.id !== id);
+    if (nextEntries.length === entries.length) {
+      return false;
+    }
+
+    entries = nextEntries;
+    persist();
+    return true;
+  };
+
+  return { list, get, create, update, remove };
+}
+
+export type CustomConditionStore = ReturnType<typeof createCustomConditionStore>;
@@ -0,0 +1,119 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+export type DataSourceMode = "live" | "record" | "replay";
+
+export type RawResponse = {
+  status: number;
+  body: string;
+};
+
+// One recorded outcome of a request: either an HTTP response or a transport error (timeout, DNS, reset).
+type FixtureEntry = RawResponse | { error: string };
+
+type FixtureFile = {
+  url: string;
+  responses: FixtureEntry[];
+};
+
+export type DataSource = {
+  mode: DataSourceMode;
+  fixtureDir: string | null;
+  fetchRaw: (url: string, timeoutMs: number) => Promise<RawResponse>;
+};
+
+// Fixture files are named after the URL so they can be found and hand-edited, e.g. to turn a
+// response into `{ "status": 500, "body": "" }` or `{ "error": "timeout" }`.
+function getFixturePath(fixtureDir: string, url: string) {
+  const readableName = url.replace(/^https?:\/\//, "").replace(/[^a-zA-Z0-9]+/g, "_").slice(0, 80);
+  const hash = crypto.createHash("sha1").update(url).digest("hex").slice(0, 10);
+  return path.join(fixtureDir, `${readableName}-${hash}.json`);
+}
+
+async function fetchLive(url: string, timeoutMs: number): Promise<RawResponse> {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  return { status: response.status, body: await response.text() };
+}
+
+// DATA_SOURCE is `live` (default), `record:<dir>` or `replay:<dir>`; dirs resolve against the project root.
+export function parseDataSource(value: string | undefined, projectRoot: string) {
+  const trimmed = value?.trim() ?? "";
+  if (!trimmed || trimmed === "live") {
+    return { mode: "live" as DataSourceMode, fixtureDir: null };
+  }
+
+  const separatorIndex = trimmed.indexOf(":");
+  const mode = trimmed.slice(0, separatorIndex);
+  const dir = trimmed.slice(separatorIndex + 1).trim();
+  if (separatorIndex === -1 || (mode !== "record" && mode !== "replay") || !dir) {
+    throw new Error(`Invalid DATA_SOURCE "${trimmed}". Use live, record:<dir> or replay:<dir>.`);
+  }
+
+  return { mode: mode as DataSourceMode, fixtureDir: path.resolve(projectRoot, dir) };
+}
+
+export function createDataSource(mode: DataSourceMode, fixtureDir: string | null): DataSource {
+  if (mode === "live" || !fixtureDir) {
+    return { mode: "live", fixtureDir: null, fetchRaw: fetchLive };
+  }
+
+  if (mode === "record") {
+    fs.mkdirSync(fixtureDir, { recursive: true });
+    const recordedFiles = new Map<string, FixtureFile>();
+
+    const appendEntry = (url: string, entry: FixtureEntry) => {
+      const fixture = recordedFiles.get(url) ?? { url, responses: [] };
+      fixture.responses.push(entry);
+      recordedFiles.set(url, fixture);
+      fs.writeFileSync(getFixturePath(fixtureDir, url), `${JSON.stringify(fixture)}\n`);
+    };
+
+    return {
+      mode,
+      fixtureDir,
+      fetchRaw: async (url, timeoutMs) => {
+        try {
+          const response = await fetchLive(url, timeoutMs);
+          appendEntry(url, response);
+          return response;
+        } catch (error) {
+          appendEntry(url, { error: error instanceof Error ? error.message : String(error) });
+          throw error;
+        }
+      },
+    };
+  }
+
+  // Replay serves each URL's recorded responses in order and keeps repeating the last one,
+  // so a run that makes the same calls always sees the same sequence.
+  const replayCursors = new Map<string, number>();
+
+  return {
+    mode,
+    fixtureDir,
+    fetchRaw: async (url) => {
+      const fixturePath = getFixturePath(fixtureDir, url);
+      if (!fs.existsSync(fixturePath)) {
+        throw new Error(`No replay fixture for ${url}`);
+      }
+
+      const fixture = JSON.parse(fs.readFileSync(fixturePath, "utf8")) as FixtureFile;
+      if (fixture.responses.length === 0) {
+        throw new Error(`Replay fixture for ${url} has no responses`);
+      }
+
+      const cursor = replayCursors.get(url) ?? 0;
+      replayCursors.set(url, cursor + 1);
+      const entry = fixture.responses[Math.min(cursor, fixture.responses.length - 1)];
+      if ("error" in entry) {
+        throw new Error(entry.error);
+      }
+
+      return entry;
+    },
+  };
+}
@@ -0,0 +1,175 @@
+import fs from "fs";
+import type { EntryProfile, EntryProfileThresholds } from "../src/config/entryBootstrap.js";
+
+type ThresholdField = keyof EntryProfileThresholds;
+
+export type EntryProfileThresholdChange = {
+  field: ThresholdField;
+  current: EntryProfileThresholds[ThresholdField];
+  next: EntryProfileThresholds[ThresholdField];
+};
+
+export type EntryProfileSyncResult = {
+  profileId: string;
+  configPath: string;
+  // Null when the config could not be read or failed validation; errors says why.
+  thresholds: EntryProfileThresholds | null;
+  changes: EntryProfileThresholdChange[];
+  errors: string[];
+};
+
+// ma_touch_rr keys in the perpDex_my config, per EntryProfile field. The first key present wins.
+// KRW notional floors are spot-only (the bot trades USD perps), so they are never overwritten.
+const SOURCE_KEYS: Partial<Record<ThresholdField, string[]>> = {
+  excludedSymbols: ["excluded_symbols", "exclude_symbols"],
+  minPriceChangePct: ["min_price_change_pct"],
+  average4hNotionalVolumeLookbackBars: ["average_4h_notional_volume_lookback_bars"],
+  currentTouchDailyMaPeriod: ["current_touch_daily_ma_period"],
+  dailyMaEntryTolerancePct: ["daily_ma_entry_tolerance_pct"],
+  ma20UpperMultiplier: ["ma20_upper_multiplier"],
+  longMaUpperMultiplier: ["long_ma_upper_multiplier"],
+  recentVolumeInflowLookbackDays: ["recent_volume_inflow_lookback_days"],
+  recentVolumeInflowMinVolumeRatio: ["recent_volume_inflow_min_volume_ratio"],
+  recentVolumeInflowBaselineDays: ["recent_volume_inflow_baseline_days"],
+};
+
+const THRESHOLD_FIELDS: ThresholdField[] = [
+  "excludedSymbols",
+  "minPriceChangePct",
+  "min24hNotionalVolumeKrw",
+  "minAverage4hNotionalVolumeKrw",
+  "average4hNotionalVolumeLookbackBars",
+  "currentTouchDailyMaPeriod",
+  "dailyMaEntryTolerancePct",
+  "ma20UpperMultiplier",
+  "longMaUpperMultiplier",
+  "recentVolumeInflowLookbackDays",
+  "recentVolumeInflowMinVolumeRatio",
+  "recentVolumeInflowBaselineDays",
+];
+
+const INTEGER_FIELDS: ThresholdField[] = [
+  "average4hNotionalVolumeLookbackBars",
+  "currentTouchDailyMaPeriod",
+  "recentVolumeInflowLookbackDays",
+  "recentVolumeInflowBaselineDays",
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// The strategy block may sit at the top level or under strategy/strategies.
+function findMaTouchSection(config: Record<string, unknown>) {
+  const nested = [config.strategy, config.strategies].map((value) => (isRecord(value) ? value.ma_touch_rr : undefined));
+  return [config.ma_touch_rr, ...nested].find(isRecord);
+}
+
+export function validateEntryProfileThresholds(thresholds: EntryProfileThresholds) {
+  const errors: string[] = [];
+
+  if (
+    !Array.isArray(thresholds.excludedSymbols) ||
+    thresholds.excludedSymbols.some((symbol) => typeof symbol !== "string" || !/^[A-Z0-9]+$/.test(symbol))
+  ) {
+    errors.push("excludedSymbols must be a list of upper-case symbols");
+  }
+
+  for (const field of THRESHOLD_FIELDS.filter((item) => item !== "excludedSymbols")) {
+    const value = thresholds[field];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push(`${field} must be a finite number`);
+    } else if (INTEGER_FIELDS.includes(field) && (!Number.isInteger(value) || value < 1)) {
+      errors.push(`${field} must be a positive integer`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  if (thresholds.dailyMaEntryTolerancePct < 0) {
+    errors.push("dailyMaEntryTolerancePct must be at least 0");
+  }
+  if (thresholds.ma20UpperMultiplier < 1 || thresholds.longMaUpperMultiplier < 1) {
+    errors.push("ma20UpperMultiplier and longMaUpperMultiplier must be at least 1");
+  }
+  if (thresholds.recentVolumeInflowMinVolumeRatio <= 0) {
+    errors.push("recentVolumeInflowMinVolumeRatio must be greater than 0");
+  }
+  if (thresholds.min24hNotionalVolumeKrw < 0 || thresholds.minAverage4hNotionalVolumeKrw < 0) {
+    errors.push("notional floors must not be negative");
+  }
+
+  return errors;
+}
+
+export function diffEntryProfileThresholds(current: EntryProfileThresholds, next: EntryProfileThresholds) {
+  return THRESHOLD_FIELDS.filter((field) => JSON.stringify(current[field]) !== JSON.stringify(next[field])).map(
+    (field): EntryProfileThresholdChange => ({ field, current: current[field], next: next[field] }),
+  );
+}
+
+// Reads a perpDex_my config from any local path and maps its ma_touch_rr block onto the profile.
+// Fields the config does not mention keep their current value.
+export function loadEntryProfileSync(profile: EntryProfile, configPath = profile.sourceConfigPath): EntryProfileSyncResult {
+  const result: EntryProfileSyncResult = { profileId: profile.id, configPath, thresholds: null, changes: [], errors: [] };
+
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    result.errors.push(`Failed to read ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+    return result;
+  }
+
+  const section = isRecord(config) ? findMaTouchSection(config) : undefined;
+  if (!section) {
+    result.errors.push(`${configPath} has no ma_touch_rr settings`);
+    return result;
+  }
+
+  const current = Object.fromEntries(THRESHOLD_FIELDS.map((field) => [field, profile[field]])) as EntryProfileThresholds;
+  const next: Record<string, unknown> = { ...current };
+  for (const [field, keys] of Object.entries(SOURCE_KEYS)) {
+    const key = keys.find((item) => item in section);
+    if (key !== undefined) {
+      const value = section[key];
+      next[field] =
+        field === "excludedSymbols" && Array.isArray(value)
+          ? value.map((symbol) => (typeof symbol === "string" ? symbol.trim().toUpperCase() : symbol))
+          : value;
+    }
+  }
+
+  const thresholds = next as EntryProfileThresholds;
+  result.errors = validateEntryProfileThresholds(thresholds);
+  if (result.errors.length === 0) {
+    result.thresholds = thresholds;
+    result.changes = diffEntryProfileThresholds(current, thresholds);
+  }
+
+  return result;
+}
+
+export function formatThresholdValue(value: EntryProfileThresholds[ThresholdField]) {
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+export function renderEntryProfileThresholdsModule(thresholdsByProfile: Record<string, EntryProfileThresholds>) {
+  const profiles = Object.entries(thresholdsByProfile).flatMap(([profileId, thresholds]) => [
+    `  ${profileId}: {`,
+    ...THRESHOLD_FIELDS.map((field) => `    ${field}: ${JSON.stringify(thresholds[field]).replace(/,/g, ", ")},`),
+    "  },",
+  ]);
+
+  return [
+    "// Generated by `npm run entry:sync`. Edit the perpDex_my config and re-sync instead of editing by hand.",
+    'import type { EntryProfileThresholds } from "./entryBootstrap.js";',
+    "",
+    "export const ENTRY_PROFILE_THRESHOLDS: Partial<Record<string, EntryProfileThresholds>> = {",
+    ...profiles,
+    "};",
+    "",
+  ].join("\n");
+}
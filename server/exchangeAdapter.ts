@@ -0,0 +1,90 @@
+import type { ExchangeId } from "../src/config/exchanges.js";
+import type { CandleInterval } from "./candleStore.js";
+import type { ChartCandle } from "./types.js";
+
+export type JsonFetcher = <T>(url: string, retryCount?: number) => Promise<T>;
+
+export type TickerQuote = {
+  price: number;
+  changeRate: number;
+  tradeValue24h: number;
+};
+
+export type MarketMeta = {
+  korean_name: string;
+  english_name: string;
+};
+
+export type OrderbookLevel = {
+  price: number;
+  quantity: number;
+};
+
+// Both sides are ordered best price first.
+export type Orderbook = {
+  bids: OrderbookLevel[];
+  asks: OrderbookLevel[];
+};
+
+// Everything venue-specific lives behind this interface: URLs, payload shapes and status quirks.
+// Symbols are bare base assets ("XRP"); every adapter quotes against KRW.
+export type ExchangeAdapter = {
+  id: ExchangeId;
+  fetchTickers: () => Promise<Map<string, TickerQuote>>;
+  fetchMarketMetadata: () => Promise<Map<string, MarketMeta>>;
+  fetchCandleHistory: (symbol: string, interval: CandleInterval) => Promise<ChartCandle[] | null>;
+  fetchRecentCandles: (symbol: string, interval: CandleInterval, count: number) => Promise<ChartCandle[]>;
+  fetchOrderbook: (symbol: string) => Promise<Orderbook | null>;
+};
+
+// Shape shared by Upbit's candle API and Bithumb's v1 candle API.
+export type KstCandleRow = {
+  candle_date_time_kst: string;
+  opening_price: number;
+  high_price: number;
+  low_price: number;
+  trade_price: number;
+  candle_acc_trade_volume: number;
+};
+
+export type KrwMarketRow = {
+  market: string;
+  korean_name: string;
+  english_name: string;
+};
+
+export function getKstCandleEndpoint(interval: CandleInterval) {
+  return interval === "24h" ? "days" : "minutes/60";
+}
+
+// Rows arrive newest-first and stamped in KST; bar opens are converted to UTC seconds.
+export function normalizeKstCandleRows(rows: KstCandleRow[]): ChartCandle[] {
+  return rows
+    .map((row) => ({
+      time: Math.floor(Date.parse(`${row.candle_date_time_kst}+09:00`) / 1000),
+      open: Number(row.opening_price),
+      close: Number(row.trade_price),
+      high: Number(row.high_price),
+      low: Number(row.low_price),
+      volume: Number(row.candle_acc_trade_volume ?? 0),
+    }))
+    .filter((candle) => Number.isFinite(candle.time) && Number.isFinite(candle.close))
+    .sort((left, right) => left.time - right.time);
+}
+
+export function toMarketMetadata(rows: KrwMarketRow[]) {
+  const marketMap = new Map<string, MarketMeta>();
+
+  for (const item of rows) {
+    if (!String(item.market).startsWith("KRW-")) {
+      continue;
+    }
+
+    marketMap.set(String(item.market).replace("KRW-", ""), {
+      korean_name: item.korean_name,
+      english_name: item.english_name,
+    });
+  }
+
+  return marketMap;
+}
@@ -0,0 +1,145 @@
+import type { ChartCandle } from "./types.js";
+
+export function calculateMA(prices: number[], period: number) {
+  if (prices.length < period) {
+    return null;
+  }
+
+  const sum = prices.slice(-period).reduce((accumulator, price) => accumulator + price, 0);
+  return sum / period;
+}
+
+export function calculateRSI(prices: number[], period = 14) {
+  if (prices.length < period + 1) {
+    return null;
+  }
+
+  let gainSum = 0;
+  let lossSum = 0;
+
+  for (let index = 1; index <= period; index += 1) {
+    const change = prices[index] - prices[index - 1];
+    if (change > 0) {
+      gainSum += change;
+    } else {
+      lossSum += -change;
+    }
+  }
+
+  let averageGain = gainSum / period;
+  let averageLoss = lossSum / period;
+
+  for (let index = period + 1; index < prices.length; index += 1) {
+    const change = prices[index] - prices[index - 1];
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+
+    averageGain = (averageGain * (period - 1) + gain) / period;
+    averageLoss = (averageLoss * (period - 1) + loss) / period;
+  }
+
+  if (averageLoss === 0) {
+    return 100;
+  }
+
+  const relativeStrength = averageGain / averageLoss;
+  return 100 - 100 / (1 + relativeStrength);
+}
+
+export function isBullishAlignment(prices: number[], periods: number[], minResolvedPeriods: number) {
+  const movingAverages: number[] = [];
+  for (const period of periods) {
+    const movingAverage = calculateMA(prices, period);
+    if (movingAverage === null) {
+      break;
+    }
+    movingAverages.push(movingAverage);
+  }
+
+  if (movingAverages.length < minResolvedPeriods) {
+    return false;
+  }
+
+  return movingAverages.every((movingAverage, index) => index === 0 || movingAverages[index - 1] > movingAverage);
+}
+
+export function isWithinPercentRange(currentPrice: number, movingAverage: number | null, upperPercent: number, lowerPercent: number) {
+  if (movingAverage === null) {
+    return false;
+  }
+
+  const upperLimit = movingAverage * (1 + upperPercent / 100);
+  const lowerLimit = movingAverage * (1 + lowerPercent / 100);
+  return currentPrice >= lowerLimit && currentPrice <= upperLimit;
+}
+
+export function calculateAverageNotionalVolume(candles: ChartCandle[], lookbackBars: number) {
+  if (candles.length < lookbackBars || lookbackBars <= 0) {
+    return null;
+  }
+
+  const recentCandles = candles.slice(-lookbackBars);
+  const totalNotional = recentCandles.reduce((sum, candle) => sum + candle.close * candle.volume, 0);
+  return totalNotional / lookbackBars;
+}
+
+export function passesRecentVolumeInflowInclusion(
+  candles: ChartCandle[],
+  lookbackBars: number,
+  baselineBars: number,
+  minVolumeRatio: number,
+) {
+  if (lookbackBars <= 0 || minVolumeRatio <= 0 || baselineBars <= 0) {
+    return true;
+  }
+
+  if (candles.length <= baselineBars) {
+    return false;
+  }
+
+  const windowStart = Math.max(candles.length - lookbackBars, baselineBars);
+
+  for (let index = windowStart; index < candles.length; index += 1) {
+    if (isVolumeInflowBar(candles, index, baselineBars, minVolumeRatio)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// A bullish candle whose volume is at least minVolumeRatio times the average of the
+// baselineBars candles before it. Bars without a full baseline never qualify.
+export function isVolumeInflowBar(candles: ChartCandle[], index: number, baselineBars: number, minVolumeRatio: number) {
+  const currentCandle = candles[index];
+  if (index < baselineBars || currentCandle.close <= currentCandle.open) {
+    return false;
+  }
+
+  const baselineWindow = candles.slice(index - baselineBars, index);
+  const averageVolume = baselineWindow.reduce((sum, candle) => sum + candle.volume, 0) / baselineWindow.length;
+  return averageVolume > 0 && currentCandle.volume / averageVolume >= minVolumeRatio;
+}
+
+// Strongest bullish-candle volume ratio inside the lookback window; explains volume-inflow checks.
+export function calculateMaxVolumeInflowRatio(candles: ChartCandle[], lookbackBars: number, baselineBars: number) {
+  if (lookbackBars <= 0 || baselineBars <= 0 || candles.length <= baselineBars) {
+    return null;
+  }
+
+  let maxRatio: number | null = null;
+  for (let index = Math.max(candles.length - lookbackBars, baselineBars); index < candles.length; index += 1) {
+    const currentCandle = candles[index];
+    if (currentCandle.close <= currentCandle.open) {
+      continue;
+    }
+
+    const baselineWindow = candles.slice(index - baselineBars, index);
+    const averageVolume = baselineWindow.reduce((sum, candle) => sum + candle.volume, 0) / baselineWindow.length;
+    if (averageVolume > 0) {
+      maxRatio = Math.max(maxRatio ?? 0, currentCandle.volume / averageVolume);
+    }
+  }
+
+  return maxRatio;
+}
@@ -0,0 +1,27 @@
+import fs from "fs";
+
+// Reads a JSON state file under .local/. A missing file yields `fallback`. A file that cannot be
+// read or parsed also yields `fallback`, after being renamed to `<file>.corrupt` so the store's
+// next write does not overwrite what was there.
+export function readLocalJsonFile<T>(
+  filePath: string,
+  fallback: T,
+  onLoadError?: (error: unknown, backupPath: string) => void,
+): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+  } catch (error) {
+    const backupPath = `${filePath}.corrupt`;
+    try {
+      fs.renameSync(filePath, backupPath);
+    } catch {
+      // Leave the file in place; the load error below still explains why the store is empty.
+    }
+    onLoadError?.(error, backupPath);
+    return fallback;
+  }
+}
@@ -0,0 +1,117 @@
+import type { OrderSide, OrderbookSide } from "../src/config/conditionRules.js";
+import {
+  ORDERBOOK_COLUMN_DEPTH,
+  SLIPPAGE_ORDER_KRW,
+  type OrderbookColumnKey,
+} from "../src/config/indicatorColumns.js";
+import type { Orderbook, OrderbookLevel } from "./exchangeAdapter.js";
+
+// Pure metrics over one orderbook snapshot. Notionals are in KRW; a side that runs out of
+// visible levels only counts what is there.
+
+export type OrderbookDepth = { levels: number; bidNotionalKrw: number; askNotionalKrw: number };
+
+export type SlippageEstimate = {
+  side: OrderSide;
+  orderKrw: number;
+  // Volume-weighted fill price and its distance from the best price; null when the visible
+  // book is too thin to fill the whole order.
+  averagePrice: number | null;
+  slippagePct: number | null;
+  fillableKrw: number;
+};
+
+export type OrderbookAnalysis = {
+  bestBid: number | null;
+  bestAsk: number | null;
+  spreadBps: number | null;
+  depth: OrderbookDepth[];
+  // Bid over ask notional within ORDERBOOK_COLUMN_DEPTH levels; above 1 means more resting bids.
+  imbalanceRatio: number | null;
+  slippage: SlippageEstimate[];
+};
+
+export const ORDERBOOK_DEPTH_LEVELS = [5, 10, 15] as const;
+
+export function sumOrderbookNotional(levels: OrderbookLevel[], depth: number) {
+  return levels.slice(0, depth).reduce((sum, level) => sum + level.price * level.quantity, 0);
+}
+
+export function getOrderbookSide(orderbook: Orderbook, side: OrderbookSide) {
+  return side === "bid" ? orderbook.bids : orderbook.asks;
+}
+
+export function calculateSpreadBps(orderbook: Orderbook) {
+  const bestBid = orderbook.bids[0]?.price;
+  const bestAsk = orderbook.asks[0]?.price;
+  if (bestBid === undefined || bestAsk === undefined || bestBid <= 0 || bestAsk <= 0) {
+    return null;
+  }
+
+  return ((bestAsk - bestBid) / ((bestAsk + bestBid) / 2)) * 10_000;
+}
+
+export function calculateImbalanceRatio(orderbook: Orderbook, depth: number) {
+  const askNotional = sumOrderbookNotional(orderbook.asks, depth);
+  return askNotional > 0 ? sumOrderbookNotional(orderbook.bids, depth) / askNotional : null;
+}
+
+// A market buy walks the asks and a market sell walks the bids, each spending `orderKrw` of notional.
+export function estimateSlippage(orderbook: Orderbook, side: OrderSide, orderKrw: number): SlippageEstimate {
+  const levels = side === "buy" ? orderbook.asks : orderbook.bids;
+  let remainingKrw = orderKrw;
+  let filledQuantity = 0;
+
+  for (const level of levels) {
+    if (remainingKrw <= 0) {
+      break;
+    }
+    const takenKrw = Math.min(remainingKrw, level.price * level.quantity);
+    filledQuantity += takenKrw / level.price;
+    remainingKrw -= takenKrw;
+  }
+
+  const fillableKrw = orderKrw - remainingKrw;
+  if (remainingKrw > 0 || filledQuantity === 0) {
+    return { side, orderKrw, averagePrice: null, slippagePct: null, fillableKrw };
+  }
+
+  const averagePrice = orderKrw / filledQuantity;
+  return {
+    side,
+    orderKrw,
+    averagePrice,
+    slippagePct: Math.abs(averagePrice / levels[0].price - 1) * 100,
+    fillableKrw,
+  };
+}
+
+export function analyzeOrderbook(orderbook: Orderbook, orderKrw = SLIPPAGE_ORDER_KRW): OrderbookAnalysis {
+  return {
+    bestBid: orderbook.bids[0]?.price ?? null,
+    bestAsk: orderbook.asks[0]?.price ?? null,
+    spreadBps: calculateSpreadBps(orderbook),
+    depth: ORDERBOOK_DEPTH_LEVELS.map((levels) => ({
+      levels,
+      bidNotionalKrw: sumOrderbookNotional(orderbook.bids, levels),
+      askNotionalKrw: sumOrderbookNotional(orderbook.asks, levels),
+    })),
+    imbalanceRatio: calculateImbalanceRatio(orderbook, ORDERBOOK_COLUMN_DEPTH),
+    slippage: [estimateSlippage(orderbook, "buy", orderKrw), estimateSlippage(orderbook, "sell", orderKrw)],
+  };
+}
+
+// Row values behind the orderbook result columns; all null when the orderbook is unavailable.
+export function getOrderbookColumnValues(orderbook: Orderbook | null): Record<OrderbookColumnKey, number | null> {
+  if (!orderbook) {
+    return { spread_bps: null, bid_depth_10: null, ask_depth_10: null, imbalance_10: null, slippage_buy: null };
+  }
+
+  return {
+    spread_bps: calculateSpreadBps(orderbook),
+    bid_depth_10: sumOrderbookNotional(orderbook.bids, ORDERBOOK_COLUMN_DEPTH),
+    ask_depth_10: sumOrderbookNotional(orderbook.asks, ORDERBOOK_COLUMN_DEPTH),
+    imbalance_10: calculateImbalanceRatio(orderbook, ORDERBOOK_COLUMN_DEPTH),
+    slippage_buy: estimateSlippage(orderbook, "buy", SLIPPAGE_ORDER_KRW).slippagePct,
+  };
+}
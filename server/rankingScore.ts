@@ -0,0 +1,109 @@
+import { resolvePriceTimeframe } from "../src/config/conditionRules.js";
+import { SCORE_COMPONENTS, SCORE_SCALES, type ScoreComponent, type ScoreModel } from "../src/config/scoreModel.js";
+import type { ConditionEvaluationContext } from "./conditionEngine.js";
+import { calculateAverageNotionalVolume, calculateMA, calculateMaxVolumeInflowRatio, calculateRSI } from "./indicators.js";
+
+function clampUnit(value: number) {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+function scoreMaDistance(context: ConditionEvaluationContext, model: ScoreModel) {
+  const { timeframe, period, priceTimeframe } = model.keyMa;
+  const frame = context.frames[timeframe];
+  const movingAverage = frame ? calculateMA(frame.prices, period) : null;
+  const currentPrice = context.frames[resolvePriceTimeframe(timeframe, priceTimeframe)]?.currentPrice ?? null;
+  if (movingAverage === null || currentPrice === null || movingAverage <= 0) {
+    return null;
+  }
+
+  const distancePct = Math.abs(currentPrice / movingAverage - 1) * 100;
+  return clampUnit(1 - distancePct / SCORE_SCALES.maxMaDistancePct);
+}
+
+// Average of the key MA slope and the MA20/MA60 spread, both on the key MA's timeframe.
+function scoreTrend(context: ConditionEvaluationContext, model: ScoreModel) {
+  const frame = context.frames[model.keyMa.timeframe];
+  if (!frame) {
+    return null;
+  }
+
+  const currentMa = calculateMA(frame.prices, model.keyMa.period);
+  const previousMa = calculateMA(frame.prices.slice(0, -SCORE_SCALES.slopeBars), model.keyMa.period);
+  const shortMa = calculateMA(frame.prices, 20);
+  const longMa = calculateMA(frame.prices, 60);
+  const parts: number[] = [];
+
+  if (currentMa !== null && previousMa !== null && previousMa > 0) {
+    parts.push(clampUnit(((currentMa / previousMa - 1) * 100) / SCORE_SCALES.fullSlopePct));
+  }
+  if (shortMa !== null && longMa !== null && longMa > 0) {
+    parts.push(clampUnit(((shortMa / longMa - 1) * 100) / SCORE_SCALES.fullSpreadPct));
+  }
+
+  return parts.length === 0 ? null : parts.reduce((sum, part) => sum + part, 0) / parts.length;
+}
+
+function scoreVolumeInflow(context: ConditionEvaluationContext) {
+  const candles = context.frames.daily?.candles ?? [];
+  const maxRatio = calculateMaxVolumeInflowRatio(candles, SCORE_SCALES.inflowLookbackBars, SCORE_SCALES.inflowBaselineBars);
+  // No bullish candle in the window is a real zero, not missing data.
+  if (maxRatio === null) {
+    return candles.length > SCORE_SCALES.inflowBaselineBars ? 0 : null;
+  }
+
+  return clampUnit((maxRatio - 1) / (SCORE_SCALES.fullInflowRatio - 1));
+}
+
+function scoreLiquidity(context: ConditionEvaluationContext) {
+  const averageNotionalVolume = calculateAverageNotionalVolume(
+    context.frames.daily?.candles ?? [],
+    SCORE_SCALES.liquidityLookbackBars,
+  );
+  if (averageNotionalVolume === null) {
+    return null;
+  }
+  if (averageNotionalVolume <= 0) {
+    return 0;
+  }
+
+  const lower = Math.log10(SCORE_SCALES.minLiquidityKrw);
+  const upper = Math.log10(SCORE_SCALES.fullLiquidityKrw);
+  return clampUnit((Math.log10(averageNotionalVolume) - lower) / (upper - lower));
+}
+
+function scoreRsi(context: ConditionEvaluationContext) {
+  const rsi = calculateRSI(context.frames.daily?.prices ?? []);
+  return rsi === null ? null : clampUnit(1 - Math.abs(rsi - SCORE_SCALES.idealRsi) / SCORE_SCALES.rsiTolerance);
+}
+
+function calculateScoreComponents(
+  context: ConditionEvaluationContext,
+  model: ScoreModel,
+): Record<ScoreComponent, number | null> {
+  return {
+    maDistance: scoreMaDistance(context, model),
+    trend: scoreTrend(context, model),
+    volumeInflow: scoreVolumeInflow(context),
+    liquidity: scoreLiquidity(context),
+    rsi: scoreRsi(context),
+  };
+}
+
+// Components without enough history drop out and the remaining weights are renormalised, so a
+// young listing is not penalised for data it cannot have. Null when nothing could be computed.
+export function calculateRankingScore(context: ConditionEvaluationContext, model: ScoreModel) {
+  const components = calculateScoreComponents(context, model);
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const component of SCORE_COMPONENTS) {
+    const value = components[component];
+    const weight = model.weights[component];
+    if (value !== null && weight > 0) {
+      weightedSum += value * weight;
+      totalWeight += weight;
+    }
+  }
+
+  return totalWeight === 0 ? null : Math.round((weightedSum / totalWeight) * 1000) / 10;
+}
@@ -0,0 +1,77 @@
+import type { ExchangeId } from "../src/config/exchanges.js";
+import type { ConditionId } from "../src/config/screenerBootstrap.js";
+import type { ScreenerRow } from "./types.js";
+
+export type ScanPresence = {
+  firstSeenAt: number;
+  // Consecutive scans, including the latest one, in which the market matched.
+  scanStreak: number;
+  isNew: boolean;
+};
+
+export type ScanDiff = {
+  previousScanAt: number | null;
+  entered: string[];
+  exited: string[];
+  stillPresent: string[];
+  presence: Record<string, ScanPresence>;
+};
+
+type ConditionSnapshot = {
+  scannedAt: number;
+  presence: Record<string, ScanPresence>;
+};
+
+// Keeps the previous result set per exchange and condition in memory so each rebuild can be
+// compared with the one before it. The first scan after a restart is the baseline: nothing is NEW.
+export function createScanHistory() {
+  const snapshots = new Map<string, ConditionSnapshot>();
+
+  const diffAgainstPrevious = (
+    exchange: ExchangeId,
+    scannedAt: number,
+    resultsByCondition: Record<ConditionId, ScreenerRow[]>,
+    store: boolean,
+  ): Record<ConditionId, ScanDiff> => {
+    const diffs: Record<ConditionId, ScanDiff> = {};
+
+    for (const [key, rows] of Object.entries(resultsByCondition)) {
+      const conditionId = Number(key);
+      const snapshotKey = `${exchange}:${conditionId}`;
+      const previous = snapshots.get(snapshotKey) ?? null;
+      const presence: Record<string, ScanPresence> = {};
+
+      for (const { market } of rows) {
+        const previousPresence = previous?.presence[market];
+        presence[market] = previousPresence
+          ? { firstSeenAt: previousPresence.firstSeenAt, scanStreak: previousPresence.scanStreak + 1, isNew: false }
+          : { firstSeenAt: scannedAt, scanStreak: 1, isNew: previous !== null };
+      }
+
+      const markets = Object.keys(presence);
+      diffs[conditionId] = {
+        previousScanAt: previous?.scannedAt ?? null,
+        entered: markets.filter((market) => presence[market].isNew),
+        exited: previous ? Object.keys(previous.presence).filter((market) => !presence[market]) : [],
+        stillPresent: markets.filter((market) => previous?.presence[market]),
+        presence,
+      };
+      if (store) {
+        snapshots.set(snapshotKey, { scannedAt, presence });
+      }
+    }
+
+    return diffs;
+  };
+
+  const record = (exchange: ExchangeId, scannedAt: number, resultsByCondition: Record<ConditionId, ScreenerRow[]>) =>
+    diffAgainstPrevious(exchange, scannedAt, resultsByCondition, true);
+
+  // Same diff as record() without replacing the snapshot, for views rebuilt between recorded scans.
+  const compare = (exchange: ExchangeId, scannedAt: number, resultsByCondition: Record<ConditionId, ScreenerRow[]>) =>
+    diffAgainstPrevious(exchange, scannedAt, resultsByCondition, false);
+
+  return { record, compare };
+}
+
+export type ScanHistory = ReturnType<typeof createScanHistory>;
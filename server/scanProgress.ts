@@ -0,0 +1,134 @@
+import type { ExchangeId } from "../src/config/exchanges.js";
+import type { ConditionGroup, ConditionId } from "../src/config/screenerBootstrap.js";
+import type { ScreenerRow } from "./types.js";
+
+export type ScanPhase = "tickers" | "symbols" | "done" | "failed";
+
+export type ScanProgressMatch = Pick<ScreenerRow, "market" | "korean_name" | "price" | "change" | "volume" | "score">;
+
+export type ScanProgressSnapshot = {
+  exchange: ExchangeId;
+  group: ConditionGroup;
+  phase: ScanPhase;
+  startedAt: number;
+  finishedAt: number | null;
+  total: number;
+  completed: number;
+  failed: number;
+  error: string | null;
+  matchesByCondition: Record<ConditionId, ScanProgressMatch[]>;
+};
+
+type ProgressListener = (snapshot: ScanProgressSnapshot) => void;
+
+// Symbol-level updates arrive up to concurrency-many at a time, so they are coalesced.
+const PUBLISH_INTERVAL_MS = 250;
+
+// Tracks the latest scan per exchange and group and pushes snapshots to subscribers, e.g. the
+// /api/scan/stream SSE route. Phase changes publish immediately; per-symbol progress is throttled.
+export function createScanProgressHub() {
+  const snapshots = new Map<string, ScanProgressSnapshot>();
+  const listeners = new Map<string, Set<ProgressListener>>();
+
+  const getKey = (exchange: ExchangeId, group: ConditionGroup) => `${exchange}:${group}`;
+
+  const publish = (key: string) => {
+    const snapshot = snapshots.get(key);
+    if (snapshot) {
+      listeners.get(key)?.forEach((listener) => listener(snapshot));
+    }
+  };
+
+  const begin = (exchange: ExchangeId, group: ConditionGroup) => {
+    const key = getKey(exchange, group);
+    let resultsByCondition: Record<ConditionId, ScreenerRow[]> = {};
+    let publishTimer: NodeJS.Timeout | null = null;
+    const snapshot: ScanProgressSnapshot = {
+      exchange,
+      group,
+      phase: "tickers",
+      startedAt: Date.now(),
+      finishedAt: null,
+      total: 0,
+      completed: 0,
+      failed: 0,
+      error: null,
+      matchesByCondition: {},
+    };
+
+    const refreshMatches = () => {
+      snapshot.matchesByCondition = Object.fromEntries(
+        Object.entries(resultsByCondition).map(([conditionId, rows]) => [
+          conditionId,
+          rows.map(({ market, korean_name, price, change, volume, score }) => ({
+            market,
+            korean_name,
+            price,
+            change,
+            volume,
+            score,
+          })),
+        ]),
+      );
+    };
+
+    const publishNow = () => {
+      if (publishTimer) {
+        clearTimeout(publishTimer);
+        publishTimer = null;
+      }
+      refreshMatches();
+      publish(key);
+    };
+
+    const publishSoon = () => {
+      publishTimer ??= setTimeout(publishNow, PUBLISH_INTERVAL_MS);
+    };
+
+    snapshots.set(key, snapshot);
+    publishNow();
+
+    return {
+      // Matches are read from the live result arrays, so appending a match needs no extra call.
+      startSymbols: (total: number, results: Record<ConditionId, ScreenerRow[]>) => {
+        resultsByCondition = results;
+        Object.assign(snapshot, { phase: "symbols", total });
+        publishNow();
+      },
+      updateCompleted: (completed: number) => {
+        snapshot.completed = completed;
+        publishSoon();
+      },
+      markFailed: () => {
+        snapshot.failed += 1;
+        publishSoon();
+      },
+      finish: (error?: unknown) => {
+        Object.assign(snapshot, {
+          phase: error ? "failed" : "done",
+          finishedAt: Date.now(),
+          error: error ? (error instanceof Error ? error.message : String(error)) : null,
+        });
+        publishNow();
+      },
+    };
+  };
+
+  const get = (exchange: ExchangeId, group: ConditionGroup) => snapshots.get(getKey(exchange, group)) ?? null;
+
+  const subscribe = (exchange: ExchangeId, group: ConditionGroup, listener: ProgressListener) => {
+    const key = getKey(exchange, group);
+    const keyListeners = listeners.get(key) ?? new Set<ProgressListener>();
+    keyListeners.add(listener);
+    listeners.set(key, keyListeners);
+
+    return () => {
+      keyListeners.delete(listener);
+    };
+  };
+
+  return { begin, get, subscribe };
+}
+
+export type ScanProgressHub = ReturnType<typeof createScanProgressHub>;
+export type ScanProgressTracker = ReturnType<ScanProgressHub["begin"]>;
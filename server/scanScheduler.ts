@@ -0,0 +1,186 @@
+import { DEFAULT_EXCHANGE_ID, isExchangeId, type ExchangeId } from "../src/config/exchanges.js";
+import type { ConditionGroup } from "../src/config/screenerBootstrap.js";
+import { FOUR_HOUR_SECONDS, getKstFourHourStart } from "./candleAggregation.js";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const KST_OFFSET_MS = 9 * 60 * MINUTE_MS;
+
+export type ScanScheduleConfig = {
+  enabled: boolean;
+  exchanges: ExchangeId[];
+  // Minutes after each KST 4h candle close (00/04/08/12/16/20 KST) to rebuild the 4h group.
+  fourHourDelayMinutes: number;
+  // KST wall-clock times, as minutes after midnight, to rebuild the daily group.
+  dailyTimesKst: number[];
+};
+
+export type ScheduledScanStatus = {
+  group: ConditionGroup;
+  running: boolean;
+  runCount: number;
+  lastStartedAt: number | null;
+  lastFinishedAt: number | null;
+  lastDurationMs: number | null;
+  lastError: string | null;
+  nextRunAt: number | null;
+};
+
+type ScheduledScan = {
+  group: ConditionGroup;
+  getNextRunAt: (now: number) => number;
+};
+
+function parseKstTime(value: string) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`Invalid SCAN_DAILY_TIMES_KST entry "${value}". Use HH:MM.`);
+  }
+
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+// Background scans are opt-in with SCAN_SCHEDULER=on and never run against replayed fixtures;
+// the other keys fall back to defaults when unset.
+export function parseScanSchedule(env: NodeJS.ProcessEnv, replaying: boolean): ScanScheduleConfig {
+  const exchanges = (env.SCAN_EXCHANGES?.trim() || DEFAULT_EXCHANGE_ID)
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  const invalidExchange = exchanges.find((exchange) => !isExchangeId(exchange));
+  if (invalidExchange) {
+    throw new Error(`Invalid SCAN_EXCHANGES entry "${invalidExchange}".`);
+  }
+
+  const fourHourDelayMinutes = Number(env.SCAN_FOUR_HOUR_DELAY_MINUTES ?? 2);
+  if (!Number.isFinite(fourHourDelayMinutes) || fourHourDelayMinutes < 0 || fourHourDelayMinutes >= 240) {
+    throw new Error(`Invalid SCAN_FOUR_HOUR_DELAY_MINUTES "${env.SCAN_FOUR_HOUR_DELAY_MINUTES}".`);
+  }
+
+  return {
+    enabled: env.SCAN_SCHEDULER?.trim().toLowerCase() === "on" && !replaying,
+    exchanges: exchanges as ExchangeId[],
+    fourHourDelayMinutes,
+    dailyTimesKst: (env.SCAN_DAILY_TIMES_KST?.trim() || "00:05,09:05").split(",").map(parseKstTime),
+  };
+}
+
+export function getNextFourHourScanAt(now: number, delayMinutes: number) {
+  const delayMs = delayMinutes * MINUTE_MS;
+  const slotStartMs = getKstFourHourStart(Math.floor((now - delayMs) / 1000)) * 1000;
+  return slotStartMs + FOUR_HOUR_SECONDS * 1000 + delayMs;
+}
+
+export function getNextDailyScanAt(now: number, timesKst: number[]) {
+  const kstMidnight = Math.floor((now + KST_OFFSET_MS) / DAY_MS) * DAY_MS - KST_OFFSET_MS;
+  const candidates = timesKst.flatMap((minutes) => [
+    kstMidnight + minutes * MINUTE_MS,
+    kstMidnight + DAY_MS + minutes * MINUTE_MS,
+  ]);
+
+  return Math.min(...candidates.filter((time) => time > now));
+}
+
+// Runs one rebuild per condition group on its own cadence. Runs are serialized so the 4h and
+// daily scans never hit the exchange APIs at the same time; a run that comes due while another
+// is in progress waits for it.
+export function createScanScheduler(
+  config: ScanScheduleConfig,
+  runScan: (group: ConditionGroup) => Promise<void>,
+) {
+  const scans: ScheduledScan[] = [
+    { group: "fourHour", getNextRunAt: (now) => getNextFourHourScanAt(now, config.fourHourDelayMinutes) },
+    { group: "daily", getNextRunAt: (now) => getNextDailyScanAt(now, config.dailyTimesKst) },
+  ];
+  const statuses = new Map<ConditionGroup, ScheduledScanStatus>(
+    scans.map(({ group }) => [
+      group,
+      {
+        group,
+        running: false,
+        runCount: 0,
+        lastStartedAt: null,
+        lastFinishedAt: null,
+        lastDurationMs: null,
+        lastError: null,
+        nextRunAt: null,
+      },
+    ]),
+  );
+  const timers = new Map<ConditionGroup, NodeJS.Timeout>();
+  let runQueue: Promise<void> = Promise.resolve();
+  let stopped = true;
+
+  const enqueueRun = (group: ConditionGroup) => {
+    runQueue = runQueue.then(async () => {
+      const status = statuses.get(group)!;
+      const startedAt = Date.now();
+      Object.assign(status, { running: true, lastStartedAt: startedAt });
+
+      try {
+        await runScan(group);
+        status.lastError = null;
+      } catch (error) {
+        status.lastError = error instanceof Error ? error.message : String(error);
+      } finally {
+        const finishedAt = Date.now();
+        Object.assign(status, {
+          running: false,
+          runCount: status.runCount + 1,
+          lastFinishedAt: finishedAt,
+          lastDurationMs: finishedAt - startedAt,
+        });
+      }
+    });
+
+    return runQueue;
+  };
+
+  const scheduleNext = (scan: ScheduledScan) => {
+    if (stopped) {
+      return;
+    }
+
+    const nextRunAt = scan.getNextRunAt(Date.now());
+    statuses.get(scan.group)!.nextRunAt = nextRunAt;
+    timers.set(
+      scan.group,
+      setTimeout(() => {
+        void enqueueRun(scan.group);
+        scheduleNext(scan);
+      }, nextRunAt - Date.now()),
+    );
+  };
+
+  // Both groups are built once on start so the first visitor does not wait for a cold scan.
+  const start = () => {
+    if (!config.enabled || !stopped) {
+      return;
+    }
+
+    stopped = false;
+    scans.forEach((scan) => {
+      void enqueueRun(scan.group);
+      scheduleNext(scan);
+    });
+  };
+
+  const stop = () => {
+    stopped = true;
+    timers.forEach((timer) => clearTimeout(timer));
+    timers.clear();
+    statuses.forEach((status) => {
+      status.nextRunAt = null;
+    });
+  };
+
+  const getStatus = () => ({
+    enabled: config.enabled,
+    exchanges: config.exchanges,
+    scans: [...statuses.values()].map((status) => ({ ...status })),
+  });
+
+  return { start, stop, getStatus };
+}
+
+export type ScanScheduler = ReturnType<typeof createScanScheduler>;
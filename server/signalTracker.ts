@@ -0,0 +1,222 @@
+import fs from "fs";
+import path from "path";
+import { DEFAULT_EXCHANGE_ID, type ExchangeId } from "../src/config/exchanges.js";
+import type { ConditionId } from "../src/config/screenerBootstrap.js";
+import { runConcurrentQueue } from "./concurrency.js";
+import { readLocalJsonFile } from "./localJsonFile.js";
+import type { ChartCandle, ScreenerRow } from "./types.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const SIGNAL_RETURN_HORIZONS = {
+  "4h": 4 * HOUR_MS,
+  "1d": DAY_MS,
+  "3d": 3 * DAY_MS,
+  "7d": 7 * DAY_MS,
+} as const;
+
+export type SignalReturnHorizon = keyof typeof SIGNAL_RETURN_HORIZONS;
+
+// A coin that stays in a condition across many scans is one trade idea, not many.
+const SIGNAL_DEDUP_WINDOW_MS = DAY_MS;
+const SIGNAL_RETENTION_MS = 90 * DAY_MS;
+const HORIZON_KEYS = Object.keys(SIGNAL_RETURN_HORIZONS) as SignalReturnHorizon[];
+
+type TrackedSignal = {
+  exchange: ExchangeId;
+  conditionId: ConditionId;
+  symbol: string;
+  market: string;
+  entryPrice: number;
+  signaledAt: number;
+  returns: Record<SignalReturnHorizon, number | null>;
+};
+
+type HorizonPerformance = {
+  sampleCount: number;
+  averageReturn: number | null;
+  hitRate: number | null;
+};
+
+export type ConditionPerformance = {
+  conditionId: ConditionId;
+  signalCount: number;
+  pendingCount: number;
+  lastSignalAt: number | null;
+  horizons: Record<SignalReturnHorizon, HorizonPerformance>;
+};
+
+function isFullyResolved(signal: TrackedSignal) {
+  return HORIZON_KEYS.every((horizon) => signal.returns[horizon] !== null);
+}
+
+// Close of the last hourly candle that had fully closed by `targetMs`, but only when that candle
+// closed within one bar of the target. When the history stops earlier (a delisting or an exchange
+// gap) this returns null and the horizon stays pending rather than taking a stale price.
+function findCloseAt(hourlyCandles: ChartCandle[], targetMs: number) {
+  let closedCandle: ChartCandle | null = null;
+  for (const candle of hourlyCandles) {
+    if (candle.time * 1000 + HOUR_MS > targetMs) {
+      break;
+    }
+    closedCandle = candle;
+  }
+
+  if (!closedCandle || closedCandle.time * 1000 + HOUR_MS <= targetMs - HOUR_MS) {
+    return null;
+  }
+  return closedCandle.close;
+}
+
+export function createSignalTracker(options: {
+  filePath: string;
+  loadHourlyCandles: (exchange: ExchangeId, symbol: string) => Promise<ChartCandle[] | null>;
+  onError?: (exchange: ExchangeId, symbol: string, error: unknown) => void;
+  onLoadError?: (error: unknown, backupPath: string) => void;
+}) {
+  const { filePath, loadHourlyCandles, onError, onLoadError } = options;
+  const stored = readLocalJsonFile<unknown>(filePath, [], onLoadError);
+  // Signals recorded before multi-exchange support carry no exchange and came from the default venue.
+  let signals: TrackedSignal[] = (Array.isArray(stored) ? (stored as Array<Partial<TrackedSignal>>) : []).map(
+    (signal) => ({ ...signal, exchange: signal.exchange ?? DEFAULT_EXCHANGE_ID }) as TrackedSignal,
+  );
+  let inflightResolve: Promise<void> | null = null;
+
+  const persist = () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `${JSON.stringify(signals)}\n`);
+  };
+
+  const recordResults = (
+    exchange: ExchangeId,
+    generatedAt: number,
+    resultsByCondition: Record<ConditionId, ScreenerRow[]>,
+  ) => {
+    const latestByKey = new Map<string, number>();
+    for (const signal of signals) {
+      const key = `${signal.exchange}:${signal.conditionId}:${signal.symbol}`;
+      latestByKey.set(key, Math.max(latestByKey.get(key) ?? 0, signal.signaledAt));
+    }
+
+    let added = 0;
+    for (const [rawConditionId, rows] of Object.entries(resultsByCondition)) {
+      const conditionId = Number(rawConditionId);
+      for (const row of rows) {
+        const symbol = row.market.split("/")[0];
+        const lastSignaledAt = latestByKey.get(`${exchange}:${conditionId}:${symbol}`);
+        if (lastSignaledAt !== undefined && generatedAt - lastSignaledAt < SIGNAL_DEDUP_WINDOW_MS) {
+          continue;
+        }
+
+        signals.push({
+          exchange,
+          conditionId,
+          symbol,
+          market: row.market,
+          entryPrice: row.price,
+          signaledAt: generatedAt,
+          returns: { "4h": null, "1d": null, "3d": null, "7d": null },
+        });
+        added += 1;
+      }
+    }
+
+    const retentionCutoff = generatedAt - SIGNAL_RETENTION_MS;
+    const retained = signals.filter((signal) => signal.signaledAt >= retentionCutoff);
+    if (added > 0 || retained.length !== signals.length) {
+      signals = retained;
+      persist();
+    }
+
+    return added;
+  };
+
+  const resolvePendingReturnsOnce = async () => {
+    const now = Date.now();
+    const pendingByMarket = new Map<string, TrackedSignal[]>();
+    for (const signal of signals) {
+      const isDue = HORIZON_KEYS.some(
+        (horizon) => signal.returns[horizon] === null && signal.signaledAt + SIGNAL_RETURN_HORIZONS[horizon] <= now,
+      );
+      if (isDue) {
+        const key = `${signal.exchange}:${signal.symbol}`;
+        pendingByMarket.set(key, [...(pendingByMarket.get(key) ?? []), signal]);
+      }
+    }
+
+    if (pendingByMarket.size === 0) {
+      return;
+    }
+
+    await runConcurrentQueue([...pendingByMarket.values()], 5, async (marketSignals) => {
+      const { exchange, symbol } = marketSignals[0];
+      try {
+        const hourlyCandles = await loadHourlyCandles(exchange, symbol);
+        if (!hourlyCandles) {
+          return;
+        }
+
+        for (const signal of marketSignals) {
+          for (const horizon of HORIZON_KEYS) {
+            const targetMs = signal.signaledAt + SIGNAL_RETURN_HORIZONS[horizon];
+            if (signal.returns[horizon] !== null || targetMs > now) {
+              continue;
+            }
+
+            const close = findCloseAt(hourlyCandles, targetMs);
+            if (close !== null && signal.entryPrice > 0) {
+              signal.returns[horizon] = close / signal.entryPrice - 1;
+            }
+          }
+        }
+      } catch (error) {
+        onError?.(exchange, symbol, error);
+      }
+    });
+
+    persist();
+  };
+
+  const resolvePendingReturns = () => {
+    inflightResolve ??= resolvePendingReturnsOnce().finally(() => {
+      inflightResolve = null;
+    });
+    return inflightResolve;
+  };
+
+  // Venues list different markets at different prices, so each exchange gets its own scoreboard.
+  const getScoreboard = (exchange: ExchangeId): ConditionPerformance[] => {
+    const byCondition = new Map<ConditionId, TrackedSignal[]>();
+    for (const signal of signals.filter((item) => item.exchange === exchange)) {
+      byCondition.set(signal.conditionId, [...(byCondition.get(signal.conditionId) ?? []), signal]);
+    }
+
+    return [...byCondition.entries()]
+      .map(([conditionId, conditionSignals]) => ({
+        conditionId,
+        signalCount: conditionSignals.length,
+        pendingCount: conditionSignals.filter((signal) => !isFullyResolved(signal)).length,
+        lastSignalAt: Math.max(...conditionSignals.map((signal) => signal.signaledAt)),
+        horizons: Object.fromEntries(
+          HORIZON_KEYS.map((horizon) => {
+            const returns = conditionSignals
+              .map((signal) => signal.returns[horizon])
+              .filter((value): value is number => value !== null);
+
+            return [
+              horizon,
+              {
+                sampleCount: returns.length,
+                averageReturn: returns.length > 0 ? returns.reduce((sum, value) => sum + value, 0) / returns.length : null,
+                hitRate: returns.length > 0 ? returns.filter((value) => value > 0).length / returns.length : null,
+              },
+            ];
+          }),
+        ) as Record<SignalReturnHorizon, HorizonPerformance>,
+      }))
+      .sort((left, right) => left.conditionId - right.conditionId);
+  };
+
+  return { recordResults, resolvePendingReturns, getScoreboard };
+}
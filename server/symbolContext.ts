@@ -0,0 +1,259 @@
+import { aggregateCalendarCandles, aggregateFourHourCandles, type CandleGap } from "./candleAggregation.js";
+import type { ConditionCheck, ConditionEvaluationContext, EvaluationFrame } from "./conditionEngine.js";
+import {
+  AVERAGE_NOTIONAL_LOOKBACK_DAYS,
+  getMaDistanceKey,
+  type MovingAverageColumnKey,
+} from "../src/config/indicatorColumns.js";
+import { calculateAverageNotionalVolume, calculateMA, calculateRSI } from "./indicators.js";
+import { getOrderbookColumnValues } from "./orderbookAnalysis.js";
+import type { RsiPreFilter } from "../src/config/rsiPreFilter.js";
+import type { ChartCandle, ScreenerRow } from "./types.js";
+
+export type BaseSymbolContext = {
+  symbol: string;
+  currentPrice: number;
+  dailyCandles: ChartCandle[];
+  dailyPrices: number[];
+  weeklyCandles: ChartCandle[];
+  monthlyCandles: ChartCandle[];
+  monthlyPrices: number[];
+  row: ScreenerRow;
+};
+export type FourHourSymbolContext = {
+  currentCandle: ChartCandle;
+  // False when the history ends exactly on a slot close, e.g. backtest replays evaluated at bar close.
+  currentCandleInProgress: boolean;
+  currentPrice: number;
+  completedCandles: ChartCandle[];
+  completedPrices: number[];
+  gaps: CandleGap[];
+};
+export type ScreenerRowQuote = {
+  korean_name: string;
+  english_name: string;
+  change: number;
+  volume: number;
+};
+
+export const MIN_MONTHLY_CANDLES = 2;
+export const MIN_FOUR_HOUR_CANDLES = 241;
+
+function createPreFilterCheck(label: string, passed: boolean, actual: string | null, threshold: string): ConditionCheck {
+  return { kind: "preFilter", label, passed, actual, threshold };
+}
+
+// Each MA comes with the percent distance of the price from it, under the matching dist_ key.
+function withMaDistances<K extends MovingAverageColumnKey>(currentPrice: number, movingAverages: Record<K, number | null>) {
+  const distances = Object.fromEntries(
+    (Object.entries(movingAverages) as [K, number | null][]).map(([key, movingAverage]) => [
+      getMaDistanceKey(key),
+      movingAverage === null || movingAverage <= 0 ? null : (currentPrice / movingAverage - 1) * 100,
+    ]),
+  ) as Record<`dist_${K}`, number | null>;
+
+  return { ...movingAverages, ...distances };
+}
+
+export function buildScreenerRow(
+  symbol: string,
+  quote: ScreenerRowQuote,
+  currentPrice: number,
+  dailyCandles: ChartCandle[],
+  monthlyPrices: number[],
+): ScreenerRow {
+  const dailyPrices = dailyCandles.map((candle) => candle.close);
+
+  return {
+    market: `${symbol}/KRW`,
+    korean_name: quote.korean_name,
+    english_name: quote.english_name,
+    price: currentPrice,
+    change: quote.change,
+    volume: quote.volume,
+    candle_count_m: monthlyPrices.length,
+    rsi14_d: calculateRSI(dailyPrices, 14),
+    avg_notional_d: calculateAverageNotionalVolume(dailyCandles, AVERAGE_NOTIONAL_LOOKBACK_DAYS),
+    ...withMaDistances(currentPrice, {
+      ma20_d: calculateMA(dailyPrices, 20),
+      ma60_d: calculateMA(dailyPrices, 60),
+      ma120_d: calculateMA(dailyPrices, 120),
+      ma240_d: calculateMA(dailyPrices, 240),
+      ma120_m: calculateMA(monthlyPrices, 120),
+    }),
+    ...withMaDistances(currentPrice, { ma20_4h: null, ma30_4h: null, ma120_4h: null, ma240_4h: null }),
+    ...getOrderbookColumnValues(null),
+  };
+}
+
+// 4h MAs exist only in the 4h scan; like the rules, they use completed 4h bars only.
+function withFourHourIndicators(row: ScreenerRow, fourHourContext: FourHourSymbolContext): ScreenerRow {
+  const { completedPrices } = fourHourContext;
+  return {
+    ...row,
+    ...withMaDistances(row.price, {
+      ma20_4h: calculateMA(completedPrices, 20),
+      ma30_4h: calculateMA(completedPrices, 30),
+      ma120_4h: calculateMA(completedPrices, 120),
+      ma240_4h: calculateMA(completedPrices, 240),
+    }),
+  };
+}
+
+// Scan-wide pre-filters applied before any condition rule runs; every check is reported so
+// /api/explain can show which one dropped a symbol.
+export function getBasePreFilterChecks(monthlyPrices: number[]): ConditionCheck[] {
+  return [
+    createPreFilterCheck(
+      "월봉 개수",
+      monthlyPrices.length >= MIN_MONTHLY_CANDLES,
+      `${monthlyPrices.length}개`,
+      `${MIN_MONTHLY_CANDLES}개 이상`,
+    ),
+  ];
+}
+
+// Per-condition pre-filter from the registry; null when the condition has it turned off.
+export function getRsiPreFilterCheck(dailyPrices: number[], filter: RsiPreFilter | null): ConditionCheck | null {
+  if (!filter) {
+    return null;
+  }
+
+  const rsi = calculateRSI(dailyPrices, filter.period);
+  return createPreFilterCheck(
+    `일봉 RSI${filter.period}`,
+    rsi !== null && rsi >= filter.min,
+    rsi === null ? null : rsi.toFixed(1),
+    `${filter.min} 이상`,
+  );
+}
+
+export function passesRsiPreFilter(dailyPrices: number[], filter: RsiPreFilter | null) {
+  return getRsiPreFilterCheck(dailyPrices, filter)?.passed ?? true;
+}
+
+// The context is built even when a pre-filter fails so rule checks can still be explained;
+// only a missing price leaves it null.
+export function explainBaseSymbolContext(
+  symbol: string,
+  dailyCandles: ChartCandle[],
+  quote: ScreenerRowQuote,
+): { context: BaseSymbolContext | null; checks: ConditionCheck[] } {
+  const dailyPrices = dailyCandles.map((candle) => candle.close);
+  const weeklyCandles = aggregateCalendarCandles(dailyCandles, "week");
+  const monthlyCandles = aggregateCalendarCandles(dailyCandles, "month");
+  const monthlyPrices = monthlyCandles.map((candle) => candle.close);
+  const currentPrice = dailyPrices[dailyPrices.length - 1];
+  const checks = getBasePreFilterChecks(monthlyPrices);
+
+  if (!Number.isFinite(currentPrice)) {
+    return { context: null, checks };
+  }
+
+  return {
+    context: {
+      symbol,
+      currentPrice,
+      dailyCandles,
+      dailyPrices,
+      weeklyCandles,
+      monthlyCandles,
+      monthlyPrices,
+      row: buildScreenerRow(symbol, quote, currentPrice, dailyCandles, monthlyPrices),
+    },
+    checks,
+  };
+}
+
+// Shared by the live scan and the backtester so both see exactly the same pre-filters.
+export function createBaseSymbolContext(
+  symbol: string,
+  dailyCandles: ChartCandle[],
+  quote: ScreenerRowQuote,
+): BaseSymbolContext | null {
+  const { context, checks } = explainBaseSymbolContext(symbol, dailyCandles, quote);
+  return checks.every((check) => check.passed) ? context : null;
+}
+
+export function explainFourHourSymbolContext(
+  hourlyCandles: ChartCandle[],
+  asOf?: number,
+): { context: FourHourSymbolContext | null; check: ConditionCheck } {
+  const { candles: fourHourCandles, gaps, lastBarInProgress } = aggregateFourHourCandles(hourlyCandles, asOf);
+  const check = createPreFilterCheck(
+    "4시간봉 개수",
+    fourHourCandles.length >= MIN_FOUR_HOUR_CANDLES,
+    `${fourHourCandles.length}개`,
+    `${MIN_FOUR_HOUR_CANDLES}개 이상`,
+  );
+  if (fourHourCandles.length === 0) {
+    return { context: null, check };
+  }
+
+  const currentCandle = fourHourCandles[fourHourCandles.length - 1];
+  // A last slot that has already closed (a backtest bar replayed at its close) is completed too.
+  const completedCandles = lastBarInProgress ? fourHourCandles.slice(0, -1) : fourHourCandles;
+  const completedPrices = completedCandles.map((candle) => candle.close);
+
+  return {
+    context: {
+      currentCandle,
+      currentCandleInProgress: lastBarInProgress,
+      currentPrice: currentCandle.close,
+      completedCandles,
+      completedPrices,
+      gaps,
+    },
+    check,
+  };
+}
+
+export function buildFourHourSymbolContext(hourlyCandles: ChartCandle[], asOf?: number): FourHourSymbolContext | null {
+  const { context, check } = explainFourHourSymbolContext(hourlyCandles, asOf);
+  return check.passed ? context : null;
+}
+
+// Calendar MAs include the in-progress week or month, matching how charting tools draw them.
+function createCalendarFrame(candles: ChartCandle[], prices: number[], currentPrice: number): EvaluationFrame {
+  return {
+    prices,
+    candles,
+    currentPrice,
+    currentCandle: candles[candles.length - 1] ?? null,
+  };
+}
+
+export function createEvaluationContext(
+  baseContext: BaseSymbolContext,
+  fourHourContext: FourHourSymbolContext | null,
+  getOrderbook: ConditionEvaluationContext["getOrderbook"],
+): ConditionEvaluationContext {
+  const { symbol, currentPrice, dailyCandles, dailyPrices, weeklyCandles, monthlyCandles, monthlyPrices, row } = baseContext;
+
+  return {
+    symbol,
+    row: fourHourContext ? withFourHourIndicators(row, fourHourContext) : row,
+    frames: {
+      daily: {
+        prices: dailyPrices,
+        candles: dailyCandles,
+        currentPrice,
+        currentCandle: dailyCandles[dailyCandles.length - 1] ?? null,
+      },
+      weekly: createCalendarFrame(weeklyCandles, weeklyCandles.map((candle) => candle.close), currentPrice),
+      monthly: createCalendarFrame(monthlyCandles, monthlyPrices, currentPrice),
+      // 4시간봉 현재 가격은 진행 중인 캔들을 쓰되, MA는 완료된 4시간봉만으로 계산해
+      // intrabar self-reference를 줄입니다.
+      ...(fourHourContext && {
+        fourHour: {
+          prices: fourHourContext.completedPrices,
+          candles: fourHourContext.completedCandles,
+          currentPrice: fourHourContext.currentPrice,
+          currentCandle: fourHourContext.currentCandle,
+        },
+      }),
+    },
+    getOrderbook,
+  };
+}
+
@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  createAdxCalculator,
+  createAtrCalculator,
+  createBollingerCalculator,
+  createEmaCalculator,
+  createMacdCalculator,
+  getLatestIndicatorValue,
+  mapIndicatorSeries,
+  type PriceBar,
+} from "./technicalIndicators.js";
+
+// Reference values below are worked out by hand on short series; the consistency checks run on a
+// longer deterministic series that moves both ways.
+
+function assertClose(actual: number | null | undefined, expected: number, message?: string) {
+  assert.ok(typeof actual === "number", message ?? `expected ${expected}, got ${actual}`);
+  assert.ok(Math.abs(actual - expected) < 1e-9, message ?? `expected ${expected}, got ${actual}`);
+}
+
+function createSampleBars(count: number): PriceBar[] {
+  return Array.from({ length: count }, (_, index) => {
+    const close = 100 + 10 * Math.sin(index / 4) + index * 0.3;
+    const range = 1 + ((index * 7) % 5);
+    return { high: close + range * 0.6, low: close - range * 0.4, close };
+  });
+}
+
+const SAMPLE_BARS = createSampleBars(80);
+const SAMPLE_CLOSES = SAMPLE_BARS.map((bar) => bar.close);
+
+// update() bar by bar must match a fresh calculator run over each prefix of the history.
+function assertMatchesRecompute<TInput, TOutput>(
+  inputs: TInput[],
+  createCalculator: () => { update: (input: TInput) => TOutput | null },
+) {
+  const incremental = mapIndicatorSeries(inputs, createCalculator());
+  incremental.forEach((value, index) => {
+    assert.deepEqual(value, getLatestIndicatorValue(inputs.slice(0, index + 1), createCalculator()), `bar ${index}`);
+  });
+}
+
+describe("createEmaCalculator", () => {
+  test("seeds with the simple average, then smooths with 2 / (period + 1)", () => {
+    assert.deepEqual(mapIndicatorSeries([1, 2, 3, 4, 5], createEmaCalculator(3)), [null, null, 2, 3, 4]);
+  });
+
+  test("stays null during warm-up", () => {
+    const values = mapIndicatorSeries(SAMPLE_CLOSES, createEmaCalculator(20));
+    assert.ok(values.slice(0, 19).every((value) => value === null));
+    assert.ok(values.slice(19).every((value) => value !== null));
+  });
+
+  test("incremental updates match a full recompute", () => {
+    assertMatchesRecompute(SAMPLE_CLOSES, () => createEmaCalculator(10));
+  });
+});
+
+describe("createBollingerCalculator", () => {
+  test("uses the SMA and population standard deviation", () => {
+    const [first, second, value] = mapIndicatorSeries([1, 2, 3], createBollingerCalculator(3, 2));
+    const deviation = Math.sqrt(2 / 3);
+    assert.equal(first, null);
+    assert.equal(second, null);
+    assertClose(value?.middle, 2);
+    assertClose(value?.upper, 2 + 2 * deviation);
+    assertClose(value?.lower, 2 - 2 * deviation);
+    assertClose(value?.bandwidthPct, ((4 * deviation) / 2) * 100);
+  });
+
+  test("only counts the last `period` values", () => {
+    const values = mapIndicatorSeries([100, 1, 2, 3], createBollingerCalculator(3, 2));
+    assertClose(values[3]?.middle, 2);
+  });
+
+  test("incremental updates match a full recompute", () => {
+    assertMatchesRecompute(SAMPLE_CLOSES, () => createBollingerCalculator(20, 2));
+  });
+});
+
+describe("createAtrCalculator", () => {
+  test("averages true range with Wilder's smoothing", () => {
+    const bars: PriceBar[] = [
+      { high: 10, low: 8, close: 9 },
+      { high: 11, low: 9, close: 10 },
+      { high: 12, low: 10, close: 11 },
+      // Gap-free range is 4 here, wider than either distance to the previous close.
+      { high: 13, low: 9, close: 12 },
+    ];
+    const values = mapIndicatorSeries(bars, createAtrCalculator(3));
+    assert.deepEqual(values.slice(0, 2), [null, null]);
+    assertClose(values[2], 2);
+    assertClose(values[3], 8 / 3);
+  });
+
+  test("includes gaps from the previous close", () => {
+    const bars: PriceBar[] = [
+      { high: 10, low: 9, close: 10 },
+      { high: 15, low: 14, close: 15 },
+    ];
+    assertClose(mapIndicatorSeries(bars, createAtrCalculator(2))[1], (1 + 5) / 2);
+  });
+
+  test("incremental updates match a full recompute", () => {
+    assertMatchesRecompute(SAMPLE_BARS, () => createAtrCalculator(14));
+  });
+});
+
+describe("createMacdCalculator", () => {
+  test("reports the fast-slow EMA difference and its signal line", () => {
+    const values = mapIndicatorSeries([1, 2, 3, 4, 5, 6], createMacdCalculator(2, 3, 2));
+    assert.deepEqual(values.slice(0, 2), [null, null]);
+    assert.deepEqual(values[2], { macd: 0.5, signal: null, histogram: null });
+    assert.deepEqual(values[3], { macd: 0.5, signal: 0.5, histogram: 0 });
+    assert.deepEqual(values[5], { macd: 0.5, signal: 0.5, histogram: 0 });
+  });
+
+  test("signal warms up after the slow EMA", () => {
+    const values = mapIndicatorSeries(SAMPLE_CLOSES, createMacdCalculator(12, 26, 9));
+    assert.ok(values.slice(0, 25).every((value) => value === null));
+    assert.ok(values.slice(25, 33).every((value) => value !== null && value.signal === null));
+    assert.ok(values.slice(33).every((value) => value?.signal !== null && value?.histogram !== null));
+  });
+
+  test("incremental updates match a full recompute", () => {
+    assertMatchesRecompute(SAMPLE_CLOSES, () => createMacdCalculator(12, 26, 9));
+  });
+});
+
+describe("createAdxCalculator", () => {
+  test("reads a steady uptrend as +DI only", () => {
+    const bars: PriceBar[] = Array.from({ length: 5 }, (_, index) => ({
+      high: index + 2,
+      low: index,
+      close: index + 1,
+    }));
+    const values = mapIndicatorSeries(bars, createAdxCalculator(2));
+    assert.deepEqual(values.slice(0, 2), [null, null]);
+    assert.deepEqual(values[2], { adx: null, plusDi: 50, minusDi: 0 });
+    assert.deepEqual(values[3], { adx: 100, plusDi: 50, minusDi: 0 });
+    assert.deepEqual(values[4], { adx: 100, plusDi: 50, minusDi: 0 });
+  });
+
+  test("DI arrives after `period` moves and ADX after about twice that", () => {
+    const values = mapIndicatorSeries(SAMPLE_BARS, createAdxCalculator(14));
+    assert.ok(values.slice(0, 14).every((value) => value === null));
+    assert.ok(values.slice(14, 27).every((value) => value !== null && value.adx === null));
+    assert.ok(values.slice(27).every((value) => typeof value?.adx === "number"));
+  });
+
+  test("incremental updates match a full recompute", () => {
+    assertMatchesRecompute(SAMPLE_BARS, () => createAdxCalculator(14));
+  });
+});
@@ -0,0 +1,179 @@
+import type { ChartCandle } from "./types.js";
+
+// Incremental calculators: each update() consumes one bar in time order and returns the value as
+// of that bar, or null during warm-up. Appending a new bar never recomputes the history, so the
+// same calculator serves a full chart series and the latest value a condition needs.
+
+export type PriceBar = Pick<ChartCandle, "high" | "low" | "close">;
+
+export type BollingerValue = { middle: number; upper: number; lower: number; bandwidthPct: number };
+export type MacdValue = { macd: number; signal: number | null; histogram: number | null };
+export type AdxValue = { adx: number | null; plusDi: number; minusDi: number };
+
+type Calculator<TInput, TOutput> = { update: (input: TInput) => TOutput | null };
+
+// Seeded with the simple average of the first `period` values, then smoothed with 2 / (period + 1).
+export function createEmaCalculator(period: number): Calculator<number, number> {
+  const alpha = 2 / (period + 1);
+  let count = 0;
+  let seedSum = 0;
+  let ema: number | null = null;
+
+  const update = (value: number) => {
+    count += 1;
+    if (ema === null) {
+      seedSum += value;
+      if (count === period) {
+        ema = seedSum / period;
+      }
+      return ema;
+    }
+
+    ema += alpha * (value - ema);
+    return ema;
+  };
+
+  return { update };
+}
+
+// Wilder's smoothing (RMA), used by ATR and ADX.
+function createWilderAverage(period: number): Calculator<number, number> {
+  let count = 0;
+  let seedSum = 0;
+  let average: number | null = null;
+
+  const update = (value: number) => {
+    count += 1;
+    if (average === null) {
+      seedSum += value;
+      if (count === period) {
+        average = seedSum / period;
+      }
+      return average;
+    }
+
+    average = (average * (period - 1) + value) / period;
+    return average;
+  };
+
+  return { update };
+}
+
+// Middle band is the SMA; bands are `stdDev` population standard deviations away.
+export function createBollingerCalculator(period: number, stdDev: number): Calculator<number, BollingerValue> {
+  const window: number[] = [];
+  let sum = 0;
+  let sumOfSquares = 0;
+
+  const update = (value: number) => {
+    window.push(value);
+    sum += value;
+    sumOfSquares += value * value;
+    if (window.length > period) {
+      const dropped = window.shift()!;
+      sum -= dropped;
+      sumOfSquares -= dropped * dropped;
+    }
+    if (window.length < period) {
+      return null;
+    }
+
+    const middle = sum / period;
+    const deviation = Math.sqrt(Math.max(sumOfSquares / period - middle * middle, 0));
+    const upper = middle + stdDev * deviation;
+    const lower = middle - stdDev * deviation;
+    return { middle, upper, lower, bandwidthPct: middle === 0 ? 0 : ((upper - lower) / middle) * 100 };
+  };
+
+  return { update };
+}
+
+function getTrueRange(bar: PriceBar, previousClose: number | null) {
+  if (previousClose === null) {
+    return bar.high - bar.low;
+  }
+
+  return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+}
+
+export function createAtrCalculator(period: number): Calculator<PriceBar, number> {
+  const average = createWilderAverage(period);
+  let previousClose: number | null = null;
+
+  const update = (bar: PriceBar) => {
+    const atr = average.update(getTrueRange(bar, previousClose));
+    previousClose = bar.close;
+    return atr;
+  };
+
+  return { update };
+}
+
+export function createMacdCalculator(fastPeriod: number, slowPeriod: number, signalPeriod: number): Calculator<number, MacdValue> {
+  const fast = createEmaCalculator(fastPeriod);
+  const slow = createEmaCalculator(slowPeriod);
+  const signal = createEmaCalculator(signalPeriod);
+
+  const update = (value: number) => {
+    const fastValue = fast.update(value);
+    const slowValue = slow.update(value);
+    if (fastValue === null || slowValue === null) {
+      return null;
+    }
+
+    const macd = fastValue - slowValue;
+    const signalValue = signal.update(macd);
+    return { macd, signal: signalValue, histogram: signalValue === null ? null : macd - signalValue };
+  };
+
+  return { update };
+}
+
+// Wilder's ADX: +DI/-DI from smoothed directional movement, ADX as the smoothed DX. DI values
+// arrive after `period` bars, ADX after roughly twice that.
+export function createAdxCalculator(period: number): Calculator<PriceBar, AdxValue> {
+  const trueRangeAverage = createWilderAverage(period);
+  const plusMoveAverage = createWilderAverage(period);
+  const minusMoveAverage = createWilderAverage(period);
+  const dxAverage = createWilderAverage(period);
+  let previousBar: PriceBar | null = null;
+
+  const update = (bar: PriceBar) => {
+    if (!previousBar) {
+      previousBar = bar;
+      return null;
+    }
+
+    const upMove = bar.high - previousBar.high;
+    const downMove = previousBar.low - bar.low;
+    const trueRange = trueRangeAverage.update(getTrueRange(bar, previousBar.close));
+    const plusMove = plusMoveAverage.update(upMove > downMove && upMove > 0 ? upMove : 0);
+    const minusMove = minusMoveAverage.update(downMove > upMove && downMove > 0 ? downMove : 0);
+    previousBar = bar;
+
+    if (trueRange === null || plusMove === null || minusMove === null || trueRange === 0) {
+      return null;
+    }
+
+    const plusDi = (plusMove / trueRange) * 100;
+    const minusDi = (minusMove / trueRange) * 100;
+    const diSum = plusDi + minusDi;
+    const adx = dxAverage.update(diSum === 0 ? 0 : (Math.abs(plusDi - minusDi) / diSum) * 100);
+    return { adx, plusDi, minusDi };
+  };
+
+  return { update };
+}
+
+// Runs a fresh calculator over a whole history; the result is aligned index-for-index with inputs.
+export function mapIndicatorSeries<TInput, TOutput>(inputs: TInput[], calculator: Calculator<TInput, TOutput>) {
+  return inputs.map((input) => calculator.update(input));
+}
+
+export function getLatestIndicatorValue<TInput, TOutput>(inputs: TInput[], calculator: Calculator<TInput, TOutput>) {
+  let latest: TOutput | null = null;
+  for (const input of inputs) {
+    latest = calculator.update(input);
+  }
+  return latest;
+}
@@ -0,0 +1,22 @@
+import type { IndicatorValues } from "../src/config/indicatorColumns.js";
+
+export type ScreenerRow = {
+  market: string;
+  korean_name: string;
+  english_name: string;
+  price: number;
+  change: number;
+  volume: number;
+  candle_count_m: number;
+  // 0-100 ranking score for the condition the row matched; unset on near misses.
+  score?: number | null;
+} & IndicatorValues;
+
+export type ChartCandle = {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+};
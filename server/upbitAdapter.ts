@@ -0,0 +1,100 @@
+import { MAX_TAIL_FETCH_BARS, type CandleInterval } from "./candleStore.js";
+import {
+  getKstCandleEndpoint,
+  normalizeKstCandleRows,
+  toMarketMetadata,
+  type ExchangeAdapter,
+  type JsonFetcher,
+  type KrwMarketRow,
+  type KstCandleRow,
+  type TickerQuote,
+} from "./exchangeAdapter.js";
+import type { ChartCandle } from "./types.js";
+
+type TickerRow = {
+  market: string;
+  trade_price: number;
+  signed_change_rate: number;
+  acc_trade_price_24h: number;
+};
+type OrderbookRow = {
+  market: string;
+  orderbook_units: Array<{ ask_price: number; ask_size: number; bid_price: number; bid_size: number }>;
+};
+
+const API_BASE_URL = "https://api.upbit.com/v1";
+
+// Upbit has no full-history endpoint, so history is paged back 200 bars at a time.
+// 10 daily pages cover the monthly alignment checks; 6 hourly pages cover 241 4h bars.
+const HISTORY_PAGE_LIMIT: Record<CandleInterval, number> = {
+  "24h": 10,
+  "1h": 6,
+};
+
+export function createUpbitAdapter(fetchJson: JsonFetcher): ExchangeAdapter {
+  const fetchCandlePage = async (symbol: string, interval: CandleInterval, count: number, to?: number) => {
+    const toQuery = to === undefined ? "" : `&to=${encodeURIComponent(new Date(to * 1000).toISOString())}`;
+    const rows = await fetchJson<KstCandleRow[]>(
+      `${API_BASE_URL}/candles/${getKstCandleEndpoint(interval)}?market=KRW-${symbol}&count=${count}${toQuery}`,
+    );
+    if (!Array.isArray(rows)) {
+      throw new Error("Unexpected Upbit candle response");
+    }
+
+    return normalizeKstCandleRows(rows);
+  };
+
+  return {
+    id: "upbit",
+
+    fetchTickers: async () => {
+      const rows = await fetchJson<TickerRow[]>(`${API_BASE_URL}/ticker/all?quote_currencies=KRW`);
+      if (!Array.isArray(rows)) {
+        throw new Error("Upbit ticker API error");
+      }
+
+      const tickers = new Map<string, TickerQuote>();
+      for (const row of rows) {
+        tickers.set(row.market.replace("KRW-", ""), {
+          price: Number(row.trade_price),
+          changeRate: Number(row.signed_change_rate),
+          tradeValue24h: Number(row.acc_trade_price_24h),
+        });
+      }
+
+      return tickers;
+    },
+
+    fetchMarketMetadata: async () => toMarketMetadata(await fetchJson<KrwMarketRow[]>(`${API_BASE_URL}/market/all`)),
+
+    fetchCandleHistory: async (symbol, interval) => {
+      let history: ChartCandle[] = [];
+
+      for (let page = 0; page < HISTORY_PAGE_LIMIT[interval]; page += 1) {
+        const candles = await fetchCandlePage(symbol, interval, MAX_TAIL_FETCH_BARS, history[0]?.time);
+        history = [...candles.filter((candle) => candle.time < (history[0]?.time ?? Infinity)), ...history];
+        if (candles.length < MAX_TAIL_FETCH_BARS) {
+          break;
+        }
+      }
+
+      return history.length > 0 ? history : null;
+    },
+
+    fetchRecentCandles: (symbol, interval, count) => fetchCandlePage(symbol, interval, count),
+
+    // Each unit pairs the n-th best bid with the n-th best ask.
+    fetchOrderbook: async (symbol) => {
+      const rows = await fetchJson<OrderbookRow[]>(`${API_BASE_URL}/orderbook?markets=KRW-${symbol}`);
+      if (!Array.isArray(rows) || rows.length === 0) {
+        return null;
+      }
+
+      const units = rows[0].orderbook_units;
+      return {
+        bids: units.map((unit) => ({ price: Number(unit.bid_price), quantity: Number(unit.bid_size) })),
+        asks: units.map((unit) => ({ price: Number(unit.ask_price), quantity: Number(unit.ask_size) })),
+      };
+    },
+  };
+}
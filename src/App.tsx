@@ -1,38 +1,68 @@
-import { lazy, Suspense, useDeferredValue, useEffect, useRef, useState } from "react";
-import { Coins, Download, RefreshCw, Search, TrendingDown, TrendingUp } from "lucide-react";
+import { lazy, Suspense, useDeferredValue, useEffect, useRef, useState, type FC } from "react";
+import { Coins, Download, LayoutGrid, List, Pencil, Plus, RefreshCw, Search, TrendingDown, TrendingUp } from "lucide-react";
 import { AnimatePresence } from "motion/react";
-import { CONDITIONS, DEFAULT_CONDITION_ID, SCREENER_BOOTSTRAP } from "./conditions";
+import {
+  CONDITIONS,
+  DEFAULT_CONDITION_ID,
+  isRuleCondition,
+  SCREENER_BOOTSTRAP,
+  type ConditionMeta,
+  type CustomConditionInput,
+} from "./conditions";
+import { DEFAULT_EXCHANGE_ID, EXCHANGES, type ExchangeId } from "./config/exchanges";
+import { INDICATOR_COLUMNS, isIndicatorColumnKey, type IndicatorColumnKey } from "./config/indicatorColumns";
+import { AlertToggle } from "./components/AlertToggle";
 import { ConditionCard } from "./components/ConditionCard";
+import { ConditionMatrixView } from "./components/ConditionMatrixView";
+import { CustomConditionBuilder } from "./components/CustomConditionBuilder";
+import { IndicatorColumnPicker } from "./components/IndicatorColumnPicker";
 import { LoadingBanner } from "./components/LoadingBanner";
 import { LoadingSkeleton } from "./components/LoadingSkeleton";
+import { NearMissSection } from "./components/NearMissSection";
 import { ResultRow } from "./components/ResultRow";
 import {
   clearChartCache,
   clearConditionCache,
+  deleteCustomCondition,
   filterAndSortData,
+  getResultGridStyle,
   requestAssetChartData,
   readCachedConditionData,
   readFavorites,
+  readIndicatorColumns,
   requestConditionData,
+  requestConditionMatrix,
+  subscribeScanProgress,
+  requestConditionPerformance,
+  requestConditionRegistry,
+  saveCustomCondition,
   writeFavorites,
+  writeIndicatorColumns,
 } from "./lib/screenerClient";
-import type { AssetChartData, ChartFrameScope, LoadingState, SortConfig, SortDirection, CryptoData } from "./types";
+import type {
+  AssetChartData,
+  ChartFrameScope,
+  ConditionMatrix,
+  ConditionMatrixGroup,
+  ConditionPerformance,
+  LoadingState,
+  NearMiss,
+  ScanProgress,
+  SortConfig,
+  SortDirection,
+  CryptoData,
+} from "./types";
 
 const AssetChartsPanel = lazy(() =>
   import("./components/AssetChartsPanel").then((module) => ({ default: module.AssetChartsPanel })),
 );
 
-function SortButton({
-  label,
-  column,
-  sortConfig,
-  onSort,
-}: {
+const SortButton: FC<{
   label: string;
   column: keyof CryptoData;
   sortConfig: SortConfig;
   onSort: (key: keyof CryptoData) => void;
-}) {
+}> = ({ label, column, sortConfig, onSort }) => {
   const isActive = sortConfig.key === column;
 
   return (
@@ -49,31 +79,47 @@ function SortButton({
       )}
     </button>
   );
-}
+};
 
 export default function App() {
   const [data, setData] = useState<CryptoData[]>([]);
+  const [nearMisses, setNearMisses] = useState<NearMiss[]>([]);
+  const [viewMode, setViewMode] = useState<"list" | "matrix">("list");
+  const [matrix, setMatrix] = useState<ConditionMatrix | null>(null);
+  const [matrixGroup, setMatrixGroup] = useState<ConditionMatrixGroup>("all");
+  const [matrixLoading, setMatrixLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCondition, setSelectedCondition] = useState(DEFAULT_CONDITION_ID);
-  const [favorites, setFavorites] = useState<string[]>([]);
+  const [selectedExchange, setSelectedExchange] = useState<ExchangeId>(DEFAULT_EXCHANGE_ID);
+  const [customConditions, setCustomConditions] = useState<ConditionMeta[]>([]);
+  const [conditionPerformance, setConditionPerformance] = useState<ConditionPerformance[]>([]);
+  const [builderMode, setBuilderMode] = useState<"new" | "edit" | null>(null);
+  // Read up front so AlertToggle does not take the initial load for a favorites change.
+  const [favorites, setFavorites] = useState<string[]>(readFavorites);
   const [loadingState, setLoadingState] = useState<LoadingState>("idle");
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [selectedMarket, setSelectedMarket] = useState<string | null>(null);
   const [chartData, setChartData] = useState<AssetChartData | null>(null);
   const [chartLoading, setChartLoading] = useState(false);
   const [chartErrorMessage, setChartErrorMessage] = useState<string | null>(null);
   const [sortConfig, setSortConfig] = useState<SortConfig>({
-    key: null,
+    key: "score",
     direction: "desc",
   });
+  const [indicatorColumnKeys, setIndicatorColumnKeys] = useState<IndicatorColumnKey[]>([]);
 
   const deferredSearchTerm = useDeferredValue(searchTerm);
   const selectedMarketRef = useRef<string | null>(null);
-  const selectedConditionMeta = CONDITIONS.find((condition) => condition.id === selectedCondition) ?? CONDITIONS[0];
+  const conditions = [...CONDITIONS, ...customConditions];
+  const selectedConditionMeta = conditions.find((condition) => condition.id === selectedCondition) ?? CONDITIONS[0];
   const isLoading = loadingState !== "idle";
 
-  const selectedAsset = data.find((item) => item.market === selectedMarket) ?? null;
+  const matrixRows = matrix ? filterAndSortData(matrix.rows, deferredSearchTerm, { key: null, direction: "desc" }) : [];
+  // The chart panel follows whichever list is on screen.
+  const listedAssets: CryptoData[] = viewMode === "matrix" ? (matrix?.rows ?? []) : data;
+  const selectedAsset = listedAssets.find((item) => item.market === selectedMarket) ?? null;
 
   const fetchChartData = async (market: string, forceRefresh = false, frameScope: ChartFrameScope = "all") => {
     selectedMarketRef.current = market;
@@ -81,7 +127,7 @@ export default function App() {
     setChartLoading(true);
 
     try {
-      const result = await requestAssetChartData(market, forceRefresh, frameScope);
+      const result = await requestAssetChartData(selectedExchange, market, forceRefresh, frameScope);
       if (selectedMarketRef.current !== market) {
         return;
       }
@@ -98,53 +144,107 @@ export default function App() {
     }
   };
 
+  const fetchMatrix = async (forceRefresh = false) => {
+    setMatrixLoading(true);
+    try {
+      setMatrix(await requestConditionMatrix(selectedExchange, matrixGroup, forceRefresh));
+    } finally {
+      setMatrixLoading(false);
+    }
+  };
+
+  const fetchConditionPerformance = async () => {
+    const result = await requestConditionPerformance(selectedExchange);
+    if (result) {
+      setConditionPerformance(result);
+    }
+  };
+
   const fetchData = async (forceRefresh = false) => {
     setErrorMessage(null);
 
     if (!forceRefresh) {
-      const cachedData = readCachedConditionData(selectedCondition);
+      const cachedData = readCachedConditionData(selectedExchange, selectedCondition);
       if (cachedData) {
         setData(cachedData.data);
+        // Session entries cached before near misses existed have no list.
+        setNearMisses(cachedData.nearMisses ?? []);
         setLastUpdated(cachedData.lastUpdated);
         return;
       }
     }
 
     setLoadingState(forceRefresh ? "refreshing" : "loading");
+    const scanStartedAt = Date.now();
+    // Composites wait on both scan groups, so they follow both progress streams.
+    const progressGroups: ScanProgress["group"][] =
+      selectedConditionMeta.group === "composite" ? ["fourHour", "daily"] : [selectedConditionMeta.group];
+    const closeProgressStreams = progressGroups.map((group) =>
+      subscribeScanProgress(selectedExchange, group, (progress) => {
+        // A snapshot from an earlier, finished scan is replayed on connect; only show the running one.
+        if (progress.finishedAt === null || progress.startedAt >= scanStartedAt) {
+          setScanProgress(progress);
+        }
+      }),
+    );
 
     try {
-      const result = await requestConditionData(selectedCondition, forceRefresh);
+      const result = await requestConditionData(selectedExchange, selectedCondition, forceRefresh);
       if (!result) {
         setErrorMessage("조건 데이터를 가져오지 못했습니다. 잠시 후 다시 시도해 주세요.");
         return;
       }
 
       setData(result.data);
+      setNearMisses(result.nearMisses ?? []);
       setLastUpdated(result.lastUpdated);
+      void fetchConditionPerformance();
     } finally {
+      closeProgressStreams.forEach((closeProgressStream) => closeProgressStream());
+      setScanProgress(null);
       setLoadingState("idle");
     }
   };
 
   useEffect(() => {
     void fetchData();
+  }, [selectedCondition, selectedExchange]);
+
+  useEffect(() => {
+    if (viewMode === "matrix") {
+      void fetchMatrix();
+    }
+  }, [viewMode, matrixGroup, selectedExchange]);
+
+  useEffect(() => {
+    setIndicatorColumnKeys(readIndicatorColumns(selectedCondition));
   }, [selectedCondition]);
 
   useEffect(() => {
-    setFavorites(readFavorites());
+    void requestConditionRegistry().then((registry) => {
+      if (registry) {
+        setCustomConditions(registry.filter((condition) => condition.custom));
+      }
+    });
   }, []);
 
   useEffect(() => {
-    if (data.length === 0) {
+    // Performance is tracked per exchange; clear the badges so another venue's numbers never linger.
+    setConditionPerformance([]);
+    void fetchConditionPerformance();
+  }, [selectedExchange]);
+
+  useEffect(() => {
+    if (listedAssets.length === 0) {
       setSelectedMarket(null);
       setChartData(null);
       return;
     }
 
-    if (!selectedMarket || !data.some((item) => item.market === selectedMarket)) {
-      setSelectedMarket(data[0].market);
+    if (!selectedMarket || !listedAssets.some((item) => item.market === selectedMarket)) {
+      setSelectedMarket(listedAssets[0].market);
     }
-  }, [data, selectedMarket]);
+  }, [listedAssets, selectedMarket]);
 
   useEffect(() => {
     selectedMarketRef.current = selectedMarket;
@@ -158,20 +258,50 @@ export default function App() {
     }
 
     void fetchChartData(selectedMarket);
-  }, [selectedMarket]);
+  }, [selectedMarket, selectedExchange]);
 
   const handleReload = () => {
-    clearConditionCache(CONDITIONS.map((condition) => condition.id));
-    clearChartCache(selectedMarket ?? undefined);
+    clearConditionCache(conditions.map((condition) => condition.id), selectedExchange);
+    clearChartCache(selectedExchange, selectedMarket ?? undefined);
     void fetchData(true);
+    if (viewMode === "matrix") {
+      void fetchMatrix(true);
+    }
     if (selectedMarket) {
       void fetchChartData(selectedMarket, true, "all");
     }
   };
 
+  const handleSaveCustomCondition = async (input: CustomConditionInput, conditionId?: number) => {
+    const savedCondition = await saveCustomCondition(input, conditionId);
+    setCustomConditions((previous) =>
+      conditionId
+        ? previous.map((condition) => (condition.id === conditionId ? savedCondition : condition))
+        : [...previous, savedCondition],
+    );
+    clearConditionCache(conditions.map((condition) => condition.id));
+    setBuilderMode(null);
+
+    if (savedCondition.id === selectedCondition) {
+      void fetchData();
+    } else {
+      setSelectedCondition(savedCondition.id);
+    }
+  };
+
+  const handleDeleteCustomCondition = async (conditionId: number) => {
+    await deleteCustomCondition(conditionId);
+    setCustomConditions((previous) => previous.filter((condition) => condition.id !== conditionId));
+    clearConditionCache([conditionId]);
+    setBuilderMode(null);
+    if (selectedCondition === conditionId) {
+      setSelectedCondition(DEFAULT_CONDITION_ID);
+    }
+  };
+
   const handleSort = (key: keyof CryptoData) => {
     const nextDirection: SortDirection =
-      sortConfig.key === key && sortConfig.direction === "desc" ? "asc" : "desc";
+      activeSortConfig.key === key && activeSortConfig.direction === "desc" ? "asc" : "desc";
     setSortConfig({ key, direction: nextDirection });
   };
 
@@ -184,7 +314,22 @@ export default function App() {
     writeFavorites(nextFavorites);
   };
 
-  const sortedData = filterAndSortData(data, deferredSearchTerm, sortConfig);
+  const toggleIndicatorColumn = (key: IndicatorColumnKey) => {
+    const nextKeys = indicatorColumnKeys.includes(key)
+      ? indicatorColumnKeys.filter((item) => item !== key)
+      : [...indicatorColumnKeys, key];
+
+    setIndicatorColumnKeys(nextKeys);
+    writeIndicatorColumns(selectedCondition, nextKeys);
+  };
+
+  const indicatorColumns = INDICATOR_COLUMNS.filter((column) => indicatorColumnKeys.includes(column.key));
+  // Sorting by a column that is hidden (removed, or not chosen for this condition) falls back to the score.
+  const activeSortConfig: SortConfig =
+    sortConfig.key && isIndicatorColumnKey(sortConfig.key) && !indicatorColumnKeys.includes(sortConfig.key)
+      ? { key: "score", direction: "desc" }
+      : sortConfig;
+  const sortedData = filterAndSortData(data, deferredSearchTerm, activeSortConfig);
   const favoriteItems = sortedData.filter((item) => favorites.includes(item.market));
   const otherItems = sortedData.filter((item) => !favorites.includes(item.market));
 
@@ -212,12 +357,29 @@ export default function App() {
               </h1>
             </div>
 
-            <div className="rounded-full border border-white/12 bg-white/8 px-4 py-2 text-right">
-              <div className="text-[10px] font-semibold uppercase tracking-[0.24em] text-white/52">
-                Last Sync
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex rounded-full border border-white/12 bg-white/8 p-1">
+                {EXCHANGES.map((exchange) => (
+                  <button
+                    key={exchange.id}
+                    type="button"
+                    onClick={() => setSelectedExchange(exchange.id)}
+                    className={`cursor-pointer rounded-full px-4 py-2 text-[11px] font-semibold uppercase tracking-[0.2em] transition-colors ${
+                      selectedExchange === exchange.id ? "bg-[#F8F2E8] text-[#141414]" : "text-white/62 hover:text-white"
+                    }`}
+                  >
+                    {exchange.label}
+                  </button>
+                ))}
               </div>
-              <div className="mt-1 text-sm font-semibold tracking-[0.01em] text-white/88">
-                {lastUpdated || "Never"}
+
+              <div className="rounded-full border border-white/12 bg-white/8 px-4 py-2 text-right">
+                <div className="text-[10px] font-semibold uppercase tracking-[0.24em] text-white/52">
+                  Last Sync
+                </div>
+                <div className="mt-1 text-sm font-semibold tracking-[0.01em] text-white/88">
+                  {lastUpdated || "Never"}
+                </div>
               </div>
             </div>
           </div>
@@ -238,15 +400,53 @@ export default function App() {
             </div>
 
             <div className="grid gap-3">
-              {CONDITIONS.map((condition) => (
+              {conditions.map((condition) => (
                 <ConditionCard
                   key={condition.id}
                   condition={condition}
                   isActive={selectedCondition === condition.id}
+                  performance={conditionPerformance.find((item) => item.conditionId === condition.id)}
                   onSelect={setSelectedCondition}
                 />
               ))}
             </div>
+
+            <div className="mt-4 grid gap-3 border-t border-[#141414]/8 pt-4">
+              {builderMode ? (
+                <CustomConditionBuilder
+                  key={builderMode === "edit" ? selectedConditionMeta.id : "new"}
+                  editingCondition={
+                    builderMode === "edit" && selectedConditionMeta.custom && isRuleCondition(selectedConditionMeta)
+                      ? selectedConditionMeta
+                      : null
+                  }
+                  onSave={handleSaveCustomCondition}
+                  onDelete={handleDeleteCustomCondition}
+                  onClose={() => setBuilderMode(null)}
+                />
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setBuilderMode("new")}
+                    className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-[#141414]/14 bg-white/75 px-4 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[#141414] transition-all hover:border-[#141414]/35 hover:bg-white"
+                  >
+                    <Plus className="h-3.5 w-3.5" />
+                    커스텀 조건
+                  </button>
+                  {selectedConditionMeta.custom && (
+                    <button
+                      type="button"
+                      onClick={() => setBuilderMode("edit")}
+                      className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-[#5B6B2F]/30 bg-white/75 px-4 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[#5B6B2F] transition-all hover:bg-white"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                      선택 조건 편집
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
           </section>
 
           <section className="flex flex-col rounded-[32px] border border-[#141414]/10 bg-[#FBF8F2]/92 shadow-[0_18px_60px_rgba(20,20,20,0.06)] xl:h-[calc(100vh-9rem)] xl:overflow-hidden">
@@ -303,6 +503,30 @@ export default function App() {
                     <Download className="h-4 w-4" />
                     <span className="text-sm font-semibold uppercase tracking-[0.16em]">Export CSV</span>
                   </a>
+                  <AlertToggle exchange={selectedExchange} conditionId={selectedCondition} favorites={favorites} />
+                  {viewMode === "list" && (
+                    <IndicatorColumnPicker selectedKeys={indicatorColumnKeys} onToggle={toggleIndicatorColumn} />
+                  )}
+                  <div className="flex rounded-full border border-[#141414]/14 bg-white/75 p-1">
+                    {(
+                      [
+                        { id: "list", label: "List", Icon: List },
+                        { id: "matrix", label: "Matrix", Icon: LayoutGrid },
+                      ] as const
+                    ).map(({ id, label, Icon }) => (
+                      <button
+                        key={id}
+                        type="button"
+                        onClick={() => setViewMode(id)}
+                        className={`flex cursor-pointer items-center gap-2 rounded-full px-4 py-2 transition-colors ${
+                          viewMode === id ? "bg-[#141414] text-[#F8F2E8]" : "text-[#141414]/60 hover:text-[#141414]"
+                        }`}
+                      >
+                        <Icon className="h-4 w-4" />
+                        <span className="text-xs font-semibold uppercase tracking-[0.16em]">{label}</span>
+                      </button>
+                    ))}
+                  </div>
                 </div>
               </div>
             </div>
@@ -313,7 +537,9 @@ export default function App() {
                   key={loadingState}
                   loadingState={loadingState}
                   selectedCondition={selectedConditionMeta}
+                  exchangeLabel={EXCHANGES.find((exchange) => exchange.id === selectedExchange)?.label ?? selectedExchange}
                   hasData={data.length > 0}
+                  progress={scanProgress}
                 />
               </AnimatePresence>
 
@@ -346,74 +572,94 @@ export default function App() {
                 </div>
               )}
 
-              {isLoading && data.length === 0 ? (
-                <div className="mt-4">
-                  <LoadingSkeleton />
-                </div>
+              {viewMode === "matrix" ? (
+                <ConditionMatrixView
+                  matrix={matrix}
+                  rows={matrixRows}
+                  group={matrixGroup}
+                  loading={matrixLoading}
+                  selectedMarket={selectedMarket}
+                  onGroupChange={setMatrixGroup}
+                  onSelect={setSelectedMarket}
+                />
               ) : (
-                <div className="mt-4 overflow-hidden rounded-[28px] border border-[#141414]/10 bg-white/65">
-                  <div className="grid grid-cols-12 gap-4 border-b border-[#141414]/8 px-5 py-4">
-                    <div className="col-header col-span-1">#</div>
-                    <div className="col-header col-span-4">Asset</div>
-                    <SortButton label="Price (KRW)" column="price" sortConfig={sortConfig} onSort={handleSort} />
-                    <SortButton label="24h Change" column="change" sortConfig={sortConfig} onSort={handleSort} />
-                    <button
-                      type="button"
-                      onClick={() => handleSort("volume")}
-                      className="col-header col-span-3 cursor-pointer text-right transition-opacity hover:opacity-100"
-                    >
-                      Volume (24h){" "}
-                      {sortConfig.key === "volume" ? (
-                        sortConfig.direction === "asc" ? <TrendingUp className="inline-block h-3 w-3" /> : <TrendingDown className="inline-block h-3 w-3" />
-                      ) : (
-                        <span className="inline-block h-3 w-3 opacity-20" />
-                      )}
-                    </button>
-                  </div>
+                <>
+                  {isLoading && data.length === 0 ? (
+                    <div className="mt-4">
+                      <LoadingSkeleton />
+                    </div>
+                  ) : (
+                    <div className="mt-4 overflow-x-auto rounded-[28px] border border-[#141414]/10 bg-white/65">
+                      <div
+                        className="grid grid-cols-12 gap-4 border-b border-[#141414]/8 px-5 py-4"
+                        style={getResultGridStyle(indicatorColumns.length)}
+                      >
+                        <div className="col-header col-span-1">#</div>
+                        <div className="col-header col-span-3">Asset</div>
+                        <SortButton label="Score" column="score" sortConfig={activeSortConfig} onSort={handleSort} />
+                        <SortButton label="Price (KRW)" column="price" sortConfig={activeSortConfig} onSort={handleSort} />
+                        <SortButton label="24h Change" column="change" sortConfig={activeSortConfig} onSort={handleSort} />
+                        <SortButton label="Volume (24h)" column="volume" sortConfig={activeSortConfig} onSort={handleSort} />
+                        {indicatorColumns.map((column) => (
+                          <SortButton
+                            key={column.key}
+                            label={column.label}
+                            column={column.key}
+                            sortConfig={activeSortConfig}
+                            onSort={handleSort}
+                          />
+                        ))}
+                      </div>
 
-                  <div className="divide-y divide-[#141414]/8">
-                    <AnimatePresence mode="popLayout">
-                      {favoriteItems.map((item, index) => (
-                        <ResultRow
-                          key={item.market}
-                          item={item}
-                          index={index}
-                          highlighted
-                          isFavorite={favorites.includes(item.market)}
-                          isSelected={selectedMarket === item.market}
-                          onSelect={(asset) => setSelectedMarket(asset.market)}
-                          onToggleFavorite={toggleFavorite}
-                        />
-                      ))}
-                      {otherItems.map((item, index) => (
-                        <ResultRow
-                          key={item.market}
-                          item={item}
-                          index={favoriteItems.length + index}
-                          highlighted={false}
-                          isFavorite={favorites.includes(item.market)}
-                          isSelected={selectedMarket === item.market}
-                          onSelect={(asset) => setSelectedMarket(asset.market)}
-                          onToggleFavorite={toggleFavorite}
-                        />
-                      ))}
-                    </AnimatePresence>
-
-                    {sortedData.length === 0 && !isLoading && (
-                      <div className="px-6 py-20 text-center">
-                        <div className="text-[10px] font-semibold uppercase tracking-[0.24em] text-[#141414]/36">
-                          Empty Result
-                        </div>
-                        <div className="mt-3 text-3xl font-semibold tracking-[-0.04em] text-[#141414]/72">
-                          조건에 맞는 종목이 없습니다.
-                        </div>
-                        <div className="mt-3 text-sm leading-7 text-[#141414]/52">
-                          검색어를 비우거나 다른 조건으로 전환해 보세요.
-                        </div>
+                      <div className="divide-y divide-[#141414]/8">
+                        <AnimatePresence mode="popLayout">
+                          {favoriteItems.map((item, index) => (
+                            <ResultRow
+                              key={item.market}
+                              item={item}
+                              index={index}
+                              highlighted
+                              isFavorite={favorites.includes(item.market)}
+                              isSelected={selectedMarket === item.market}
+                              columns={indicatorColumns}
+                              onSelect={(asset) => setSelectedMarket(asset.market)}
+                              onToggleFavorite={toggleFavorite}
+                            />
+                          ))}
+                          {otherItems.map((item, index) => (
+                            <ResultRow
+                              key={item.market}
+                              item={item}
+                              index={favoriteItems.length + index}
+                              highlighted={false}
+                              isFavorite={favorites.includes(item.market)}
+                              isSelected={selectedMarket === item.market}
+                              columns={indicatorColumns}
+                              onSelect={(asset) => setSelectedMarket(asset.market)}
+                              onToggleFavorite={toggleFavorite}
+                            />
+                          ))}
+                        </AnimatePresence>
+
+                        {sortedData.length === 0 && !isLoading && (
+                          <div className="px-6 py-20 text-center">
+                            <div className="text-[10px] font-semibold uppercase tracking-[0.24em] text-[#141414]/36">
+                              Empty Result
+                            </div>
+                            <div className="mt-3 text-3xl font-semibold tracking-[-0.04em] text-[#141414]/72">
+                              조건에 맞는 종목이 없습니다.
+                            </div>
+                            <div className="mt-3 text-sm leading-7 text-[#141414]/52">
+                              검색어를 비우거나 다른 조건으로 전환해 보세요.
+                            </div>
+                          </div>
+                        )}
                       </div>
-                    )}
-                  </div>
-                </div>
+                    </div>
+                  )}
+
+                  <NearMissSection nearMisses={nearMisses} />
+                </>
               )}
             </div>
           </section>
@@ -425,13 +671,15 @@ export default function App() {
               }
             >
               <AssetChartsPanel
+                exchange={selectedExchange}
+                conditionId={selectedCondition}
                 selectedAsset={selectedAsset}
                 chartData={chartData}
                 loading={chartLoading}
                 errorMessage={chartErrorMessage}
                 onReload={() => {
                   if (selectedMarket) {
-                    clearChartCache(selectedMarket);
+                    clearChartCache(selectedExchange, selectedMarket);
                     void fetchChartData(selectedMarket, true, "all");
                   }
                 }}
@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState, type FC } from "react";
+import { Bell, BellOff } from "lucide-react";
+import type { ExchangeId } from "../config/exchanges";
+import { deleteAlertRule, requestAlertRules, saveAlertRule } from "../lib/screenerClient";
+import type { AlertRule } from "../types";
+
+// Favorites only live in the browser session, so a favorites rule stores the list on the server and
+// is rewritten here whenever the user changes favorites. A new session with no favorites yet leaves
+// the stored list alone.
+export const AlertToggle: FC<{
+  exchange: ExchangeId;
+  conditionId: number;
+  favorites: string[];
+}> = ({ exchange, conditionId, favorites }) => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [webhookCount, setWebhookCount] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const syncedFavoritesRef = useRef(favorites);
+
+  useEffect(() => {
+    void requestAlertRules().then((result) => {
+      if (result) {
+        setRules(result.rules);
+        setWebhookCount(result.webhookCount);
+      }
+    });
+  }, []);
+
+  const activeRule = rules.find((rule) => rule.conditionId === conditionId && (rule.exchange === null || rule.exchange === exchange));
+
+  const runUpdate = async (update: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await update();
+    } catch (error) {
+      console.error("Failed to update alert rule:", error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    if (syncedFavoritesRef.current === favorites) {
+      return;
+    }
+
+    syncedFavoritesRef.current = favorites;
+    const staleRules = rules.filter(
+      (rule) => rule.followsFavorites && (rule.markets?.join(",") ?? "") !== favorites.join(","),
+    );
+    if (staleRules.length === 0) {
+      return;
+    }
+
+    void runUpdate(async () => {
+      const updatedRules = await Promise.all(
+        staleRules.map((rule) =>
+          saveAlertRule(
+            { conditionId: rule.conditionId, exchange: rule.exchange, markets: favorites, followsFavorites: true },
+            rule.id,
+          ),
+        ),
+      );
+      setRules((previous) =>
+        previous.map((rule) => updatedRules.find((updatedRule) => updatedRule.id === rule.id) ?? rule),
+      );
+    });
+  }, [favorites]);
+
+  const buttonClassName =
+    "flex cursor-pointer items-center gap-2 rounded-full border border-[#141414]/14 bg-white/75 px-4 py-3 text-[#141414] transition-all hover:border-[#141414]/35 hover:bg-white disabled:cursor-wait disabled:opacity-55";
+
+  if (activeRule) {
+    return (
+      <button
+        type="button"
+        disabled={busy}
+        onClick={() =>
+          void runUpdate(async () => {
+            await deleteAlertRule(activeRule.id);
+            setRules((previous) => previous.filter((rule) => rule.id !== activeRule.id));
+          })
+        }
+        className={buttonClassName}
+        title={webhookCount === 0 ? "ALERT_WEBHOOK_URLS 가 비어 있어 전송되지 않습니다." : "알림 끄기"}
+      >
+        <BellOff className="h-4 w-4" />
+        <span className="text-sm font-semibold uppercase tracking-[0.16em]">
+          {activeRule.markets ? `알림 · 즐겨찾기 ${activeRule.markets.length}` : "알림 · 전체"}
+        </span>
+      </button>
+    );
+  }
+
+  return (
+    <>
+      {[
+        { label: "알림 · 전체", markets: null },
+        { label: `알림 · 즐겨찾기 ${favorites.length}`, markets: favorites },
+      ].map((option) => (
+        <button
+          key={option.label}
+          type="button"
+          disabled={busy || (option.markets !== null && option.markets.length === 0)}
+          onClick={() =>
+            void runUpdate(async () => {
+              const rule = await saveAlertRule({
+                conditionId,
+                exchange,
+                markets: option.markets,
+                followsFavorites: option.markets !== null,
+              });
+              setRules((previous) => [...previous, rule]);
+            })
+          }
+          className={buttonClassName}
+        >
+          <Bell className="h-4 w-4" />
+          <span className="text-sm font-semibold uppercase tracking-[0.16em]">{option.label}</span>
+        </button>
+      ))}
+    </>
+  );
+};
@@ -1,7 +1,31 @@
-import { useEffect, useState } from "react";
-import { CandlestickSeries, ColorType, createChart, LineSeries, PriceScaleMode, type Time } from "lightweight-charts";
-import { BarChart3, Clock3, RefreshCw } from "lucide-react";
-import type { AssetChartData, ChartCandle, ChartFrameData, ChartFrameScope, ChartFrameState, ChartLinePoint, CryptoData } from "../types";
+import { useEffect, useState, type FC } from "react";
+import {
+  CandlestickSeries,
+  ColorType,
+  createChart,
+  createSeriesMarkers,
+  HistogramSeries,
+  LineSeries,
+  LineStyle,
+  PriceScaleMode,
+  type IChartApi,
+  type Time,
+} from "lightweight-charts";
+import { BarChart3, Check, Clock3, ListChecks, RefreshCw, X } from "lucide-react";
+import type { ExchangeId } from "../config/exchanges";
+import { requestConditionExplanation } from "../lib/screenerClient";
+import { OrderbookDepthCard } from "./OrderbookDepthCard";
+import type {
+  AssetChartData,
+  ChartCandle,
+  ChartFrameData,
+  ChartFrameScope,
+  ChartFrameState,
+  ChartLinePoint,
+  ConditionCheck,
+  ConditionExplanation,
+  CryptoData,
+} from "../types";
 
 const MOVING_AVERAGE_ORDER = ["ma20", "ma30", "ma60", "ma120", "ma240"] as const;
 const MOVING_AVERAGE_LABELS: Record<(typeof MOVING_AVERAGE_ORDER)[number], string> = {
@@ -19,6 +43,34 @@ const MOVING_AVERAGE_COLORS: Record<(typeof MOVING_AVERAGE_ORDER)[number], strin
   ma240: "#2563EB",
 };
 
+type ChartIndicatorId = "ema" | "bollinger" | "macd" | "adx" | "atr";
+
+// Overlays draw on the price pane; the rest each get a sub-pane below it, in this order.
+const CHART_INDICATORS: { id: ChartIndicatorId; label: string; overlay: boolean }[] = [
+  { id: "ema", label: "EMA 20·50·100", overlay: true },
+  { id: "bollinger", label: "Bollinger 20, 2σ", overlay: true },
+  { id: "macd", label: "MACD 12·26·9", overlay: false },
+  { id: "adx", label: "ADX 14", overlay: false },
+  { id: "atr", label: "ATR 14", overlay: false },
+];
+const EMA_COLORS: Record<string, string> = {
+  ema20: "#9333EA",
+  ema50: "#0891B2",
+  ema100: "#475569",
+};
+const PRICE_PANE_HEIGHT = 300;
+const VOLUME_PANE_HEIGHT = 90;
+const SUB_PANE_HEIGHT = 110;
+// Volume always sits directly under the price pane; indicator sub-panes follow it.
+const VOLUME_PANE_INDEX = 1;
+const UP_COLOR = "#C65A2E";
+const DOWN_COLOR = "#295A52";
+const VOLUME_INFLOW_COLOR = "#D97706";
+
+function countSubPanes(indicators: ChartIndicatorId[]) {
+  return CHART_INDICATORS.filter((indicator) => !indicator.overlay && indicators.includes(indicator.id)).length;
+}
+
 function formatPrice(value: number) {
   const minimumFractionDigits = value >= 100 ? 0 : value >= 1 ? 2 : 4;
   return value.toLocaleString("ko-KR", {
@@ -44,7 +96,106 @@ function mapLineData(points: ChartLinePoint[]) {
   }));
 }
 
-function usePriceChart(frame: ChartFrameData | null, element: HTMLDivElement | null) {
+function addIndicatorLine(
+  chart: IChartApi,
+  points: ChartLinePoint[],
+  color: string,
+  paneIndex = 0,
+  lineStyle: LineStyle = LineStyle.Solid,
+) {
+  const lineSeries = chart.addSeries(
+    LineSeries,
+    {
+      color,
+      lineWidth: 1,
+      lineStyle,
+      priceLineVisible: false,
+      lastValueVisible: false,
+      crosshairMarkerVisible: false,
+    },
+    paneIndex,
+  );
+  lineSeries.setData(mapLineData(points));
+}
+
+// Bars in volumeInflowTimes (bullish, volume over the entry profile's inflow ratio) are drawn solid.
+function addVolumeSeries(chart: IChartApi, frame: ChartFrameData) {
+  const inflowTimes = new Set(frame.volumeInflowTimes);
+  const volumeSeries = chart.addSeries(
+    HistogramSeries,
+    { priceFormat: { type: "volume" }, priceLineVisible: false, lastValueVisible: false },
+    VOLUME_PANE_INDEX,
+  );
+  volumeSeries.setData(
+    frame.candles.map((candle) => ({
+      time: candle.time as Time,
+      value: candle.volume,
+      color: inflowTimes.has(candle.time)
+        ? VOLUME_INFLOW_COLOR
+        : candle.close >= candle.open
+          ? "rgba(198,90,46,0.4)"
+          : "rgba(41,90,82,0.4)",
+    })),
+  );
+  chart.priceScale("right", VOLUME_PANE_INDEX).applyOptions({ mode: PriceScaleMode.Normal });
+}
+
+function addIndicatorSeries(chart: IChartApi, frame: ChartFrameData, indicators: ChartIndicatorId[]) {
+  const { ema, bollinger, macd, adx, atr } = frame.indicators;
+  let paneIndex = VOLUME_PANE_INDEX;
+
+  for (const { id } of CHART_INDICATORS.filter((indicator) => indicators.includes(indicator.id))) {
+    switch (id) {
+      case "ema":
+        Object.entries(ema).forEach(([key, points]) => addIndicatorLine(chart, points, EMA_COLORS[key] ?? "#475569"));
+        break;
+      case "bollinger":
+        addIndicatorLine(chart, bollinger.upper, "rgba(20,20,20,0.45)", 0, LineStyle.Dashed);
+        addIndicatorLine(chart, bollinger.middle, "rgba(20,20,20,0.3)", 0, LineStyle.Dotted);
+        addIndicatorLine(chart, bollinger.lower, "rgba(20,20,20,0.45)", 0, LineStyle.Dashed);
+        break;
+      case "macd": {
+        paneIndex += 1;
+        const histogramSeries = chart.addSeries(
+          HistogramSeries,
+          { priceLineVisible: false, lastValueVisible: false },
+          paneIndex,
+        );
+        histogramSeries.setData(
+          macd.histogram.map((point) => ({
+            time: point.time as Time,
+            value: point.value,
+            color: point.value >= 0 ? "rgba(198,90,46,0.55)" : "rgba(41,90,82,0.55)",
+          })),
+        );
+        addIndicatorLine(chart, macd.macd, "#141414", paneIndex);
+        addIndicatorLine(chart, macd.signal, "#C65A2E", paneIndex);
+        break;
+      }
+      case "adx":
+        paneIndex += 1;
+        addIndicatorLine(chart, adx.adx, "#141414", paneIndex);
+        addIndicatorLine(chart, adx.plusDi, "#16A34A", paneIndex);
+        addIndicatorLine(chart, adx.minusDi, "#DC2626", paneIndex);
+        break;
+      case "atr":
+        paneIndex += 1;
+        addIndicatorLine(chart, atr, "#2563EB", paneIndex);
+        break;
+    }
+
+    if (paneIndex > VOLUME_PANE_INDEX) {
+      // The price pane is logarithmic; oscillators can go negative and need a linear scale.
+      chart.priceScale("right", paneIndex).applyOptions({ mode: PriceScaleMode.Normal });
+    }
+  }
+
+  chart.panes().forEach((pane, index) =>
+    pane.setHeight(index === 0 ? PRICE_PANE_HEIGHT : index === VOLUME_PANE_INDEX ? VOLUME_PANE_HEIGHT : SUB_PANE_HEIGHT),
+  );
+}
+
+function usePriceChart(frame: ChartFrameData | null, element: HTMLDivElement | null, indicators: ChartIndicatorId[]) {
   useEffect(() => {
     if (!frame || !element) {
       return;
@@ -96,15 +247,25 @@ function usePriceChart(frame: ChartFrameData | null, element: HTMLDivElement | n
     });
 
     const candleSeries = chart.addSeries(CandlestickSeries, {
-      upColor: "#C65A2E",
-      downColor: "#295A52",
-      wickUpColor: "#C65A2E",
-      wickDownColor: "#295A52",
+      upColor: UP_COLOR,
+      downColor: DOWN_COLOR,
+      wickUpColor: UP_COLOR,
+      wickDownColor: DOWN_COLOR,
       borderVisible: false,
       priceLineVisible: false,
       lastValueVisible: false,
     });
     candleSeries.setData(mapCandles(frame.candles));
+    createSeriesMarkers(
+      candleSeries,
+      frame.volumeInflowTimes.map((time) => ({
+        time: time as Time,
+        position: "belowBar" as const,
+        shape: "arrowUp" as const,
+        color: VOLUME_INFLOW_COLOR,
+        text: "유입",
+      })),
+    );
 
     MOVING_AVERAGE_ORDER.forEach((key) => {
       const seriesData = frame.movingAverages[key];
@@ -122,25 +283,29 @@ function usePriceChart(frame: ChartFrameData | null, element: HTMLDivElement | n
       lineSeries.setData(mapLineData(seriesData));
     });
 
+    addVolumeSeries(chart, frame);
+    addIndicatorSeries(chart, frame, indicators);
     chart.timeScale().fitContent();
 
     return () => {
       chart.remove();
     };
-  }, [frame, element]);
+  }, [frame, element, indicators]);
 }
 
 function ChartFrameCard({
   title,
   frameState,
+  indicators,
   onReload,
 }: {
   title: string;
   frameState: ChartFrameState;
+  indicators: ChartIndicatorId[];
   onReload: () => void;
 }) {
   const [containerElement, setContainerElement] = useState<HTMLDivElement | null>(null);
-  usePriceChart(frameState.frame, containerElement);
+  usePriceChart(frameState.frame, containerElement, indicators);
 
   return (
     <div className="rounded-[28px] border border-[#141414]/10 bg-white/78 p-4 shadow-[0_18px_60px_rgba(20,20,20,0.05)]">
@@ -149,6 +314,19 @@ function ChartFrameCard({
           {title}
         </div>
         <div className="flex items-center gap-2">
+          {frameState.frame?.lastBarInProgress && (
+            <div className="rounded-full border border-[#141414]/10 bg-white/75 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.18em] text-[#141414]/55">
+              진행 중 봉
+            </div>
+          )}
+          {frameState.frame && frameState.frame.gapCount > 0 && (
+            <div
+              className="rounded-full border border-amber-500/20 bg-amber-500/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.18em] text-amber-700"
+              title="원본 캔들에 빠진 구간이 있어 일부 봉이 부분 집계되었습니다."
+            >
+              결측 {frameState.frame.gapCount}
+            </div>
+          )}
           {frameState.stale && (
             <div className="rounded-full border border-amber-500/20 bg-amber-500/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.18em] text-amber-700">
               Cached
@@ -176,7 +354,8 @@ function ChartFrameCard({
       {frameState.frame ? (
         <div
           ref={setContainerElement}
-          className="h-[300px] w-full rounded-[22px] border border-[#141414]/8 bg-[linear-gradient(180deg,_rgba(248,242,232,0.9),_rgba(255,255,255,0.98))]"
+          style={{ height: PRICE_PANE_HEIGHT + VOLUME_PANE_HEIGHT + countSubPanes(indicators) * SUB_PANE_HEIGHT }}
+          className="w-full rounded-[22px] border border-[#141414]/8 bg-[linear-gradient(180deg,_rgba(248,242,232,0.9),_rgba(255,255,255,0.98))]"
         />
       ) : (
         <div className="flex h-[300px] items-center justify-center rounded-[22px] border border-dashed border-[#141414]/14 bg-[linear-gradient(180deg,_rgba(248,242,232,0.9),_rgba(255,255,255,0.98))] px-6 text-center text-sm leading-7 text-[#141414]/58">
@@ -187,7 +366,137 @@ function ChartFrameCard({
   );
 }
 
+const ConditionCheckRow: FC<{ check: ConditionCheck; depth: number }> = ({ check, depth }) => {
+  return (
+    <>
+      <div
+        className="flex items-start justify-between gap-3 border-b border-[#141414]/6 py-2 text-[13px] last:border-b-0"
+        style={{ paddingLeft: depth * 16 }}
+      >
+        <div className="flex min-w-0 items-start gap-2">
+          <span
+            className={`mt-0.5 inline-flex h-4 w-4 shrink-0 items-center justify-center rounded-full ${
+              check.passed ? "bg-emerald-600/12 text-emerald-700" : "bg-rose-500/12 text-rose-600"
+            }`}
+          >
+            {check.passed ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+          </span>
+          <span className={check.children ? "font-semibold text-[#141414]/82" : "text-[#141414]/72"}>{check.label}</span>
+        </div>
+        <div className="shrink-0 text-right font-mono text-[12px]">
+          <div className={check.passed ? "text-[#141414]/78" : "text-rose-600"}>{check.actual ?? "-"}</div>
+          {check.threshold && <div className="text-[#141414]/42">{check.threshold}</div>}
+        </div>
+      </div>
+      {check.children?.map((child, index) => (
+        <ConditionCheckRow key={index} check={child} depth={depth + 1} />
+      ))}
+    </>
+  );
+};
+
+// Fetched on demand only: an explanation re-runs the condition, including the orderbook request.
+function ExplainDrawer({
+  exchange,
+  market,
+  conditionId,
+}: {
+  exchange: ExchangeId;
+  market: string;
+  conditionId: number;
+}) {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [explanation, setExplanation] = useState<ConditionExplanation | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setExplanation(null);
+    setErrorMessage(null);
+  }, [exchange, market, conditionId]);
+
+  useEffect(() => {
+    if (!open || explanation) {
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    requestConditionExplanation(exchange, market, conditionId)
+      .then((result) => {
+        if (!cancelled) {
+          setExplanation(result);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setErrorMessage(error instanceof Error ? error.message : String(error));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, explanation, exchange, market, conditionId]);
+
+  return (
+    <div className="mb-5 rounded-[24px] border border-[#141414]/8 bg-white/72 px-4 py-3">
+      <button
+        type="button"
+        onClick={() => setOpen((previous) => !previous)}
+        className="flex w-full cursor-pointer items-center justify-between gap-3 text-left"
+      >
+        <span className="inline-flex items-center gap-2 text-[11px] font-semibold uppercase tracking-[0.18em] text-[#141414]/62">
+          <ListChecks className="h-3.5 w-3.5" />
+          Explain
+        </span>
+        {explanation && (
+          <span
+            className={`rounded-full px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.18em] ${
+              explanation.passed ? "bg-emerald-600/10 text-emerald-700" : "bg-rose-500/10 text-rose-600"
+            }`}
+          >
+            {explanation.passed ? "편입" : "미편입"}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="mt-3">
+          {loading ? (
+            <div className="py-4 text-sm text-[#141414]/55">조건을 다시 평가하는 중입니다...</div>
+          ) : errorMessage ? (
+            <div className="rounded-[18px] border border-rose-500/25 bg-rose-500/10 px-4 py-3 text-sm text-rose-700">
+              {errorMessage}
+            </div>
+          ) : explanation ? (
+            <>
+              <div className="mb-1 text-[10px] font-semibold uppercase tracking-[0.18em] text-[#141414]/38">스캔 사전 필터</div>
+              {explanation.preFilters.map((check, index) => (
+                <ConditionCheckRow key={index} check={check} depth={0} />
+              ))}
+              <div className="mb-1 mt-4 text-[10px] font-semibold uppercase tracking-[0.18em] text-[#141414]/38">조건 규칙</div>
+              {explanation.checks ? (
+                <ConditionCheckRow check={explanation.checks} depth={0} />
+              ) : (
+                <div className="py-2 text-sm text-[#141414]/55">일봉 데이터가 없어 규칙을 평가하지 못했습니다.</div>
+              )}
+            </>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function AssetChartsPanel({
+  exchange,
+  conditionId,
   selectedAsset,
   chartData,
   loading,
@@ -195,6 +504,8 @@ export function AssetChartsPanel({
   onReload,
   onReloadFrame,
 }: {
+  exchange: ExchangeId;
+  conditionId: number;
   selectedAsset: CryptoData | null;
   chartData: AssetChartData | null;
   loading: boolean;
@@ -202,6 +513,12 @@ export function AssetChartsPanel({
   onReload: () => void;
   onReloadFrame: (frame: ChartFrameScope) => void;
 }) {
+  const [indicators, setIndicators] = useState<ChartIndicatorId[]>([]);
+
+  const toggleIndicator = (id: ChartIndicatorId) => {
+    setIndicators((previous) => (previous.includes(id) ? previous.filter((item) => item !== id) : [...previous, id]));
+  };
+
   if (!selectedAsset) {
     return (
       <div className="rounded-[32px] border border-dashed border-[#141414]/16 bg-[#FBF8F2]/75 p-6 text-[#141414]/62">
@@ -254,6 +571,9 @@ export function AssetChartsPanel({
         </div>
       )}
 
+      <ExplainDrawer exchange={exchange} market={selectedAsset.market} conditionId={conditionId} />
+      <OrderbookDepthCard exchange={exchange} market={selectedAsset.market} />
+
       {loading && !chartData ? (
         <div className="grid gap-4">
           {[1, 2].map((index) => (
@@ -288,12 +608,52 @@ export function AssetChartsPanel({
                   {MOVING_AVERAGE_LABELS[key]}
                 </span>
               ))}
+              <span
+                className="inline-flex items-center gap-2 rounded-full border border-[#141414]/8 bg-[#F8F2E8] px-3 py-1 text-[11px] font-semibold text-[#141414]/72"
+                title="일봉에서 양봉이면서 거래량이 직전 평균 대비 진입 프로필 배수 이상인 봉 (조건 11의 거래량 유입 판정)"
+              >
+                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: VOLUME_INFLOW_COLOR }} />
+                거래량 유입
+              </span>
+            </div>
+            <div className="mb-3 mt-4 text-[10px] font-semibold uppercase tracking-[0.18em] text-[#141414]/38">
+              보조 지표
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {CHART_INDICATORS.map((indicator) => {
+                const isActive = indicators.includes(indicator.id);
+                return (
+                  <button
+                    key={indicator.id}
+                    type="button"
+                    onClick={() => toggleIndicator(indicator.id)}
+                    title={indicator.overlay ? "가격 차트 위에 표시" : "차트 아래 별도 패널에 표시"}
+                    className={`cursor-pointer rounded-full border px-3 py-1 text-[11px] font-semibold transition-colors ${
+                      isActive
+                        ? "border-[#141414] bg-[#141414] text-[#F8F2E8]"
+                        : "border-[#141414]/8 bg-[#F8F2E8] text-[#141414]/72 hover:border-[#141414]/30"
+                    }`}
+                  >
+                    {indicator.label}
+                  </button>
+                );
+              })}
             </div>
           </div>
 
           <div className="grid gap-5">
-            <ChartFrameCard title="일봉 차트" frameState={chartData.daily} onReload={() => onReloadFrame("daily")} />
-            <ChartFrameCard title="4시간봉 차트" frameState={chartData.fourHour} onReload={() => onReloadFrame("fourHour")} />
+            <ChartFrameCard
+              title="일봉 차트"
+              frameState={chartData.daily}
+              indicators={indicators}
+              onReload={() => onReloadFrame("daily")}
+            />
+            <ChartFrameCard
+              title="4시간봉 차트"
+              frameState={chartData.fourHour}
+              indicators={indicators}
+              onReload={() => onReloadFrame("fourHour")}
+            />
           </div>
         </>
       )}
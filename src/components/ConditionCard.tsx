@@ -1,8 +1,20 @@
 import type { FC } from "react";
 import type { ConditionMeta } from "../conditions";
+import type { ConditionPerformance } from "../types";
 
-function getTimeframeAccent(timeframe: string) {
-  switch (timeframe) {
+// 1D is the shortest horizon that spans a full daily bar, so it is the headline live metric.
+const LIVE_HIT_RATE_HORIZON = "1d";
+
+function getConditionAccent(condition: ConditionMeta) {
+  if (condition.custom) {
+    return {
+      badge: "bg-[#5B6B2F] text-white",
+      border: "border-[#5B6B2F]/30",
+      glow: "shadow-[0_20px_60px_rgba(91,107,47,0.18)]",
+    };
+  }
+
+  switch (condition.timeframe) {
     case "4시간봉":
       return {
         badge: "bg-[#C65A2E] text-white",
@@ -15,6 +27,12 @@ function getTimeframeAccent(timeframe: string) {
         border: "border-[#295A52]/30",
         glow: "shadow-[0_20px_60px_rgba(41,90,82,0.16)]",
       };
+    case "복합":
+      return {
+        badge: "bg-[#8A3B5C] text-white",
+        border: "border-[#8A3B5C]/30",
+        glow: "shadow-[0_20px_60px_rgba(138,59,92,0.16)]",
+      };
     case "주봉":
       return {
         badge: "bg-[#4F4A8A] text-white",
@@ -33,9 +51,11 @@ function getTimeframeAccent(timeframe: string) {
 export const ConditionCard: FC<{
   condition: ConditionMeta;
   isActive: boolean;
+  performance?: ConditionPerformance;
   onSelect: (conditionId: number) => void;
-}> = ({ condition, isActive, onSelect }) => {
-  const accent = getTimeframeAccent(condition.timeframe);
+}> = ({ condition, isActive, performance, onSelect }) => {
+  const accent = getConditionAccent(condition);
+  const liveStats = performance?.horizons[LIVE_HIT_RATE_HORIZON];
 
   return (
     <button
@@ -50,7 +70,7 @@ export const ConditionCard: FC<{
       <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-white/50 to-transparent opacity-60" />
       <div className="mb-4 flex items-center justify-between gap-3">
         <span className={`rounded-full px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.24em] ${isActive ? "bg-white/12 text-white" : accent.badge}`}>
-          {condition.timeframe}
+          {condition.custom ? `Custom · ${condition.timeframe}` : condition.timeframe}
         </span>
         <span className={`rounded-full border px-2.5 py-1 text-[10px] font-mono tracking-[0.2em] ${isActive ? "border-white/15 text-white/70" : `${accent.border} text-[#141414]/55`}`}>
           {condition.id.toString().padStart(2, "0")}
@@ -62,6 +82,17 @@ export const ConditionCard: FC<{
       <div className={`mt-3 text-sm leading-relaxed ${isActive ? "text-white/72" : "text-[#141414]/62"}`}>
         {condition.description}
       </div>
+      {liveStats && liveStats.hitRate !== null && (
+        <div
+          className={`mt-4 inline-flex items-center gap-2 rounded-full border px-2.5 py-1 text-[10px] font-semibold uppercase tracking-[0.18em] ${
+            isActive ? "border-white/15 text-white/70" : `${accent.border} text-[#141414]/55`
+          }`}
+          title={`실시간 신호 ${performance?.signalCount ?? 0}건 중 ${liveStats.sampleCount}건 확정 · 평균 ${((liveStats.averageReturn ?? 0) * 100).toFixed(2)}%`}
+        >
+          Live 1D Hit {(liveStats.hitRate * 100).toFixed(0)}%
+          <span className="font-mono tracking-normal opacity-70">n={liveStats.sampleCount}</span>
+        </div>
+      )}
     </button>
   );
 };
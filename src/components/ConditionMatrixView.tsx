@@ -0,0 +1,114 @@
+import { useState, type FC } from "react";
+import { Check, TrendingDown, TrendingUp } from "lucide-react";
+import type { ConditionMatrix, ConditionMatrixGroup, ConditionMatrixRow, SortDirection } from "../types";
+
+const GROUP_OPTIONS: { id: ConditionMatrixGroup; label: string }[] = [
+  { id: "all", label: "전체" },
+  { id: "fourHour", label: "4시간봉" },
+  { id: "daily", label: "일봉" },
+];
+
+export const ConditionMatrixView: FC<{
+  matrix: ConditionMatrix | null;
+  rows: ConditionMatrixRow[];
+  group: ConditionMatrixGroup;
+  loading: boolean;
+  selectedMarket: string | null;
+  onGroupChange: (group: ConditionMatrixGroup) => void;
+  onSelect: (market: string) => void;
+}> = ({ matrix, rows, group, loading, selectedMarket, onGroupChange, onSelect }) => {
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const conditions = matrix?.conditions ?? [];
+  const sortedRows = [...rows].sort((left, right) => {
+    const difference = left.matchedConditionIds.length - right.matchedConditionIds.length;
+    return (sortDirection === "asc" ? difference : -difference) || right.volume - left.volume;
+  });
+
+  return (
+    <div className="mt-4">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex rounded-full border border-[#141414]/10 bg-white/70 p-1">
+          {GROUP_OPTIONS.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => onGroupChange(option.id)}
+              className={`cursor-pointer rounded-full px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.16em] transition-colors ${
+                group === option.id ? "bg-[#141414] text-[#F8F2E8]" : "text-[#141414]/55 hover:text-[#141414]"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-[#141414]/45">
+          {loading
+            ? "매트릭스 계산 중"
+            : `종목 ${rows.length}개 · 한 조건 이상 ${rows.filter((row) => row.matchedConditionIds.length > 0).length}개`}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto rounded-[28px] border border-[#141414]/10 bg-white/65">
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr className="border-b border-[#141414]/8">
+              <th className="col-header sticky left-0 bg-[#FBF8F2] px-4 py-3 text-left">Asset</th>
+              <th className="col-header px-3 py-3 text-right">
+                <button
+                  type="button"
+                  onClick={() => setSortDirection((previous) => (previous === "desc" ? "asc" : "desc"))}
+                  className="cursor-pointer uppercase"
+                >
+                  Matches{" "}
+                  {sortDirection === "asc" ? <TrendingUp className="inline-block h-3 w-3" /> : <TrendingDown className="inline-block h-3 w-3" />}
+                </button>
+              </th>
+              {conditions.map((condition) => (
+                <th key={condition.id} className="col-header px-2 py-3 text-center font-mono" title={condition.title}>
+                  {condition.id.toString().padStart(2, "0")}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#141414]/8">
+            {sortedRows.map((row) => {
+              const isSelected = row.market === selectedMarket;
+              return (
+                <tr
+                  key={row.market}
+                  onClick={() => onSelect(row.market)}
+                  className={`cursor-pointer transition-colors ${
+                    isSelected ? "bg-[#141414] text-[#F8F2E8]" : "hover:bg-[#141414]/[0.025]"
+                  }`}
+                >
+                  <td className={`sticky left-0 px-4 py-3 ${isSelected ? "bg-[#141414]" : "bg-[#FBF8F2]"}`}>
+                    <div className="font-semibold tracking-[-0.02em]">{row.market.split("/")[0]}</div>
+                    <div className={`text-xs ${isSelected ? "text-white/62" : "text-[#141414]/45"}`}>{row.korean_name}</div>
+                  </td>
+                  <td className="data-value px-3 py-3 text-right font-semibold">
+                    {row.matchedConditionIds.length}/{conditions.length}
+                  </td>
+                  {conditions.map((condition) => (
+                    <td key={condition.id} className="px-2 py-3 text-center">
+                      {row.matchedConditionIds.includes(condition.id) ? (
+                        <Check className={`mx-auto h-4 w-4 ${isSelected ? "text-[#F8F2E8]" : "text-[#295A52]"}`} />
+                      ) : (
+                        <span className={isSelected ? "text-white/25" : "text-[#141414]/18"}>·</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {sortedRows.length === 0 && !loading && (
+          <div className="px-6 py-16 text-center text-sm text-[#141414]/52">
+            {matrix ? "표시할 종목이 없습니다." : "매트릭스 데이터를 가져오지 못했습니다."}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
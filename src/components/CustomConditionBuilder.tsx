@@ -0,0 +1,393 @@
+import { useState, type FC, type ReactNode } from "react";
+import { Save, Trash2, X } from "lucide-react";
+import type { ConditionGroup, CustomConditionInput, RuleConditionMeta } from "../conditions";
+import { describeConditionSummary, type ConditionRule } from "../config/conditionRules";
+import { DEFAULT_RSI_PRE_FILTER, describeRsiPreFilter, type RsiPreFilter } from "../config/rsiPreFilter";
+
+type BuilderState = {
+  title: string;
+  group: ConditionGroup;
+  alignmentEnabled: boolean;
+  alignmentPeriods: string;
+  envelopeEnabled: boolean;
+  envelopePeriod: number;
+  envelopeLowerPct: number;
+  envelopeUpperPct: number;
+  dailyGuardEnabled: boolean;
+  dailyGuardPeriod: number;
+  dailyGuardMinPct: number;
+  orderbookGuardEnabled: boolean;
+  spreadGuardEnabled: boolean;
+  slippageGuardEnabled: boolean;
+  volumeInflowEnabled: boolean;
+  adxTrendEnabled: boolean;
+  macdCrossEnabled: boolean;
+  rsiPreFilterEnabled: boolean;
+  rsiPreFilterPeriod: number;
+  rsiPreFilterMin: number;
+};
+
+const DEFAULT_BUILDER_STATE: BuilderState = {
+  title: "",
+  group: "fourHour",
+  alignmentEnabled: false,
+  alignmentPeriods: "20, 60, 120",
+  envelopeEnabled: true,
+  envelopePeriod: 20,
+  envelopeLowerPct: -1,
+  envelopeUpperPct: 5,
+  dailyGuardEnabled: false,
+  dailyGuardPeriod: 20,
+  dailyGuardMinPct: 0,
+  orderbookGuardEnabled: false,
+  spreadGuardEnabled: false,
+  slippageGuardEnabled: false,
+  volumeInflowEnabled: false,
+  adxTrendEnabled: false,
+  macdCrossEnabled: false,
+  rsiPreFilterEnabled: true,
+  rsiPreFilterPeriod: DEFAULT_RSI_PRE_FILTER.period,
+  rsiPreFilterMin: DEFAULT_RSI_PRE_FILTER.min,
+};
+
+// Fixed guard presets mirror the built-in conditions so custom ones stay comparable.
+const ORDERBOOK_GUARD: ConditionRule = { kind: "topBidOrderbook", depth: 10, maxNotionalKrw: 100_000_000 };
+const SPREAD_GUARD: ConditionRule = { kind: "orderbookSpread", maxSpreadBps: 30 };
+const SLIPPAGE_GUARD: ConditionRule = { kind: "orderbookSlippage", side: "buy", orderKrw: 5_000_000, maxSlippagePct: 0.5 };
+const VOLUME_INFLOW_GUARD: ConditionRule = {
+  kind: "volumeInflow",
+  timeframe: "daily",
+  lookbackBars: 30,
+  baselineBars: 20,
+  minVolumeRatio: 1.7,
+};
+
+// Trend presets run on the condition's own timeframe.
+function createAdxTrendGuard(timeframe: ConditionGroup): ConditionRule {
+  return { kind: "adxTrend", timeframe, period: 14, minAdx: 25 };
+}
+
+function createMacdCrossGuard(timeframe: ConditionGroup): ConditionRule {
+  return { kind: "macdCross", timeframe, fastPeriod: 12, slowPeriod: 26, signalPeriod: 9, lookbackBars: 3 };
+}
+
+function parsePeriods(value: string) {
+  return value
+    .split(",")
+    .map((item) => Number(item.trim()))
+    .filter((item) => Number.isInteger(item) && item > 0);
+}
+
+function buildRule(state: BuilderState): ConditionRule | null {
+  const rules: ConditionRule[] = [];
+
+  if (state.alignmentEnabled) {
+    rules.push({ kind: "maAlignment", timeframe: state.group, periods: parsePeriods(state.alignmentPeriods), minResolvedPeriods: 2 });
+  }
+
+  if (state.envelopeEnabled) {
+    rules.push({
+      kind: "maEnvelope",
+      timeframe: state.group,
+      period: state.envelopePeriod,
+      lowerPct: state.envelopeLowerPct,
+      upperPct: state.envelopeUpperPct,
+    });
+  }
+
+  if (state.dailyGuardEnabled) {
+    rules.push({ kind: "aboveMa", timeframe: "daily", period: state.dailyGuardPeriod, minPct: state.dailyGuardMinPct });
+  }
+
+  if (state.volumeInflowEnabled) {
+    rules.push(VOLUME_INFLOW_GUARD);
+  }
+
+  if (state.adxTrendEnabled) {
+    rules.push(createAdxTrendGuard(state.group));
+  }
+
+  if (state.macdCrossEnabled) {
+    rules.push(createMacdCrossGuard(state.group));
+  }
+
+  if (state.orderbookGuardEnabled) {
+    rules.push(ORDERBOOK_GUARD);
+  }
+
+  if (state.spreadGuardEnabled) {
+    rules.push(SPREAD_GUARD);
+  }
+
+  if (state.slippageGuardEnabled) {
+    rules.push(SLIPPAGE_GUARD);
+  }
+
+  if (rules.length === 0) {
+    return null;
+  }
+
+  return rules.length === 1 ? rules[0] : { kind: "allOf", rules };
+}
+
+function buildRsiPreFilter(state: BuilderState): RsiPreFilter | null {
+  return state.rsiPreFilterEnabled ? { period: state.rsiPreFilterPeriod, min: state.rsiPreFilterMin } : null;
+}
+
+// Builder-made rules are a flat allOf of known nodes, so they can be read back for editing.
+function readBuilderState(condition: RuleConditionMeta): BuilderState {
+  const state: BuilderState = {
+    ...DEFAULT_BUILDER_STATE,
+    title: condition.title,
+    group: condition.group,
+    envelopeEnabled: false,
+    rsiPreFilterEnabled: condition.rsiPreFilter !== null,
+    rsiPreFilterPeriod: condition.rsiPreFilter?.period ?? DEFAULT_RSI_PRE_FILTER.period,
+    rsiPreFilterMin: condition.rsiPreFilter?.min ?? DEFAULT_RSI_PRE_FILTER.min,
+  };
+  const rules = condition.rule.kind === "allOf" ? condition.rule.rules : [condition.rule];
+
+  for (const rule of rules) {
+    switch (rule.kind) {
+      case "maAlignment":
+        state.alignmentEnabled = true;
+        state.alignmentPeriods = rule.periods.join(", ");
+        break;
+      case "maEnvelope":
+        state.envelopeEnabled = true;
+        state.envelopePeriod = rule.period;
+        state.envelopeLowerPct = rule.lowerPct;
+        state.envelopeUpperPct = rule.upperPct;
+        break;
+      case "aboveMa":
+        state.dailyGuardEnabled = true;
+        state.dailyGuardPeriod = rule.period;
+        state.dailyGuardMinPct = rule.minPct;
+        break;
+      case "topBidOrderbook":
+        state.orderbookGuardEnabled = true;
+        break;
+      case "orderbookSpread":
+        state.spreadGuardEnabled = true;
+        break;
+      case "orderbookSlippage":
+        state.slippageGuardEnabled = true;
+        break;
+      case "volumeInflow":
+        state.volumeInflowEnabled = true;
+        break;
+      case "adxTrend":
+        state.adxTrendEnabled = true;
+        break;
+      case "macdCross":
+        state.macdCrossEnabled = true;
+        break;
+      default:
+        break;
+    }
+  }
+
+  return state;
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1 text-[11px] font-semibold uppercase tracking-[0.14em] text-[#141414]/48">
+      {label}
+      {children}
+    </label>
+  );
+}
+
+function Toggle({ label, checked, onChange }: { label: string; checked: boolean; onChange: (checked: boolean) => void }) {
+  return (
+    <label className="flex cursor-pointer items-center gap-2 text-sm font-semibold text-[#141414]/78">
+      <input type="checkbox" checked={checked} onChange={(event) => onChange(event.target.checked)} className="accent-[#5B6B2F]" />
+      {label}
+    </label>
+  );
+}
+
+const inputClassName =
+  "w-full rounded-full border border-[#141414]/10 bg-white/85 px-3 py-2 text-sm font-medium normal-case tracking-normal text-[#141414] outline-none focus:border-[#141414]/30";
+
+export const CustomConditionBuilder: FC<{
+  editingCondition: RuleConditionMeta | null;
+  onSave: (input: CustomConditionInput, conditionId?: number) => Promise<void>;
+  onDelete: (conditionId: number) => Promise<void>;
+  onClose: () => void;
+}> = ({ editingCondition, onSave, onDelete, onClose }) => {
+  const [state, setState] = useState<BuilderState>(() =>
+    editingCondition ? readBuilderState(editingCondition) : DEFAULT_BUILDER_STATE,
+  );
+  const [saving, setSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const rule = buildRule(state);
+  const rsiPreFilter = buildRsiPreFilter(state);
+
+  const update = <K extends keyof BuilderState>(key: K, value: BuilderState[K]) => {
+    setState((previous) => ({ ...previous, [key]: value }));
+  };
+
+  const handleSubmit = async () => {
+    if (!rule) {
+      setErrorMessage("최소 한 개 이상의 규칙을 켜 주세요.");
+      return;
+    }
+
+    setSaving(true);
+    setErrorMessage(null);
+    try {
+      await onSave({ title: state.title, group: state.group, rule, rsiPreFilter }, editingCondition?.id);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingCondition) {
+      return;
+    }
+
+    setSaving(true);
+    setErrorMessage(null);
+    try {
+      await onDelete(editingCondition.id);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-[28px] border border-[#5B6B2F]/30 bg-white/72 p-4">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <div className="text-[10px] font-semibold uppercase tracking-[0.24em] text-[#141414]/44">
+          {editingCondition ? `Edit Custom ${editingCondition.id}` : "New Custom Condition"}
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="cursor-pointer rounded-full p-1 text-[#141414]/45 transition-colors hover:bg-[#141414]/6"
+          aria-label="Close builder"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="grid gap-3">
+        <Field label="이름">
+          <input
+            type="text"
+            value={state.title}
+            onChange={(event) => update("title", event.target.value)}
+            placeholder="예: 4시간봉 60선 눌림"
+            className={inputClassName}
+          />
+        </Field>
+        <Field label="타임프레임">
+          <select value={state.group} onChange={(event) => update("group", event.target.value as ConditionGroup)} className={inputClassName}>
+            <option value="fourHour">4시간봉</option>
+            <option value="daily">일봉</option>
+          </select>
+        </Field>
+
+        <Toggle label="이평선 정배열" checked={state.alignmentEnabled} onChange={(checked) => update("alignmentEnabled", checked)} />
+        {state.alignmentEnabled && (
+          <Field label="MA 기간 (쉼표 구분)">
+            <input
+              type="text"
+              value={state.alignmentPeriods}
+              onChange={(event) => update("alignmentPeriods", event.target.value)}
+              className={inputClassName}
+            />
+          </Field>
+        )}
+
+        <Toggle label="MA 엔벨로프" checked={state.envelopeEnabled} onChange={(checked) => update("envelopeEnabled", checked)} />
+        {state.envelopeEnabled && (
+          <div className="grid grid-cols-3 gap-2">
+            <Field label="MA">
+              <input type="number" value={state.envelopePeriod} onChange={(event) => update("envelopePeriod", Number(event.target.value))} className={inputClassName} />
+            </Field>
+            <Field label="하단 %">
+              <input type="number" value={state.envelopeLowerPct} onChange={(event) => update("envelopeLowerPct", Number(event.target.value))} className={inputClassName} />
+            </Field>
+            <Field label="상단 %">
+              <input type="number" value={state.envelopeUpperPct} onChange={(event) => update("envelopeUpperPct", Number(event.target.value))} className={inputClassName} />
+            </Field>
+          </div>
+        )}
+
+        <Toggle label="일봉 MA 위 가드" checked={state.dailyGuardEnabled} onChange={(checked) => update("dailyGuardEnabled", checked)} />
+        {state.dailyGuardEnabled && (
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="일봉 MA">
+              <input type="number" value={state.dailyGuardPeriod} onChange={(event) => update("dailyGuardPeriod", Number(event.target.value))} className={inputClassName} />
+            </Field>
+            <Field label="최소 %">
+              <input type="number" value={state.dailyGuardMinPct} onChange={(event) => update("dailyGuardMinPct", Number(event.target.value))} className={inputClassName} />
+            </Field>
+          </div>
+        )}
+
+        <Toggle label="거래량 유입 양봉 (30일 / 1.7배)" checked={state.volumeInflowEnabled} onChange={(checked) => update("volumeInflowEnabled", checked)} />
+        <Toggle label="ADX 추세 (14 / 25 이상, +DI > -DI)" checked={state.adxTrendEnabled} onChange={(checked) => update("adxTrendEnabled", checked)} />
+        <Toggle label="MACD 골든크로스 (최근 3봉)" checked={state.macdCrossEnabled} onChange={(checked) => update("macdCrossEnabled", checked)} />
+        <Toggle label="상위 매수 10호가 1억 미만" checked={state.orderbookGuardEnabled} onChange={(checked) => update("orderbookGuardEnabled", checked)} />
+        <Toggle label="호가 스프레드 30bp 이하" checked={state.spreadGuardEnabled} onChange={(checked) => update("spreadGuardEnabled", checked)} />
+        <Toggle label="500만원 시장가 매수 슬리피지 0.5% 이하" checked={state.slippageGuardEnabled} onChange={(checked) => update("slippageGuardEnabled", checked)} />
+
+        <Toggle label="일봉 RSI 사전 필터" checked={state.rsiPreFilterEnabled} onChange={(checked) => update("rsiPreFilterEnabled", checked)} />
+        {state.rsiPreFilterEnabled && (
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="RSI 기간">
+              <input type="number" value={state.rsiPreFilterPeriod} onChange={(event) => update("rsiPreFilterPeriod", Number(event.target.value))} className={inputClassName} />
+            </Field>
+            <Field label="최소 RSI">
+              <input type="number" value={state.rsiPreFilterMin} onChange={(event) => update("rsiPreFilterMin", Number(event.target.value))} className={inputClassName} />
+            </Field>
+          </div>
+        )}
+
+        {rule && (
+          <div className="rounded-[18px] bg-[#F6F0E5] px-3 py-2 text-xs leading-relaxed text-[#141414]/62">
+            {describeConditionSummary(rule)} (RSI 사전 필터: {describeRsiPreFilter(rsiPreFilter)})
+          </div>
+        )}
+
+        {errorMessage && (
+          <div className="whitespace-pre-line rounded-[18px] border border-rose-500/25 bg-rose-500/10 px-3 py-2 text-xs text-rose-700">
+            {errorMessage}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => void handleSubmit()}
+            disabled={saving}
+            className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-[#141414] bg-[#141414] px-4 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[#F8F2E8] transition-all hover:border-[#5B6B2F] hover:bg-[#5B6B2F] disabled:cursor-wait disabled:opacity-55"
+          >
+            <Save className="h-3.5 w-3.5" />
+            저장
+          </button>
+          {editingCondition && (
+            <button
+              type="button"
+              onClick={() => void handleDelete()}
+              disabled={saving}
+              className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-rose-500/30 bg-white/75 px-4 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-rose-700 transition-all hover:bg-rose-500/10 disabled:cursor-wait disabled:opacity-55"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+              삭제
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
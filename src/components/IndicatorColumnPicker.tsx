@@ -0,0 +1,46 @@
+import { useState, type FC } from "react";
+import { Check, Columns3 } from "lucide-react";
+import { INDICATOR_COLUMNS, type IndicatorColumnKey } from "../config/indicatorColumns";
+
+export const IndicatorColumnPicker: FC<{
+  selectedKeys: IndicatorColumnKey[];
+  onToggle: (key: IndicatorColumnKey) => void;
+}> = ({ selectedKeys, onToggle }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((previous) => !previous)}
+        className="flex cursor-pointer items-center gap-2 rounded-full border border-[#141414]/14 bg-white/75 px-4 py-3 text-[#141414] transition-all hover:border-[#141414]/35 hover:bg-white"
+        title="이 조건의 결과 표에 지표 열 추가"
+      >
+        <Columns3 className="h-4 w-4" />
+        <span className="text-sm font-semibold uppercase tracking-[0.16em]">
+          Columns{selectedKeys.length > 0 ? ` ${selectedKeys.length}` : ""}
+        </span>
+      </button>
+
+      {open && (
+        <div className="absolute left-0 z-20 mt-2 max-h-80 w-64 overflow-y-auto rounded-[20px] border border-[#141414]/10 bg-[#FBF8F2] p-2 shadow-[0_18px_60px_rgba(20,20,20,0.12)]">
+          {INDICATOR_COLUMNS.map((column) => {
+            const isSelected = selectedKeys.includes(column.key);
+            return (
+              <button
+                key={column.key}
+                type="button"
+                onClick={() => onToggle(column.key)}
+                title={column.title}
+                className="flex w-full cursor-pointer items-center justify-between rounded-xl px-3 py-2 text-left text-xs transition-colors hover:bg-[#141414]/[0.05]"
+              >
+                <span className={isSelected ? "font-semibold text-[#141414]" : "text-[#141414]/62"}>{column.label}</span>
+                {isSelected && <Check className="h-3.5 w-3.5 text-[#295A52]" />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
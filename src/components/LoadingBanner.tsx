@@ -2,13 +2,22 @@ import type { FC } from "react";
 import { LoaderCircle } from "lucide-react";
 import { motion } from "motion/react";
 import type { ConditionMeta } from "../conditions";
-import type { LoadingState } from "../types";
+import type { LoadingState, ScanProgress } from "../types";
+
+const PHASE_LABELS: Record<ScanProgress["phase"], string> = {
+  tickers: "시세 조회",
+  symbols: "종목 평가",
+  done: "완료",
+  failed: "실패",
+};
 
 export const LoadingBanner: FC<{
   loadingState: LoadingState;
   selectedCondition: ConditionMeta;
+  exchangeLabel: string;
   hasData: boolean;
-}> = ({ loadingState, selectedCondition, hasData }) => {
+  progress: ScanProgress | null;
+}> = ({ loadingState, selectedCondition, exchangeLabel, hasData, progress }) => {
   if (loadingState === "idle") {
     return null;
   }
@@ -19,7 +28,10 @@ export const LoadingBanner: FC<{
     : `${selectedCondition.title} 불러오는 중`;
   const description = hasData
     ? "현재 결과는 유지한 채 새 후보를 다시 계산하고 있습니다."
-    : "빗썸 데이터를 받아 조건에 맞는 후보를 계산하고 있습니다.";
+    : `${exchangeLabel} 데이터를 받아 조건에 맞는 후보를 계산하고 있습니다.`;
+
+  const progressRatio = progress && progress.total > 0 ? progress.completed / progress.total : 0;
+  const partialMatches = progress?.matchesByCondition[selectedCondition.id] ?? [];
 
   return (
     <motion.div
@@ -33,9 +45,39 @@ export const LoadingBanner: FC<{
         <div className="mt-0.5 rounded-2xl bg-white/10 p-2">
           <LoaderCircle className="h-5 w-5 animate-spin" />
         </div>
-        <div>
+        <div className="min-w-0 flex-1">
           <div className="text-sm font-semibold uppercase tracking-[0.16em]">{title}</div>
           <div className="mt-2 max-w-2xl text-sm leading-relaxed text-white/72">{description}</div>
+
+          {progress && (
+            <div className="mt-4">
+              <div className="flex flex-wrap items-center justify-between gap-2 font-mono text-[11px] text-white/62">
+                <span>
+                  {PHASE_LABELS[progress.phase]} · {progress.completed}/{progress.total} 종목
+                  {progress.failed > 0 && ` · 실패 ${progress.failed}`}
+                </span>
+                <span>{Math.round(progressRatio * 100)}%</span>
+              </div>
+              <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-white/12">
+                <div
+                  className="h-full rounded-full bg-gradient-to-r from-[#C65A2E] to-[#D68D45] transition-[width] duration-300"
+                  style={{ width: `${progressRatio * 100}%` }}
+                />
+              </div>
+              {partialMatches.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-1.5">
+                  {partialMatches.map((item) => (
+                    <span
+                      key={item.market}
+                      className="rounded-full border border-white/14 bg-white/8 px-2.5 py-1 text-[11px] font-semibold text-white/82"
+                    >
+                      {item.market.split("/")[0]}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </motion.div>
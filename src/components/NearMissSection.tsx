@@ -0,0 +1,47 @@
+import { useState, type FC } from "react";
+import { ChevronDown } from "lucide-react";
+import type { NearMiss } from "../types";
+
+export const NearMissSection: FC<{
+  nearMisses: NearMiss[];
+}> = ({ nearMisses }) => {
+  const [open, setOpen] = useState(false);
+
+  if (nearMisses.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 rounded-[28px] border border-[#141414]/10 bg-white/55">
+      <button
+        type="button"
+        onClick={() => setOpen((previous) => !previous)}
+        className="flex w-full cursor-pointer items-center justify-between gap-3 px-5 py-4 text-left"
+      >
+        <span className="flex items-center gap-3">
+          <span className="text-[10px] font-semibold uppercase tracking-[0.22em] text-[#141414]/55">Almost</span>
+          <span className="text-xs text-[#141414]/45">체크 하나만 부족한 종목 {nearMisses.length}개</span>
+        </span>
+        <ChevronDown className={`h-4 w-4 text-[#141414]/45 transition-transform ${open ? "rotate-180" : ""}`} />
+      </button>
+
+      {open && (
+        <div className="divide-y divide-[#141414]/8 border-t border-[#141414]/8">
+          {nearMisses.map((item) => (
+            <div key={item.market} className="grid grid-cols-12 gap-4 px-5 py-3 text-sm">
+              <div className="col-span-3 flex flex-col">
+                <span className="font-semibold tracking-[-0.02em]">{item.market.split("/")[0]}</span>
+                <span className="text-xs text-[#141414]/45">{item.korean_name}</span>
+              </div>
+              <div className="col-span-6 text-[13px] leading-5 text-[#141414]/72">{item.failedCheck.label}</div>
+              <div className="col-span-3 text-right font-mono text-xs">
+                <div className="text-rose-600">{item.failedCheck.actual ?? "-"}</div>
+                <div className="text-[#141414]/42">{item.failedCheck.threshold}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
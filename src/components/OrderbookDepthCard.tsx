@@ -0,0 +1,141 @@
+import { useEffect, useState, type FC } from "react";
+import { Layers, RefreshCw } from "lucide-react";
+import type { ExchangeId } from "../config/exchanges";
+import { formatIndicatorValue, requestOrderbookAnalysis } from "../lib/screenerClient";
+import type { OrderbookAnalysis, OrderbookSlippage } from "../types";
+
+const SIDE_LABELS: Record<OrderbookSlippage["side"], string> = {
+  buy: "시장가 매수",
+  sell: "시장가 매도",
+};
+
+const Stat: FC<{ label: string; value: string; title?: string }> = ({ label, value, title }) => {
+  return (
+    <div className="rounded-[18px] bg-[#F8F2E8] px-3 py-2" title={title}>
+      <div className="text-[10px] font-semibold uppercase tracking-[0.16em] text-[#141414]/42">{label}</div>
+      <div className="mt-1 font-mono text-sm font-semibold text-[#141414]/82">{value}</div>
+    </div>
+  );
+};
+
+function describeSlippage(slippage: OrderbookSlippage) {
+  return slippage.slippagePct === null
+    ? `호가 부족 (${formatIndicatorValue(slippage.fillableKrw, "krw")})`
+    : formatIndicatorValue(slippage.slippagePct, "percent");
+}
+
+// Fetched live whenever the selected market changes; the refresh button re-reads the book.
+export const OrderbookDepthCard: FC<{ exchange: ExchangeId; market: string }> = ({ exchange, market }) => {
+  const [analysis, setAnalysis] = useState<OrderbookAnalysis | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setErrorMessage(null);
+    requestOrderbookAnalysis(exchange, market)
+      .then((result) => {
+        if (!cancelled) {
+          setAnalysis(result);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setAnalysis(null);
+          setErrorMessage(error instanceof Error ? error.message : String(error));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [exchange, market, refreshCount]);
+
+  const maxNotional = Math.max(
+    1,
+    ...(analysis?.depth.flatMap((level) => [level.bidNotionalKrw, level.askNotionalKrw]) ?? []),
+  );
+
+  return (
+    <div className="mb-5 rounded-[24px] border border-[#141414]/8 bg-white/72 px-4 py-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="inline-flex items-center gap-2 text-[11px] font-semibold uppercase tracking-[0.18em] text-[#141414]/62">
+          <Layers className="h-3.5 w-3.5" />
+          Orderbook
+        </span>
+        <div className="flex items-center gap-2">
+          {analysis && (
+            <span className="text-[10px] font-semibold uppercase tracking-[0.18em] text-[#141414]/42">
+              {new Date(analysis.generatedAt).toLocaleTimeString()}
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={() => setRefreshCount((previous) => previous + 1)}
+            disabled={loading}
+            className="inline-flex cursor-pointer items-center gap-1.5 rounded-full border border-[#141414]/10 bg-[#F8F2E8] px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.18em] text-[#141414]/62 transition-colors hover:border-[#141414]/30 hover:bg-white disabled:cursor-wait disabled:opacity-55"
+          >
+            <RefreshCw className={`h-3 w-3 ${loading ? "animate-spin" : ""}`} />
+            새로고침
+          </button>
+        </div>
+      </div>
+
+      {errorMessage ? (
+        <div className="mt-3 rounded-[18px] border border-rose-500/25 bg-rose-500/10 px-4 py-3 text-sm text-rose-700">
+          {errorMessage}
+        </div>
+      ) : !analysis ? (
+        <div className="py-4 text-sm text-[#141414]/55">호가를 불러오는 중입니다...</div>
+      ) : (
+        <>
+          <div className="mt-3 grid grid-cols-2 gap-2 md:grid-cols-4">
+            <Stat label="Spread" value={formatIndicatorValue(analysis.spreadBps, "bps")} title="최우선 매수·매도 호가 스프레드" />
+            <Stat label="Imbalance" value={formatIndicatorValue(analysis.imbalanceRatio, "ratio")} title="상위 10호가 매수/매도 잔량 비율" />
+            {analysis.slippage.map((slippage) => (
+              <Stat
+                key={slippage.side}
+                label={`${SIDE_LABELS[slippage.side]} ${slippage.orderKrw / 10_000}만`}
+                value={describeSlippage(slippage)}
+                title="보이는 호가를 따라 체결했을 때 최우선 호가 대비 평균 체결가 차이"
+              />
+            ))}
+          </div>
+
+          <div className="mt-4 grid gap-2">
+            {analysis.depth.map((level) => (
+              <div key={level.levels} className="grid grid-cols-[3.5rem_1fr_1fr] items-center gap-2 text-[11px]">
+                <span className="font-semibold text-[#141414]/55">{level.levels}호가</span>
+                <div className="flex items-center justify-end gap-2">
+                  <span className="font-mono text-[#141414]/62">{formatIndicatorValue(level.bidNotionalKrw, "krw")}</span>
+                  <div className="h-2 w-full max-w-[8rem] overflow-hidden rounded-full bg-[#141414]/[0.05]">
+                    <div
+                      className="ml-auto h-full rounded-full bg-emerald-600/55"
+                      style={{ width: `${(level.bidNotionalKrw / maxNotional) * 100}%` }}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="h-2 w-full max-w-[8rem] overflow-hidden rounded-full bg-[#141414]/[0.05]">
+                    <div
+                      className="h-full rounded-full bg-rose-500/55"
+                      style={{ width: `${(level.askNotionalKrw / maxNotional) * 100}%` }}
+                    />
+                  </div>
+                  <span className="font-mono text-[#141414]/62">{formatIndicatorValue(level.askNotionalKrw, "krw")}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
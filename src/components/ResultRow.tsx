@@ -1,7 +1,8 @@
 import type { FC } from "react";
 import { Star, TrendingDown, TrendingUp } from "lucide-react";
 import { motion } from "motion/react";
-import { formatVolume } from "../lib/screenerClient";
+import type { IndicatorColumn } from "../config/indicatorColumns";
+import { formatIndicatorValue, formatVolume, getResultGridStyle } from "../lib/screenerClient";
 import type { CryptoData } from "../types";
 
 export const ResultRow: FC<{
@@ -10,9 +11,10 @@ export const ResultRow: FC<{
   highlighted: boolean;
   isFavorite: boolean;
   isSelected: boolean;
+  columns: IndicatorColumn[];
   onSelect: (item: CryptoData) => void;
   onToggleFavorite: (market: string) => void;
-}> = ({ item, index, highlighted, isFavorite, isSelected, onSelect, onToggleFavorite }) => {
+}> = ({ item, index, highlighted, isFavorite, isSelected, columns, onSelect, onToggleFavorite }) => {
   const ticker = item.market.split("/")[0];
 
   return (
@@ -31,6 +33,7 @@ export const ResultRow: FC<{
       }}
       role="button"
       tabIndex={0}
+      style={getResultGridStyle(columns.length)}
       className={`grid grid-cols-12 gap-4 px-5 py-5 transition-colors ${
         isSelected
           ? "bg-[#141414] text-[#F8F2E8]"
@@ -55,10 +58,28 @@ export const ResultRow: FC<{
         </button>
         <span>{(index + 1).toString().padStart(2, "0")}</span>
       </div>
-      <div className="col-span-4 flex flex-col">
-        <span className="text-lg font-semibold leading-tight tracking-[-0.02em]">{ticker}</span>
+      <div className="col-span-3 flex flex-col">
+        <span className="flex items-center gap-2">
+          <span className="text-lg font-semibold leading-tight tracking-[-0.02em]">{ticker}</span>
+          {item.isNew && (
+            <span className="rounded-full bg-[#C65A2E] px-2 py-0.5 text-[9px] font-semibold uppercase tracking-[0.18em] text-white">
+              New
+            </span>
+          )}
+          {item.scanStreak !== undefined && item.scanStreak > 1 && (
+            <span
+              className={`font-mono text-[10px] ${isSelected ? "text-white/55" : "text-[#141414]/42"}`}
+              title={item.firstSeenAt ? `최초 편입 ${new Date(item.firstSeenAt).toLocaleString()}` : undefined}
+            >
+              {item.scanStreak}회 연속
+            </span>
+          )}
+        </span>
         <span className={`mt-1 text-xs font-medium tracking-[0.06em] ${isSelected ? "text-white/62" : "text-[#141414]/45"}`}>{item.korean_name}</span>
       </div>
+      <div className="data-value col-span-2 text-right font-semibold" title="조건별 랭킹 점수 (0-100)">
+        {item.score === undefined || item.score === null ? "-" : item.score.toFixed(1)}
+      </div>
       <div className="data-value col-span-2 text-right font-medium">
         {item.price.toLocaleString()}
       </div>
@@ -69,9 +90,17 @@ export const ResultRow: FC<{
         {item.change > 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
         {(item.change * 100).toFixed(2)}%
       </div>
-      <div className={`data-value col-span-3 text-right ${isSelected ? "text-white/72" : "text-[#141414]/72"}`}>
+      <div className={`data-value col-span-2 text-right ${isSelected ? "text-white/72" : "text-[#141414]/72"}`}>
         {formatVolume(item.volume)}
       </div>
+      {columns.map((column) => (
+        <div
+          key={column.key}
+          className={`data-value col-span-2 text-right ${isSelected ? "text-white/72" : "text-[#141414]/72"}`}
+        >
+          {formatIndicatorValue(item[column.key], column.format)}
+        </div>
+      ))}
     </motion.div>
   );
 };
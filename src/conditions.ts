@@ -1,9 +1,16 @@
 export {
+  COMPOSITE_CONDITION_IDS,
   CONDITIONS,
+  CUSTOM_CONDITION_ID_START,
   DEFAULT_CONDITION_ID,
   DAILY_CONDITION_IDS,
   FOUR_HOUR_CONDITION_IDS,
+  isRuleCondition,
   SCREENER_BOOTSTRAP,
+  type CompositeConditionMeta,
+  type ConditionGroup,
   type ConditionId,
   type ConditionMeta,
+  type CustomConditionInput,
+  type RuleConditionMeta,
 } from "./config/screenerBootstrap";
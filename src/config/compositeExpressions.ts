@@ -0,0 +1,100 @@
+// Boolean combinations of existing conditions. A composite is evaluated on the finished result
+// sets of the conditions it references, so it can mix 4h and daily conditions freely.
+
+export type CompositeExpression =
+  | { kind: "condition"; id: number }
+  | { kind: "allOf"; expressions: CompositeExpression[] }
+  | { kind: "anyOf"; expressions: CompositeExpression[] }
+  | { kind: "not"; expression: CompositeExpression };
+
+export function describeCompositeExpression(expression: CompositeExpression, nested = false): string {
+  switch (expression.kind) {
+    case "condition":
+      return `조건 ${expression.id}`;
+    case "not":
+      return `NOT ${describeCompositeExpression(expression.expression, true)}`;
+    case "allOf":
+    case "anyOf": {
+      const operator = expression.kind === "allOf" ? " AND " : " OR ";
+      const text = expression.expressions.map((child) => describeCompositeExpression(child, true)).join(operator);
+      return nested && expression.expressions.length > 1 ? `(${text})` : text;
+    }
+  }
+}
+
+export function describeCompositeSummary(expression: CompositeExpression) {
+  return `${describeCompositeExpression(expression)} 조합을 만족하는 종목`;
+}
+
+export function collectCompositeConditionIds(expression: CompositeExpression): number[] {
+  switch (expression.kind) {
+    case "condition":
+      return [expression.id];
+    case "not":
+      return collectCompositeConditionIds(expression.expression);
+    case "allOf":
+    case "anyOf":
+      return [...new Set(expression.expressions.flatMap(collectCompositeConditionIds))];
+  }
+}
+
+export function evaluateCompositeExpression(expression: CompositeExpression, isMatched: (id: number) => boolean): boolean {
+  switch (expression.kind) {
+    case "condition":
+      return isMatched(expression.id);
+    case "not":
+      return !evaluateCompositeExpression(expression.expression, isMatched);
+    case "allOf":
+      return expression.expressions.every((child) => evaluateCompositeExpression(child, isMatched));
+    case "anyOf":
+      return expression.expressions.some((child) => evaluateCompositeExpression(child, isMatched));
+  }
+}
+
+// Candidates are the markets matched by any referenced condition, so an expression needs at least
+// one reference that is not negated; otherwise it could never match anything.
+function hasPositiveReference(expression: CompositeExpression): boolean {
+  switch (expression.kind) {
+    case "condition":
+      return true;
+    case "not":
+      return false;
+    case "allOf":
+    case "anyOf":
+      return expression.expressions.some(hasPositiveReference);
+  }
+}
+
+export function validateCompositeExpression(
+  expression: CompositeExpression,
+  isKnownCondition: (id: number) => boolean,
+  path = "expression",
+): string[] {
+  const errors: string[] = [];
+  const visit = (node: CompositeExpression, nodePath: string) => {
+    switch (node.kind) {
+      case "condition":
+        if (!isKnownCondition(node.id)) {
+          errors.push(`${nodePath} references unknown condition ${node.id}`);
+        }
+        return;
+      case "not":
+        visit(node.expression, `${nodePath}.expression`);
+        return;
+      case "allOf":
+      case "anyOf":
+        if (node.expressions.length === 0) {
+          errors.push(`${nodePath}.expressions must not be empty`);
+        }
+        node.expressions.forEach((child, index) => visit(child, `${nodePath}.expressions[${index}]`));
+        return;
+    }
+  };
+
+  visit(expression, path);
+  if (!hasPositiveReference(expression)) {
+    errors.push(`${path} must reference at least one condition outside NOT`);
+  }
+
+  return errors;
+}
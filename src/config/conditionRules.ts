@@ -0,0 +1,464 @@
+// Machine-readable rule trees for screener conditions.
+// The server evaluates these nodes directly and the description text is generated from them,
+// so the label a user reads and the logic that runs cannot drift apart.
+
+export type RuleTimeframe = "fourHour" | "daily" | "weekly" | "monthly";
+export type PriceTimeframe = "fourHour" | "daily";
+export type OrderbookSide = "bid" | "ask";
+export type OrderSide = "buy" | "sell";
+
+export type ConditionRule =
+  | { kind: "allOf"; rules: ConditionRule[] }
+  | { kind: "anyOf"; rules: ConditionRule[] }
+  | {
+      // MAs must be strictly descending in period order. Longer periods without enough
+      // history are skipped as long as at least `minResolvedPeriods` MAs could be computed.
+      kind: "maAlignment";
+      timeframe: RuleTimeframe;
+      periods: number[];
+      minResolvedPeriods: number;
+    }
+  | {
+      kind: "maEnvelope";
+      timeframe: RuleTimeframe;
+      period: number;
+      lowerPct: number;
+      upperPct: number;
+      priceTimeframe?: PriceTimeframe;
+    }
+  | {
+      kind: "aboveMa";
+      timeframe: RuleTimeframe;
+      period: number;
+      minPct: number;
+      priceTimeframe?: PriceTimeframe;
+    }
+  | {
+      // The in-progress candle of `candleTimeframe` must touch the MA. With a positive tolerance
+      // the candle close has to sit between the MA and MA * (1 + tolerance) instead.
+      kind: "maTouch";
+      timeframe: RuleTimeframe;
+      period: number;
+      candleTimeframe: PriceTimeframe;
+      tolerance: number;
+    }
+  | { kind: "topBidOrderbook"; depth: number; maxNotionalKrw: number }
+  // Cumulative notional of the best `depth` levels on one side at or above the floor.
+  | { kind: "orderbookDepth"; side: OrderbookSide; depth: number; minNotionalKrw: number }
+  // (best ask - best bid) / mid in basis points.
+  | { kind: "orderbookSpread"; maxSpreadBps: number }
+  // Bid notional over ask notional within the best `depth` levels.
+  | { kind: "orderbookImbalance"; depth: number; minRatio: number }
+  // Average fill of a market order of `orderKrw` walking the visible book, versus the best price.
+  | { kind: "orderbookSlippage"; side: OrderSide; orderKrw: number; maxSlippagePct: number }
+  | {
+      kind: "volumeInflow";
+      timeframe: PriceTimeframe;
+      lookbackBars: number;
+      baselineBars: number;
+      minVolumeRatio: number;
+    }
+  | { kind: "averageNotional"; timeframe: PriceTimeframe; lookbackBars: number; minNotionalKrw: number }
+  // EMA ribbon: every EMA must resolve and sit strictly above the next longer one.
+  | { kind: "emaAlignment"; timeframe: RuleTimeframe; periods: number[] }
+  // Bollinger band width, (upper - lower) / middle in percent, at or below the cap.
+  | { kind: "bollingerSqueeze"; timeframe: RuleTimeframe; period: number; stdDev: number; maxBandwidthPct: number }
+  // |price - SMA| measured in ATRs.
+  | { kind: "atrDistance"; timeframe: RuleTimeframe; maPeriod: number; atrPeriod: number; maxAtrMultiple: number }
+  // MACD crossed above its signal line within the last `lookbackBars` bars.
+  | {
+      kind: "macdCross";
+      timeframe: RuleTimeframe;
+      fastPeriod: number;
+      slowPeriod: number;
+      signalPeriod: number;
+      lookbackBars: number;
+    }
+  // ADX at or above the floor with +DI above -DI, i.e. a strong uptrend.
+  | { kind: "adxTrend"; timeframe: RuleTimeframe; period: number; minAdx: number }
+  | { kind: "tickerMinimum"; field: "changePct" | "notional24h"; min: number }
+  | { kind: "excludeSymbols"; symbols: readonly string[] };
+
+export const RULE_TIMEFRAME_LABELS: Record<RuleTimeframe, string> = {
+  fourHour: "4시간봉",
+  daily: "일봉",
+  weekly: "주봉",
+  monthly: "월봉",
+};
+
+const BAR_UNIT_LABELS: Record<PriceTimeframe, string> = {
+  fourHour: "개 4시간봉",
+  daily: "일",
+};
+
+const ORDERBOOK_SIDE_LABELS: Record<OrderbookSide, string> = {
+  bid: "매수",
+  ask: "매도",
+};
+
+const ORDER_SIDE_LABELS: Record<OrderSide, string> = {
+  buy: "매수",
+  sell: "매도",
+};
+
+// Rules that read the live orderbook. They cost a request per symbol and cannot be replayed.
+export const ORDERBOOK_RULE_KINDS = [
+  "topBidOrderbook",
+  "orderbookDepth",
+  "orderbookSpread",
+  "orderbookImbalance",
+  "orderbookSlippage",
+] as const satisfies readonly ConditionRule["kind"][];
+
+export type OrderbookRuleKind = (typeof ORDERBOOK_RULE_KINDS)[number];
+
+export function isOrderbookRuleKind(kind: ConditionRule["kind"]): kind is OrderbookRuleKind {
+  return (ORDERBOOK_RULE_KINDS as readonly string[]).includes(kind);
+}
+
+export function ruleUsesKind(rule: ConditionRule, kind: ConditionRule["kind"]): boolean {
+  if (rule.kind === kind) {
+    return true;
+  }
+
+  return (rule.kind === "allOf" || rule.kind === "anyOf") && rule.rules.some((childRule) => ruleUsesKind(childRule, kind));
+}
+
+export function ruleUsesOrderbook(rule: ConditionRule) {
+  return ORDERBOOK_RULE_KINDS.some((kind) => ruleUsesKind(rule, kind));
+}
+
+export function resolvePriceTimeframe(timeframe: RuleTimeframe, priceTimeframe?: PriceTimeframe): PriceTimeframe {
+  if (priceTimeframe) {
+    return priceTimeframe;
+  }
+
+  return timeframe === "fourHour" ? "fourHour" : "daily";
+}
+
+export function formatSignedPercent(value: number) {
+  return `${value > 0 ? "+" : ""}${value}%`;
+}
+
+export function formatKrwAmount(value: number) {
+  if (value >= 100_000_000) {
+    return `${value / 100_000_000}억`;
+  }
+
+  if (value >= 10_000_000) {
+    return `${value / 10_000_000}천만`;
+  }
+
+  if (value >= 10_000) {
+    return `${value / 10_000}만`;
+  }
+
+  return value.toLocaleString("ko-KR");
+}
+
+// Multipliers such as 1.08 become +8 without floating point tails like 8.000000000000007.
+export function multiplierToPercent(multiplier: number) {
+  return Number(((multiplier - 1) * 100).toFixed(6));
+}
+
+function describeMaReference(timeframe: RuleTimeframe, priceTimeframe: PriceTimeframe, period: number) {
+  const priceLabel = RULE_TIMEFRAME_LABELS[priceTimeframe];
+  const maLabel = timeframe === priceTimeframe ? "" : `${RULE_TIMEFRAME_LABELS[timeframe]} `;
+  return `${priceLabel} 현재가가 ${maLabel}${period}선`;
+}
+
+export function describeConditionRule(rule: ConditionRule): string {
+  switch (rule.kind) {
+    case "allOf":
+      return rule.rules.map(describeConditionRule).join(", ");
+    case "anyOf":
+      return `(${rule.rules.map(describeConditionRule).join(" 또는 ")})`;
+    case "maAlignment":
+      return `${RULE_TIMEFRAME_LABELS[rule.timeframe]} ${rule.periods.map((period) => `${period}선`).join(" > ")} 정배열`;
+    case "maEnvelope": {
+      const reference = describeMaReference(rule.timeframe, resolvePriceTimeframe(rule.timeframe, rule.priceTimeframe), rule.period);
+      return `${reference} 대비 ${formatSignedPercent(rule.lowerPct)}~${formatSignedPercent(rule.upperPct)}`;
+    }
+    case "aboveMa": {
+      const reference = describeMaReference(rule.timeframe, resolvePriceTimeframe(rule.timeframe, rule.priceTimeframe), rule.period);
+      return rule.minPct === 0 ? `${reference} 위` : `${reference} 대비 ${formatSignedPercent(rule.minPct)} 이상`;
+    }
+    case "maTouch": {
+      const candleLabel = RULE_TIMEFRAME_LABELS[rule.candleTimeframe];
+      const maLabel = `${RULE_TIMEFRAME_LABELS[rule.timeframe]} ${rule.period}선`;
+      return rule.tolerance <= 0
+        ? `현재 ${candleLabel}이 ${maLabel} 터치`
+        : `현재 ${candleLabel} 종가가 ${maLabel} ~ ${formatSignedPercent(rule.tolerance * 100)} 이내`;
+    }
+    case "topBidOrderbook":
+      return `상위 매수 ${rule.depth}호가 누적금액 ${formatKrwAmount(rule.maxNotionalKrw)} 미만`;
+    case "orderbookDepth":
+      return `${ORDERBOOK_SIDE_LABELS[rule.side]} ${rule.depth}호가 누적금액 ${formatKrwAmount(rule.minNotionalKrw)} 이상`;
+    case "orderbookSpread":
+      return `호가 스프레드 ${rule.maxSpreadBps}bp 이하`;
+    case "orderbookImbalance":
+      return `${rule.depth}호가 매수/매도 잔량 비율 ${rule.minRatio}배 이상`;
+    case "orderbookSlippage":
+      return `${formatKrwAmount(rule.orderKrw)} 시장가 ${ORDER_SIDE_LABELS[rule.side]} 슬리피지 ${rule.maxSlippagePct}% 이하`;
+    case "volumeInflow":
+      return `최근 ${rule.lookbackBars}${BAR_UNIT_LABELS[rule.timeframe]} 안에 직전 ${rule.baselineBars}${BAR_UNIT_LABELS[rule.timeframe]} 평균 대비 거래량 ${rule.minVolumeRatio}배 이상 양봉`;
+    case "averageNotional":
+      return `최근 ${rule.lookbackBars}${BAR_UNIT_LABELS[rule.timeframe]} 평균 거래대금 ${formatKrwAmount(rule.minNotionalKrw)} 이상`;
+    case "tickerMinimum":
+      return rule.field === "changePct"
+        ? `24시간 상승률 ${formatSignedPercent(rule.min)} 이상`
+        : `24시간 거래대금 ${formatKrwAmount(rule.min)} 이상`;
+    case "excludeSymbols":
+      return `${rule.symbols.join("·")} 제외`;
+    case "emaAlignment":
+      return `${RULE_TIMEFRAME_LABELS[rule.timeframe]} ${rule.periods.map((period) => `EMA ${period}`).join(" > ")} 정배열`;
+    case "bollingerSqueeze":
+      return `${RULE_TIMEFRAME_LABELS[rule.timeframe]} 볼린저밴드(${rule.period}, ${rule.stdDev}σ) 폭 ${rule.maxBandwidthPct}% 이하`;
+    case "atrDistance":
+      return `${RULE_TIMEFRAME_LABELS[rule.timeframe]} 현재가가 ${rule.maPeriod}선에서 ATR(${rule.atrPeriod}) ${rule.maxAtrMultiple}배 이내`;
+    case "macdCross":
+      return `최근 ${rule.lookbackBars}개 ${RULE_TIMEFRAME_LABELS[rule.timeframe]} 안에 MACD(${rule.fastPeriod}, ${rule.slowPeriod}, ${rule.signalPeriod}) 골든크로스`;
+    case "adxTrend":
+      return `${RULE_TIMEFRAME_LABELS[rule.timeframe]} ADX(${rule.period}) ${rule.minAdx} 이상, +DI > -DI`;
+  }
+}
+
+// Top-level clauses, one per line, for the print script and reference docs.
+export function describeConditionRuleLines(rule: ConditionRule) {
+  return rule.kind === "allOf" ? rule.rules.map(describeConditionRule) : [describeConditionRule(rule)];
+}
+
+export function describeConditionSummary(rule: ConditionRule) {
+  return `${describeConditionRule(rule)} 조건을 만족하는 종목`;
+}
+
+const RULE_TIMEFRAMES: RuleTimeframe[] = ["fourHour", "daily", "weekly", "monthly"];
+const PRICE_TIMEFRAMES: PriceTimeframe[] = ["fourHour", "daily"];
+const MAX_RULE_DEPTH = 6;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Validates untrusted rule trees (custom conditions arrive as JSON) and returns readable errors.
+export function validateConditionRule(value: unknown, path = "rule", depth = 0): string[] {
+  if (!isRecord(value)) {
+    return [`${path} must be an object`];
+  }
+
+  if (depth > MAX_RULE_DEPTH) {
+    return [`${path} is nested deeper than ${MAX_RULE_DEPTH} levels`];
+  }
+
+  const errors: string[] = [];
+  const expectNumber = (key: string, options: { integer?: boolean; min?: number; max?: number } = {}) => {
+    const fieldValue = value[key];
+    if (typeof fieldValue !== "number" || !Number.isFinite(fieldValue)) {
+      errors.push(`${path}.${key} must be a finite number`);
+      return;
+    }
+    if (options.integer && !Number.isInteger(fieldValue)) {
+      errors.push(`${path}.${key} must be an integer`);
+    }
+    if (options.min !== undefined && fieldValue < options.min) {
+      errors.push(`${path}.${key} must be >= ${options.min}`);
+    }
+    if (options.max !== undefined && fieldValue > options.max) {
+      errors.push(`${path}.${key} must be <= ${options.max}`);
+    }
+  };
+  const expectOneOf = (key: string, allowed: readonly string[], optional = false) => {
+    const fieldValue = value[key];
+    if (optional && fieldValue === undefined) {
+      return;
+    }
+    if (typeof fieldValue !== "string" || !allowed.includes(fieldValue)) {
+      errors.push(`${path}.${key} must be one of ${allowed.join(", ")}`);
+    }
+  };
+  const expectPeriod = (key: string) => expectNumber(key, { integer: true, min: 1, max: 1000 });
+
+  switch (value.kind) {
+    case "allOf":
+    case "anyOf": {
+      if (!Array.isArray(value.rules) || value.rules.length === 0) {
+        errors.push(`${path}.rules must be a non-empty array`);
+        break;
+      }
+      value.rules.forEach((childRule, index) => {
+        errors.push(...validateConditionRule(childRule, `${path}.rules[${index}]`, depth + 1));
+      });
+      break;
+    }
+    case "maAlignment": {
+      expectOneOf("timeframe", RULE_TIMEFRAMES);
+      const periods = value.periods;
+      if (!Array.isArray(periods) || periods.length < 2) {
+        errors.push(`${path}.periods must list at least two periods`);
+      } else if (!periods.every((period, index) => Number.isInteger(period) && period > 0 && (index === 0 || period > periods[index - 1]))) {
+        errors.push(`${path}.periods must be ascending positive integers`);
+      } else {
+        expectNumber("minResolvedPeriods", { integer: true, min: 2, max: periods.length });
+      }
+      break;
+    }
+    case "maEnvelope": {
+      expectOneOf("timeframe", RULE_TIMEFRAMES);
+      expectOneOf("priceTimeframe", PRICE_TIMEFRAMES, true);
+      expectPeriod("period");
+      expectNumber("lowerPct", { min: -100 });
+      expectNumber("upperPct", { min: -100 });
+      if (typeof value.lowerPct === "number" && typeof value.upperPct === "number" && value.lowerPct > value.upperPct) {
+        errors.push(`${path}.lowerPct must not exceed upperPct`);
+      }
+      break;
+    }
+    case "aboveMa": {
+      expectOneOf("timeframe", RULE_TIMEFRAMES);
+      expectOneOf("priceTimeframe", PRICE_TIMEFRAMES, true);
+      expectPeriod("period");
+      expectNumber("minPct", { min: -100 });
+      break;
+    }
+    case "maTouch": {
+      expectOneOf("timeframe", RULE_TIMEFRAMES);
+      expectOneOf("candleTimeframe", PRICE_TIMEFRAMES);
+      expectPeriod("period");
+      expectNumber("tolerance", { min: 0 });
+      break;
+    }
+    case "topBidOrderbook": {
+      expectNumber("depth", { integer: true, min: 1, max: 30 });
+      expectNumber("maxNotionalKrw", { min: 0 });
+      break;
+    }
+    case "orderbookDepth": {
+      expectOneOf("side", ["bid", "ask"]);
+      expectNumber("depth", { integer: true, min: 1, max: 30 });
+      expectNumber("minNotionalKrw", { min: 0 });
+      break;
+    }
+    case "orderbookSpread": {
+      expectNumber("maxSpreadBps", { min: 0 });
+      break;
+    }
+    case "orderbookImbalance": {
+      expectNumber("depth", { integer: true, min: 1, max: 30 });
+      expectNumber("minRatio", { min: 0 });
+      break;
+    }
+    case "orderbookSlippage": {
+      expectOneOf("side", ["buy", "sell"]);
+      expectNumber("orderKrw", { min: 1 });
+      expectNumber("maxSlippagePct", { min: 0 });
+      break;
+    }
+    case "volumeInflow": {
+      expectOneOf("timeframe", PRICE_TIMEFRAMES);
+      expectPeriod("lookbackBars");
+      expectPeriod("baselineBars");
+      expectNumber("minVolumeRatio", { min: 0 });
+      break;
+    }
+    case "averageNotional": {
+      expectOneOf("timeframe", PRICE_TIMEFRAMES);
+      expectPeriod("lookbackBars");
+      expectNumber("minNotionalKrw", { min: 0 });
+      break;
+    }
+    case "tickerMinimum": {
+      expectOneOf("field", ["changePct", "notional24h"]);
+      expectNumber("min");
+      break;
+    }
+    case "excludeSymbols": {
+      if (!Array.isArray(value.symbols) || !value.symbols.every((symbol) => typeof symbol === "string")) {
+        errors.push(`${path}.symbols must be an array of strings`);
+      }
+      break;
+    }
+    case "emaAlignment": {
+      expectOneOf("timeframe", RULE_TIMEFRAMES);
+      const periods = value.periods;
+      if (!Array.isArray(periods) || periods.length < 2) {
+        errors.push(`${path}.periods must list at least two periods`);
+      } else if (!periods.every((period, index) => Number.isInteger(period) && period > 0 && (index === 0 || period > periods[index - 1]))) {
+        errors.push(`${path}.periods must be ascending positive integers`);
+      }
+      break;
+    }
+    case "bollingerSqueeze": {
+      expectOneOf("timeframe", RULE_TIMEFRAMES);
+      expectPeriod("period");
+      expectNumber("stdDev", { min: 0.1, max: 5 });
+      expectNumber("maxBandwidthPct", { min: 0 });
+      break;
+    }
+    case "atrDistance": {
+      expectOneOf("timeframe", RULE_TIMEFRAMES);
+      expectPeriod("maPeriod");
+      expectPeriod("atrPeriod");
+      expectNumber("maxAtrMultiple", { min: 0 });
+      break;
+    }
+    case "macdCross": {
+      expectOneOf("timeframe", RULE_TIMEFRAMES);
+      expectPeriod("fastPeriod");
+      expectPeriod("slowPeriod");
+      expectPeriod("signalPeriod");
+      expectPeriod("lookbackBars");
+      if (typeof value.fastPeriod === "number" && typeof value.slowPeriod === "number" && value.fastPeriod >= value.slowPeriod) {
+        errors.push(`${path}.fastPeriod must be shorter than slowPeriod`);
+      }
+      break;
+    }
+    case "adxTrend": {
+      expectOneOf("timeframe", RULE_TIMEFRAMES);
+      expectPeriod("period");
+      expectNumber("minAdx", { min: 0, max: 100 });
+      break;
+    }
+    default:
+      errors.push(`${path}.kind is not a known rule kind`);
+  }
+
+  return errors;
+}
+
+// Timeframes a rule reads. Daily-group conditions run without hourly candles, so a daily
+// condition must not depend on the 4h frame.
+export function collectRuleTimeframes(rule: ConditionRule): Set<RuleTimeframe> {
+  const timeframes = new Set<RuleTimeframe>();
+  const visit = (node: ConditionRule) => {
+    switch (node.kind) {
+      case "allOf":
+      case "anyOf":
+        node.rules.forEach(visit);
+        return;
+      case "maAlignment":
+      case "averageNotional":
+      case "volumeInflow":
+      case "emaAlignment":
+      case "bollingerSqueeze":
+      case "atrDistance":
+      case "macdCross":
+      case "adxTrend":
+        timeframes.add(node.timeframe);
+        return;
+      case "maEnvelope":
+      case "aboveMa":
+        timeframes.add(node.timeframe);
+        timeframes.add(resolvePriceTimeframe(node.timeframe, node.priceTimeframe));
+        return;
+      case "maTouch":
+        timeframes.add(node.timeframe);
+        timeframes.add(node.candleTimeframe);
+        return;
+      default:
+        return;
+    }
+  };
+
+  visit(rule);
+  return timeframes;
+}
@@ -1,13 +1,8 @@
-export type EntryProfile = {
-  id: string;
-  title: string;
-  sourceProject: string;
-  sourceConfigPath: string;
-  sourceStatusPath: string;
-  sourceStatePath: string;
-  summary: string;
-  transferredSignals: string[];
-  omittedSignals: string[];
+import { ENTRY_PROFILE_THRESHOLDS } from "./entryProfileThresholds.js";
+
+// The numeric part of a profile. These values are generated from the perpDex_my config by
+// `npm run entry:sync` (see entryProfileThresholds.ts) instead of being copied by hand.
+export type EntryProfileThresholds = {
   excludedSymbols: readonly string[];
   minPriceChangePct: number;
   min24hNotionalVolumeKrw: number;
@@ -22,9 +17,39 @@ export type EntryProfile = {
   recentVolumeInflowBaselineDays: number;
 };
 
-export const ACTIVE_ENTRY_PROFILE: EntryProfile = {
+export type EntryProfile = EntryProfileThresholds & {
+  id: string;
+  // Screener condition id this profile is registered under; must be unique and stay below
+  // CUSTOM_CONDITION_ID_START so it never collides with runtime custom conditions.
+  conditionId: number;
+  // Disabled profiles stay in the registry (and in entry:print) but produce no screener condition.
+  enabled: boolean;
+  title: string;
+  conditionTitle: string;
+  sourceProject: string;
+  sourceConfigPath: string;
+  sourceStatusPath: string;
+  sourceStatePath: string;
+  summary: string;
+  transferredSignals: string[];
+  omittedSignals: string[];
+};
+
+function getProfileThresholds(profileId: string): EntryProfileThresholds {
+  const thresholds = ENTRY_PROFILE_THRESHOLDS[profileId];
+  if (!thresholds) {
+    throw new Error(`Entry profile ${profileId} has no thresholds; run npm run entry:sync -- --profile ${profileId}.`);
+  }
+
+  return thresholds;
+}
+
+const PERP_DEX_LIVE_MA_TOUCH_PROFILE: EntryProfile = {
   id: "perpDexLiveMaTouchRrSpotProxy",
+  conditionId: 11,
+  enabled: true,
   title: "perpDex live MA20 touch proxy",
+  conditionTitle: "4시간봉 1일 20선 터치 + 거래량 유입",
   sourceProject: "perpDex_my",
   sourceConfigPath: "C:\\Users\\KGWPC\\workspace\\perpDex_my\\config.hyperliquid.live.44usd.2pos.relaxed.json",
   sourceStatusPath: "C:\\Users\\KGWPC\\workspace\\perpDex_my\\runtime\\status.hyperliquid.live.44usd.2pos.relaxed.json",
@@ -45,23 +70,20 @@ export const ACTIVE_ENTRY_PROFILE: EntryProfile = {
     "perp pending order / sizing / exit",
     "Hyperliquid 전용 상태값",
   ],
-  excludedSymbols: ["BTC", "ETH", "BNB", "XRP", "SOL", "TRX", "DOGE", "ADA", "BCH", "HYPE"],
-  minPriceChangePct: 1.0,
-  min24hNotionalVolumeKrw: 150_000_000,
-  minAverage4hNotionalVolumeKrw: 20_000_000,
-  average4hNotionalVolumeLookbackBars: 20,
-  currentTouchDailyMaPeriod: 20,
-  dailyMaEntryTolerancePct: 0.0,
-  ma20UpperMultiplier: 1.08,
-  longMaUpperMultiplier: 1.04,
-  recentVolumeInflowLookbackDays: 30,
-  recentVolumeInflowMinVolumeRatio: 1.7,
-  recentVolumeInflowBaselineDays: 20,
+  ...getProfileThresholds("perpDexLiveMaTouchRrSpotProxy"),
 };
 
+// Every perp strategy proxy registered with the screener. Each enabled profile becomes its own
+// 4h condition, so several strategies can be screened and compared side by side.
+export const ENTRY_PROFILES: EntryProfile[] = [PERP_DEX_LIVE_MA_TOUCH_PROFILE];
+
+export const ENABLED_ENTRY_PROFILES = ENTRY_PROFILES.filter((profile) => profile.enabled);
+
 export const ENTRY_BOOTSTRAP = {
   title: "Quant Screener Entry Bootstrap",
   entryFile: "src/config/entryBootstrap.ts",
+  thresholdsFile: "src/config/entryProfileThresholds.ts",
   printScriptCommand: "npm run entry:print",
-  activeProfile: ACTIVE_ENTRY_PROFILE,
+  syncScriptCommand: "npm run entry:sync",
+  profiles: ENTRY_PROFILES,
 } as const;
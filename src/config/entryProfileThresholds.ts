@@ -0,0 +1,19 @@
+// Generated by `npm run entry:sync`. Edit the perpDex_my config and re-sync instead of editing by hand.
+import type { EntryProfileThresholds } from "./entryBootstrap.js";
+
+export const ENTRY_PROFILE_THRESHOLDS: Partial<Record<string, EntryProfileThresholds>> = {
+  perpDexLiveMaTouchRrSpotProxy: {
+    excludedSymbols: ["BTC", "ETH", "BNB", "XRP", "SOL", "TRX", "DOGE", "ADA", "BCH", "HYPE"],
+    minPriceChangePct: 1,
+    min24hNotionalVolumeKrw: 150000000,
+    minAverage4hNotionalVolumeKrw: 20000000,
+    average4hNotionalVolumeLookbackBars: 20,
+    currentTouchDailyMaPeriod: 20,
+    dailyMaEntryTolerancePct: 0,
+    ma20UpperMultiplier: 1.08,
+    longMaUpperMultiplier: 1.04,
+    recentVolumeInflowLookbackDays: 30,
+    recentVolumeInflowMinVolumeRatio: 1.7,
+    recentVolumeInflowBaselineDays: 20,
+  },
+};
@@ -0,0 +1,24 @@
+export type ExchangeId = "bithumb" | "upbit";
+
+export type ExchangeMeta = {
+  id: ExchangeId;
+  label: string;
+  // Trade page with the exchange's own chart; `{symbol}` is replaced with the base asset.
+  tradeUrlTemplate: string;
+};
+
+export const EXCHANGES: ExchangeMeta[] = [
+  { id: "bithumb", label: "Bithumb", tradeUrlTemplate: "https://www.bithumb.com/react/trade/order/{symbol}-KRW" },
+  { id: "upbit", label: "Upbit", tradeUrlTemplate: "https://upbit.com/exchange?code=CRIX.UPBIT.KRW-{symbol}" },
+];
+
+export const DEFAULT_EXCHANGE_ID: ExchangeId = "bithumb";
+
+export function isExchangeId(value: unknown): value is ExchangeId {
+  return EXCHANGES.some((exchange) => exchange.id === value);
+}
+
+export function getExchangeTradeUrl(exchange: ExchangeId, symbol: string) {
+  const template = EXCHANGES.find((item) => item.id === exchange)?.tradeUrlTemplate ?? "";
+  return template.replace("{symbol}", encodeURIComponent(symbol));
+}
@@ -0,0 +1,101 @@
+// Indicator values the server attaches to every screener row, and the optional result-table
+// columns the client can show for them. Keys are the row field names in both places.
+
+export type MovingAverageColumnKey =
+  | "ma20_d"
+  | "ma60_d"
+  | "ma120_d"
+  | "ma240_d"
+  | "ma120_m"
+  | "ma20_4h"
+  | "ma30_4h"
+  | "ma120_4h"
+  | "ma240_4h";
+// Percent distance of the current price from the MA of the same name.
+export type MaDistanceColumnKey = `dist_${MovingAverageColumnKey}`;
+export type OrderbookColumnKey = "spread_bps" | "bid_depth_10" | "ask_depth_10" | "imbalance_10" | "slippage_buy";
+export type IndicatorColumnKey =
+  | MovingAverageColumnKey
+  | MaDistanceColumnKey
+  | OrderbookColumnKey
+  | "rsi14_d"
+  | "avg_notional_d";
+
+// 4h values are only computed by the 4h scan; daily-group rows carry null for them. Orderbook
+// values are fetched for matched rows only, so near misses carry null for them.
+export type IndicatorValues = Record<IndicatorColumnKey, number | null>;
+
+export type IndicatorColumnFormat = "price" | "percent" | "rsi" | "krw" | "bps" | "ratio";
+
+export type IndicatorColumn = {
+  key: IndicatorColumnKey;
+  label: string;
+  title: string;
+  format: IndicatorColumnFormat;
+};
+
+export const AVERAGE_NOTIONAL_LOOKBACK_DAYS = 20;
+// Levels per side behind the *_10 orderbook columns, and the market buy size behind slippage_buy.
+export const ORDERBOOK_COLUMN_DEPTH = 10;
+export const SLIPPAGE_ORDER_KRW = 5_000_000;
+
+const MOVING_AVERAGE_LABELS: Record<MovingAverageColumnKey, string> = {
+  ma20_d: "일봉 20선",
+  ma60_d: "일봉 60선",
+  ma120_d: "일봉 120선",
+  ma240_d: "일봉 240선",
+  ma120_m: "월봉 120선",
+  ma20_4h: "4시간봉 20선",
+  ma30_4h: "4시간봉 30선",
+  ma120_4h: "4시간봉 120선",
+  ma240_4h: "4시간봉 240선",
+};
+
+export const MOVING_AVERAGE_COLUMN_KEYS = Object.keys(MOVING_AVERAGE_LABELS) as MovingAverageColumnKey[];
+
+export function getMaDistanceKey(key: MovingAverageColumnKey): MaDistanceColumnKey {
+  return `dist_${key}`;
+}
+
+export const INDICATOR_COLUMNS: IndicatorColumn[] = [
+  { key: "rsi14_d", label: "RSI14", title: "일봉 RSI14", format: "rsi" },
+  {
+    key: "avg_notional_d",
+    label: "Avg Notional",
+    title: `최근 ${AVERAGE_NOTIONAL_LOOKBACK_DAYS}일 평균 일 거래대금`,
+    format: "krw",
+  },
+  { key: "spread_bps", label: "Spread", title: "최우선 매수·매도 호가 스프레드 (bp)", format: "bps" },
+  {
+    key: "bid_depth_10",
+    label: "Bid Depth",
+    title: `상위 매수 ${ORDERBOOK_COLUMN_DEPTH}호가 누적금액`,
+    format: "krw",
+  },
+  {
+    key: "ask_depth_10",
+    label: "Ask Depth",
+    title: `상위 매도 ${ORDERBOOK_COLUMN_DEPTH}호가 누적금액`,
+    format: "krw",
+  },
+  {
+    key: "imbalance_10",
+    label: "Imbalance",
+    title: `상위 ${ORDERBOOK_COLUMN_DEPTH}호가 매수/매도 잔량 비율`,
+    format: "ratio",
+  },
+  {
+    key: "slippage_buy",
+    label: "Slippage",
+    title: `${SLIPPAGE_ORDER_KRW / 10_000}만원 시장가 매수 예상 슬리피지`,
+    format: "percent",
+  },
+  ...MOVING_AVERAGE_COLUMN_KEYS.flatMap((key): IndicatorColumn[] => [
+    { key: getMaDistanceKey(key), label: `${MOVING_AVERAGE_LABELS[key]} 거리`, title: `${MOVING_AVERAGE_LABELS[key]} 대비 현재가`, format: "percent" },
+    { key, label: MOVING_AVERAGE_LABELS[key], title: `${MOVING_AVERAGE_LABELS[key]} 값`, format: "price" },
+  ]),
+];
+
+export function isIndicatorColumnKey(value: unknown): value is IndicatorColumnKey {
+  return INDICATOR_COLUMNS.some((column) => column.key === value);
+}
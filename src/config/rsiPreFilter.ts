@@ -0,0 +1,33 @@
+// Daily RSI pre-filter applied before a condition's rule tree runs. Each rule condition chooses
+// its own filter in screenerBootstrap.ts; null turns it off so weak-RSI pullbacks stay visible.
+
+export type RsiPreFilter = {
+  period: number;
+  min: number;
+};
+
+export const DEFAULT_RSI_PRE_FILTER: RsiPreFilter = { period: 14, min: 40 };
+
+export function describeRsiPreFilter(filter: RsiPreFilter | null) {
+  return filter ? `일봉 RSI${filter.period} ${filter.min} 이상` : "없음";
+}
+
+// Custom conditions send the filter as JSON: undefined keeps the default, null disables it.
+export function validateRsiPreFilter(value: unknown, path = "rsiPreFilter"): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return [`${path} must be an object or null`];
+  }
+
+  const { period, min } = value as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof period !== "number" || !Number.isInteger(period) || period < 2 || period > 200) {
+    errors.push(`${path}.period must be an integer between 2 and 200`);
+  }
+  if (typeof min !== "number" || !Number.isFinite(min) || min < 0 || min > 100) {
+    errors.push(`${path}.min must be a number between 0 and 100`);
+  }
+  return errors;
+}
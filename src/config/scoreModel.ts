@@ -0,0 +1,104 @@
+// Ranking score for matched rows. Every component is normalised to 0..1 on a fixed scale, then
+// the weighted average of the components that could be computed becomes a 0-100 score.
+// Weights are chosen per condition in screenerBootstrap.ts; the scales below are shared.
+
+import type { ConditionRule, PriceTimeframe, RuleTimeframe } from "./conditionRules.js";
+
+export type ScoreComponent = "maDistance" | "trend" | "volumeInflow" | "liquidity" | "rsi";
+export type ScoreWeights = Record<ScoreComponent, number>;
+
+// The MA a condition is built around; distance and slope are measured against it.
+export type ScoreKeyMa = {
+  timeframe: RuleTimeframe;
+  period: number;
+  priceTimeframe?: PriceTimeframe;
+};
+
+export type ScoreModel = {
+  keyMa: ScoreKeyMa;
+  weights: ScoreWeights;
+};
+
+export const SCORE_COMPONENTS: ScoreComponent[] = ["maDistance", "trend", "volumeInflow", "liquidity", "rsi"];
+
+export const SCORE_COMPONENT_LABELS: Record<ScoreComponent, string> = {
+  maDistance: "핵심 이평선 거리",
+  trend: "추세 강도",
+  volumeInflow: "거래량 유입",
+  liquidity: "유동성",
+  rsi: "RSI",
+};
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  maDistance: 30,
+  trend: 25,
+  volumeInflow: 20,
+  liquidity: 15,
+  rsi: 10,
+};
+
+// Used when a rule tree has no MA node to anchor on.
+const DEFAULT_KEY_MA: ScoreKeyMa = { timeframe: "daily", period: 20 };
+
+export const SCORE_SCALES = {
+  // |price / key MA - 1| in percent; 0% scores 1, this distance or more scores 0.
+  maxMaDistancePct: 10,
+  // Key MA change over slopeBars bars, in percent, that scores 1.
+  slopeBars: 5,
+  fullSlopePct: 5,
+  // MA20 over MA60 on the key MA's timeframe, in percent, that scores 1.
+  fullSpreadPct: 10,
+  // Strongest bullish-candle volume ratio on daily candles; 1x scores 0, fullInflowRatio scores 1.
+  inflowLookbackBars: 5,
+  inflowBaselineBars: 20,
+  fullInflowRatio: 3,
+  // Average daily KRW notional on a log scale between the two bounds.
+  liquidityLookbackBars: 20,
+  minLiquidityKrw: 100_000_000,
+  fullLiquidityKrw: 10_000_000_000,
+  // Daily RSI(14) scores 1 at idealRsi and falls to 0 at rsiTolerance points away.
+  idealRsi: 60,
+  rsiTolerance: 30,
+} as const;
+
+// First MA node in rule order: touches win over envelopes, envelopes over floors, floors over
+// alignments (whose shortest period is used).
+export function findScoreKeyMa(rule: ConditionRule): ScoreKeyMa | null {
+  const leaves: ConditionRule[] = [];
+  const collect = (node: ConditionRule) => {
+    if (node.kind === "allOf" || node.kind === "anyOf") {
+      node.rules.forEach(collect);
+    } else {
+      leaves.push(node);
+    }
+  };
+  collect(rule);
+
+  for (const kind of ["maTouch", "maEnvelope", "aboveMa", "maAlignment"] as const) {
+    const leaf = leaves.find((item) => item.kind === kind);
+    switch (leaf?.kind) {
+      case "maTouch":
+        return { timeframe: leaf.timeframe, period: leaf.period, priceTimeframe: leaf.candleTimeframe };
+      case "maEnvelope":
+      case "aboveMa":
+        return { timeframe: leaf.timeframe, period: leaf.period, priceTimeframe: leaf.priceTimeframe };
+      case "maAlignment":
+        return { timeframe: leaf.timeframe, period: Math.min(...leaf.periods) };
+    }
+  }
+
+  return null;
+}
+
+export function resolveScoreModel(rule: ConditionRule, weights?: Partial<ScoreWeights>): ScoreModel {
+  return {
+    keyMa: findScoreKeyMa(rule) ?? DEFAULT_KEY_MA,
+    weights: { ...DEFAULT_SCORE_WEIGHTS, ...weights },
+  };
+}
+
+export function describeScoreWeights(weights: ScoreWeights) {
+  return SCORE_COMPONENTS.filter((component) => weights[component] > 0)
+    .map((component) => `${SCORE_COMPONENT_LABELS[component]} ${weights[component]}`)
+    .join(" · ");
+}
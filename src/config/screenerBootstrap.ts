@@ -1,100 +1,452 @@
 // Single source of truth for condition ids and user-facing labels.
 // Server and client both import this file so new conditions can be added in one place.
+// Each condition carries a rule tree (see conditionRules.ts) that the server evaluates as-is,
+// or, for composites, a boolean expression over other conditions (see compositeExpressions.ts).
 
-export type ConditionId = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11;
+import {
+  collectCompositeConditionIds,
+  describeCompositeSummary,
+  validateCompositeExpression,
+  type CompositeExpression,
+} from "./compositeExpressions.js";
+import { ENABLED_ENTRY_PROFILES, ENTRY_PROFILES, type EntryProfile } from "./entryBootstrap.js";
+import { DEFAULT_RSI_PRE_FILTER, describeRsiPreFilter, validateRsiPreFilter, type RsiPreFilter } from "./rsiPreFilter.js";
+import { resolveScoreModel, type ScoreModel, type ScoreWeights } from "./scoreModel.js";
+import {
+  collectRuleTimeframes,
+  describeConditionSummary,
+  multiplierToPercent,
+  RULE_TIMEFRAME_LABELS,
+  validateConditionRule,
+  type ConditionRule,
+} from "./conditionRules.js";
 
-export type ConditionMeta = {
+export type BuiltinConditionId = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10;
+// Built-in conditions use the fixed ids above, entry profiles bring their own ids (11, 12, ...),
+// composites are numbered from COMPOSITE_CONDITION_ID_START and custom conditions created at
+// runtime from CUSTOM_CONDITION_ID_START, so the ranges never collide.
+export type ConditionId = number;
+// Scan groups: each is built by its own scan. Composites are evaluated after both are built.
+export type ConditionGroup = "fourHour" | "daily";
+
+type ConditionMetaBase = {
   id: ConditionId;
-  group: "fourHour" | "daily";
   timeframe: string;
   title: string;
   description: string;
+  custom?: boolean;
+};
+
+export type RuleConditionMeta = ConditionMetaBase & {
+  group: ConditionGroup;
+  rule: ConditionRule;
+  // Ranks matched rows; see scoreModel.ts.
+  score: ScoreModel;
+  // Checked before the rule tree; null means no RSI pre-filter. See rsiPreFilter.ts.
+  rsiPreFilter: RsiPreFilter | null;
+};
+
+export type CompositeConditionMeta = ConditionMetaBase & {
+  group: "composite";
+  expression: CompositeExpression;
+};
+
+export type ConditionMeta = RuleConditionMeta | CompositeConditionMeta;
+
+export type CustomConditionInput = {
+  title: string;
+  group: ConditionGroup;
+  rule: ConditionRule;
+  rsiPreFilter: RsiPreFilter | null;
 };
 
-export const FOUR_HOUR_CONDITION_IDS: ConditionId[] = [1, 2, 3, 4, 11];
+export const CUSTOM_CONDITION_ID_START = 101;
+export const COMPOSITE_CONDITION_ID_START = 51;
+const MAX_CUSTOM_CONDITION_TITLE_LENGTH = 60;
+const MAX_BUILTIN_CONDITION_ID = 10;
+
+const TOP_BID_ORDERBOOK_GUARD: ConditionRule = { kind: "topBidOrderbook", depth: 10, maxNotionalKrw: 100_000_000 };
+// Pure alignment conditions rank by how steep and wide the trend is rather than by MA distance.
+const TREND_SCORE_WEIGHTS: Partial<ScoreWeights> = { maDistance: 10, trend: 45 };
+// Pullback conditions rank the tightest retest of the key MA first.
+const PULLBACK_SCORE_WEIGHTS: Partial<ScoreWeights> = { maDistance: 40, trend: 20 };
+
+function describeRuleCondition(rule: ConditionRule, rsiPreFilter: RsiPreFilter | null) {
+  return `${describeConditionSummary(rule)} (RSI 사전 필터: ${describeRsiPreFilter(rsiPreFilter)})`;
+}
+
+// scoreWeights override DEFAULT_SCORE_WEIGHTS per component; the key MA comes from the rule.
+// rsiPreFilter defaults to DEFAULT_RSI_PRE_FILTER; pass null to turn it off.
+function defineCondition({
+  scoreWeights,
+  rsiPreFilter = DEFAULT_RSI_PRE_FILTER,
+  ...condition
+}: Omit<RuleConditionMeta, "description" | "id" | "score" | "rsiPreFilter"> & {
+  id: BuiltinConditionId;
+  scoreWeights?: Partial<ScoreWeights>;
+  rsiPreFilter?: RsiPreFilter | null;
+}): RuleConditionMeta {
+  return {
+    ...condition,
+    description: describeRuleCondition(condition.rule, rsiPreFilter),
+    score: resolveScoreModel(condition.rule, scoreWeights),
+    rsiPreFilter,
+  };
+}
+
+// perpDex_my live ma_touch_rr long entry proxy for spot screening.
+function buildEntryProfileRule(profile: EntryProfile): ConditionRule {
+  return {
+    kind: "allOf",
+    rules: [
+      { kind: "excludeSymbols", symbols: profile.excludedSymbols },
+      { kind: "tickerMinimum", field: "changePct", min: profile.minPriceChangePct },
+      { kind: "tickerMinimum", field: "notional24h", min: profile.min24hNotionalVolumeKrw },
+      { kind: "aboveMa", timeframe: "daily", period: profile.currentTouchDailyMaPeriod, minPct: 0, priceTimeframe: "fourHour" },
+      {
+        kind: "maTouch",
+        timeframe: "daily",
+        period: profile.currentTouchDailyMaPeriod,
+        candleTimeframe: "fourHour",
+        tolerance: profile.dailyMaEntryTolerancePct,
+      },
+      {
+        kind: "maEnvelope",
+        timeframe: "fourHour",
+        period: 20,
+        lowerPct: -1,
+        upperPct: multiplierToPercent(profile.ma20UpperMultiplier),
+      },
+      {
+        kind: "anyOf",
+        rules: [120, 240].map((period): ConditionRule => ({
+          kind: "maEnvelope",
+          timeframe: "fourHour",
+          period,
+          lowerPct: -10,
+          upperPct: multiplierToPercent(profile.longMaUpperMultiplier),
+        })),
+      },
+      {
+        kind: "averageNotional",
+        timeframe: "fourHour",
+        lookbackBars: profile.average4hNotionalVolumeLookbackBars,
+        minNotionalKrw: profile.minAverage4hNotionalVolumeKrw,
+      },
+      {
+        kind: "volumeInflow",
+        timeframe: "daily",
+        lookbackBars: profile.recentVolumeInflowLookbackDays,
+        baselineBars: profile.recentVolumeInflowBaselineDays,
+        minVolumeRatio: profile.recentVolumeInflowMinVolumeRatio,
+      },
+    ],
+  };
+}
+
+function defineEntryProfileCondition(profile: EntryProfile): RuleConditionMeta {
+  const rule = buildEntryProfileRule(profile);
+  return {
+    id: profile.conditionId,
+    group: "fourHour",
+    timeframe: "4시간봉",
+    title: profile.conditionTitle,
+    description: describeRuleCondition(rule, DEFAULT_RSI_PRE_FILTER),
+    rule,
+    // The entry proxy is a volume-inflow breakout off the daily MA touch.
+    score: resolveScoreModel(rule, { maDistance: 30, trend: 15, volumeInflow: 30, liquidity: 15, rsi: 10 }),
+    rsiPreFilter: DEFAULT_RSI_PRE_FILTER,
+  };
+}
+
+function assertEntryProfileIds(profiles: EntryProfile[]) {
+  const seen = new Set<number>();
+  for (const { id, conditionId } of profiles) {
+    if (
+      !Number.isInteger(conditionId) ||
+      conditionId <= MAX_BUILTIN_CONDITION_ID ||
+      conditionId >= COMPOSITE_CONDITION_ID_START
+    ) {
+      throw new Error(
+        `Entry profile ${id} has conditionId ${conditionId}; use ${MAX_BUILTIN_CONDITION_ID + 1}-${COMPOSITE_CONDITION_ID_START - 1}.`,
+      );
+    }
+
+    if (seen.has(conditionId)) {
+      throw new Error(`Entry profile ${id} reuses conditionId ${conditionId}.`);
+    }
+
+    seen.add(conditionId);
+  }
+}
+
+assertEntryProfileIds(ENABLED_ENTRY_PROFILES);
+
+const ENTRY_PROFILE_CONDITIONS = ENABLED_ENTRY_PROFILES.map(defineEntryProfileCondition);
+
+export const FOUR_HOUR_CONDITION_IDS: ConditionId[] = [
+  1,
+  2,
+  3,
+  4,
+  ...ENTRY_PROFILE_CONDITIONS.map((condition) => condition.id),
+];
 export const DAILY_CONDITION_IDS: ConditionId[] = [5, 6, 7, 8, 9, 10];
 
-export const CONDITIONS: ConditionMeta[] = [
-  {
+const RULE_CONDITIONS: RuleConditionMeta[] = [
+  defineCondition({
     id: 1,
     group: "fourHour",
     timeframe: "4시간봉",
     title: "4시간봉 20·120선 눌림",
-    description: "4시간봉 현재가가 20선 대비 -1%~+5%, 120선 대비 -10%~+2% 범위에 있고, 일봉 20선 대비 -3% 이상이며 상위 매수 10호가 누적금액이 1억 미만인 종목",
-  },
-  {
+    scoreWeights: PULLBACK_SCORE_WEIGHTS,
+    rule: {
+      kind: "allOf",
+      rules: [
+        { kind: "maEnvelope", timeframe: "fourHour", period: 20, lowerPct: -1, upperPct: 5 },
+        { kind: "maEnvelope", timeframe: "fourHour", period: 120, lowerPct: -10, upperPct: 2 },
+        { kind: "aboveMa", timeframe: "daily", period: 20, minPct: -3 },
+        TOP_BID_ORDERBOOK_GUARD,
+      ],
+    },
+  }),
+  defineCondition({
     id: 2,
     group: "fourHour",
     timeframe: "4시간봉",
     title: "4시간봉 정배열",
-    description: "4시간봉 20선, 60선, 120선이 상승 정배열이고 상위 매수 10호가 누적금액이 1억 미만인 종목",
-  },
-  {
+    scoreWeights: TREND_SCORE_WEIGHTS,
+    rule: {
+      kind: "allOf",
+      rules: [
+        { kind: "maAlignment", timeframe: "fourHour", periods: [20, 60, 120], minResolvedPeriods: 2 },
+        TOP_BID_ORDERBOOK_GUARD,
+      ],
+    },
+  }),
+  defineCondition({
     id: 3,
     group: "fourHour",
     timeframe: "4시간봉",
     title: "4시간봉 30·120선 눌림 + 일봉 30선 위",
-    description: "4시간봉 현재가가 30선 대비 -1%~+5%, 120선 대비 -10%~+2% 범위에 있고, 일봉 30선 위에 있으며 상위 매수 10호가 누적금액이 1억 미만인 종목",
-  },
-  {
+    scoreWeights: PULLBACK_SCORE_WEIGHTS,
+    rule: {
+      kind: "allOf",
+      rules: [
+        { kind: "aboveMa", timeframe: "daily", period: 30, minPct: 0 },
+        { kind: "maEnvelope", timeframe: "fourHour", period: 30, lowerPct: -1, upperPct: 5 },
+        { kind: "maEnvelope", timeframe: "fourHour", period: 120, lowerPct: -10, upperPct: 2 },
+        TOP_BID_ORDERBOOK_GUARD,
+      ],
+    },
+  }),
+  defineCondition({
     id: 4,
     group: "fourHour",
     timeframe: "4시간봉",
     title: "4시간봉 30·120선 눌림 + 일봉 20선 위",
-    description: "4시간봉 현재가가 30선 대비 -1%~+5%, 120선 대비 -10%~+2% 범위에 있고, 일봉 20선 위에 있으며 상위 매수 10호가 누적금액이 1억 미만인 종목",
-  },
-  {
-    id: 11,
-    group: "fourHour",
-    timeframe: "4시간봉",
-    title: "4시간봉 1일 20선 터치 + 거래량 유입",
-    description: "현재 4시간봉이 일봉 20선을 터치하고 종가가 일봉 20선 위에 있으며, 최근 30일 거래량 유입과 4시간 20·120·240 엔벨로프를 만족하고 24시간 거래대금 1.5억 이상, 평균 4시간 거래대금 2천만 이상인 메이저 제외 종목",
-  },
-  {
+    scoreWeights: PULLBACK_SCORE_WEIGHTS,
+    rule: {
+      kind: "allOf",
+      rules: [
+        { kind: "aboveMa", timeframe: "daily", period: 20, minPct: 0 },
+        { kind: "maEnvelope", timeframe: "fourHour", period: 30, lowerPct: -1, upperPct: 5 },
+        { kind: "maEnvelope", timeframe: "fourHour", period: 120, lowerPct: -10, upperPct: 2 },
+        TOP_BID_ORDERBOOK_GUARD,
+      ],
+    },
+  }),
+  ...ENTRY_PROFILE_CONDITIONS,
+  defineCondition({
     id: 5,
     group: "daily",
     timeframe: "일봉",
     title: "일봉 정배열",
-    description: "일봉 20선, 60선, 120선이 상승 정배열인 종목",
-  },
-  {
+    scoreWeights: TREND_SCORE_WEIGHTS,
+    rule: { kind: "maAlignment", timeframe: "daily", periods: [20, 60, 120], minResolvedPeriods: 2 },
+  }),
+  defineCondition({
     id: 6,
     group: "daily",
     timeframe: "일봉",
     title: "일봉 정배열 + 30일선 근접",
-    description: "일봉 20선, 60선, 120선이 상승 정배열이고 현재가가 30일선 대비 -1%~+6% 범위에 있는 종목",
-  },
-  {
+    rule: {
+      kind: "allOf",
+      rules: [
+        { kind: "maAlignment", timeframe: "daily", periods: [20, 60, 120], minResolvedPeriods: 2 },
+        { kind: "maEnvelope", timeframe: "daily", period: 30, lowerPct: -1, upperPct: 6 },
+      ],
+    },
+  }),
+  defineCondition({
     id: 7,
     group: "daily",
     timeframe: "일봉",
     title: "일봉 120일선 근접",
-    description: "일봉 현재가가 120일선 대비 -1%~+7% 범위에 있는 종목",
-  },
-  {
+    scoreWeights: PULLBACK_SCORE_WEIGHTS,
+    // 120-day MA pullbacks usually arrive with a weak RSI, which the default filter would drop.
+    rsiPreFilter: null,
+    rule: { kind: "maEnvelope", timeframe: "daily", period: 120, lowerPct: -1, upperPct: 7 },
+  }),
+  defineCondition({
     id: 8,
     group: "daily",
     timeframe: "일봉",
     title: "일봉 120일선 ±10%",
-    description: "일봉 현재가가 120일선 대비 -10%~+10% 범위에 있는 종목",
-  },
-  {
+    rsiPreFilter: null,
+    rule: { kind: "maEnvelope", timeframe: "daily", period: 120, lowerPct: -10, upperPct: 10 },
+  }),
+  defineCondition({
     id: 9,
     group: "daily",
     timeframe: "주봉",
     title: "주봉 정배열 + 일봉 20선 근접",
-    description: "주봉 20선, 60선, 120선이 상승 정배열이고 현재가가 일봉 20일선 위아래 5% 이내인 종목",
-  },
-  {
+    rule: {
+      kind: "allOf",
+      rules: [
+        { kind: "maAlignment", timeframe: "weekly", periods: [20, 60, 120], minResolvedPeriods: 2 },
+        { kind: "maEnvelope", timeframe: "daily", period: 20, lowerPct: -5, upperPct: 5 },
+      ],
+    },
+  }),
+  defineCondition({
     id: 10,
     group: "daily",
     timeframe: "월봉",
     title: "월봉 정배열 + 일봉 20선 근접",
-    description: "월봉 20선, 60선, 120선이 상승 정배열이고 현재가가 일봉 20일선 위아래 5% 이내인 종목",
-  },
+    rule: {
+      kind: "allOf",
+      rules: [
+        { kind: "maAlignment", timeframe: "monthly", periods: [20, 60, 120], minResolvedPeriods: 2 },
+        { kind: "maEnvelope", timeframe: "daily", period: 20, lowerPct: -5, upperPct: 5 },
+      ],
+    },
+  }),
 ];
 
+// Returns null when the expression references an entry profile turned off with `enabled: false`, so
+// the config toggle leaves the composite out instead of failing the import. Any other unknown id
+// still throws.
+function defineCompositeCondition(
+  condition: Pick<CompositeConditionMeta, "id" | "title" | "expression">,
+): CompositeConditionMeta | null {
+  const disabledProfileIds = ENTRY_PROFILES.filter((profile) => !profile.enabled).map((profile) => profile.conditionId);
+  if (collectCompositeConditionIds(condition.expression).some((id) => disabledProfileIds.includes(id))) {
+    return null;
+  }
+
+  const errors = validateCompositeExpression(condition.expression, (id) =>
+    RULE_CONDITIONS.some((item) => item.id === id),
+  );
+  if (condition.id < COMPOSITE_CONDITION_ID_START || condition.id >= CUSTOM_CONDITION_ID_START) {
+    errors.push(`id must be ${COMPOSITE_CONDITION_ID_START}-${CUSTOM_CONDITION_ID_START - 1}`);
+  }
+  if (errors.length > 0) {
+    throw new Error(`Composite condition ${condition.id} is invalid: ${errors.join("; ")}`);
+  }
+
+  return {
+    ...condition,
+    group: "composite",
+    timeframe: "복합",
+    description: describeCompositeSummary(condition.expression),
+  };
+}
+
+// Composites may reference any built-in or entry-profile condition from either group.
+const COMPOSITE_CONDITIONS: CompositeConditionMeta[] = [
+  defineCompositeCondition({
+    id: 51,
+    title: "일봉 정배열 + 4시간봉 1일 20선 터치",
+    expression: {
+      kind: "allOf",
+      expressions: [
+        { kind: "condition", id: 5 },
+        { kind: "condition", id: 11 },
+      ],
+    },
+  }),
+  defineCompositeCondition({
+    id: 52,
+    title: "4시간봉 정배열, 일봉 120일선 ±10% 제외",
+    expression: {
+      kind: "allOf",
+      expressions: [
+        { kind: "condition", id: 2 },
+        { kind: "not", expression: { kind: "condition", id: 8 } },
+      ],
+    },
+  }),
+].filter((condition): condition is CompositeConditionMeta => condition !== null);
+
+export const COMPOSITE_CONDITION_IDS: ConditionId[] = COMPOSITE_CONDITIONS.map((condition) => condition.id);
+
+export const CONDITIONS: ConditionMeta[] = [...RULE_CONDITIONS, ...COMPOSITE_CONDITIONS];
+
+export function isRuleCondition(condition: ConditionMeta): condition is RuleConditionMeta {
+  return condition.group !== "composite";
+}
+
 export const ALL_CONDITION_IDS: ConditionId[] = CONDITIONS.map((condition) => condition.id);
+
+export function createCustomConditionMeta(id: ConditionId, input: CustomConditionInput): RuleConditionMeta {
+  return {
+    id,
+    group: input.group,
+    timeframe: RULE_TIMEFRAME_LABELS[input.group],
+    title: input.title,
+    description: describeRuleCondition(input.rule, input.rsiPreFilter),
+    rule: input.rule,
+    score: resolveScoreModel(input.rule),
+    rsiPreFilter: input.rsiPreFilter,
+    custom: true,
+  };
+}
+
+export function parseCustomConditionInput(value: unknown): { input: CustomConditionInput | null; errors: string[] } {
+  if (typeof value !== "object" || value === null) {
+    return { input: null, errors: ["body must be an object"] };
+  }
+
+  const { title, group, rule, rsiPreFilter } = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const trimmedTitle = typeof title === "string" ? title.trim() : "";
+
+  if (!trimmedTitle) {
+    errors.push("title is required");
+  } else if (trimmedTitle.length > MAX_CUSTOM_CONDITION_TITLE_LENGTH) {
+    errors.push(`title must be at most ${MAX_CUSTOM_CONDITION_TITLE_LENGTH} characters`);
+  }
+
+  if (group !== "fourHour" && group !== "daily") {
+    errors.push("group must be one of fourHour, daily");
+  }
+
+  const ruleErrors = validateConditionRule(rule);
+  errors.push(...ruleErrors);
+
+  if (ruleErrors.length === 0 && group === "daily" && collectRuleTimeframes(rule as ConditionRule).has("fourHour")) {
+    errors.push("daily conditions cannot reference the fourHour timeframe");
+  }
+
+  errors.push(...validateRsiPreFilter(rsiPreFilter));
+
+  if (errors.length > 0) {
+    return { input: null, errors };
+  }
+
+  return {
+    input: {
+      title: trimmedTitle,
+      group: group as ConditionGroup,
+      rule: rule as ConditionRule,
+      // Entries saved before the filter became configurable had the default applied implicitly.
+      rsiPreFilter: rsiPreFilter === undefined ? DEFAULT_RSI_PRE_FILTER : (rsiPreFilter as RsiPreFilter | null),
+    },
+    errors,
+  };
+}
+
 export const DEFAULT_CONDITION_ID: ConditionId = CONDITIONS[0].id;
 
 export const SCREENER_BOOTSTRAP = {
@@ -108,6 +460,7 @@ export const SCREENER_BOOTSTRAP = {
   groups: {
     fourHour: FOUR_HOUR_CONDITION_IDS,
     daily: DAILY_CONDITION_IDS,
+    composite: COMPOSITE_CONDITION_IDS,
   },
   conditions: CONDITIONS,
 } as const;
@@ -1,46 +1,88 @@
 import { readSessionValue, writeSessionValue } from "./session";
-import type { AssetChartData, CachedConditionData, ChartFrameScope, CryptoData, SortConfig } from "../types";
+import type { ConditionMeta, CustomConditionInput } from "../conditions";
+import { EXCHANGES, type ExchangeId } from "../config/exchanges";
+import { isIndicatorColumnKey, type IndicatorColumnFormat, type IndicatorColumnKey } from "../config/indicatorColumns";
+import type {
+  AlertRule,
+  AssetChartData,
+  CachedConditionData,
+  ChartFrameScope,
+  ConditionExplanation,
+  ConditionMatrix,
+  ConditionMatrixGroup,
+  ConditionPerformance,
+  CryptoData,
+  NearMiss,
+  OrderbookAnalysis,
+  ScanProgress,
+  SortConfig,
+} from "../types";
 
 const FAVORITES_KEY = "quant-screener-favorites";
-const inflightRequests = new Map<number, Promise<CachedConditionData | null>>();
-const CHART_CACHE_PREFIX = "quant-screener-chart-";
+const INDICATOR_COLUMNS_KEY = "quant-screener-indicator-columns";
+const inflightRequests = new Map<string, Promise<CachedConditionData | null>>();
+const CHART_CACHE_BASE = "quant-screener-chart-";
+// Bumped when the chart payload shape changes so frames cached by an older build are never read.
+const CHART_CACHE_PREFIX = `${CHART_CACHE_BASE}v2-`;
 const inflightChartRequests = new Map<string, Promise<AssetChartData | null>>();
 
-export const getCacheKey = (conditionId: number) => `quant-screener-condition-${conditionId}`;
-export const getChartCacheKey = (market: string) => `${CHART_CACHE_PREFIX}${market}`;
+export const getCacheKey = (exchange: ExchangeId, conditionId: number) => `quant-screener-condition-${exchange}-${conditionId}`;
+export const getChartCacheKey = (exchange: ExchangeId, market: string) => `${CHART_CACHE_PREFIX}${exchange}-${market}`;
 
-export function readCachedConditionData(conditionId: number) {
-  return readSessionValue<CachedConditionData>(getCacheKey(conditionId));
+export function readCachedConditionData(exchange: ExchangeId, conditionId: number) {
+  return readSessionValue<CachedConditionData>(getCacheKey(exchange, conditionId));
 }
 
-export function writeCachedConditionData(conditionId: number, data: CryptoData[], lastUpdated: string) {
-  writeSessionValue(getCacheKey(conditionId), { data, lastUpdated });
+export function writeCachedConditionData(
+  exchange: ExchangeId,
+  conditionId: number,
+  data: CryptoData[],
+  nearMisses: NearMiss[],
+  lastUpdated: string,
+) {
+  writeSessionValue(getCacheKey(exchange, conditionId), { data, nearMisses, lastUpdated });
 }
 
-export function clearConditionCache(conditionIds: number[]) {
-  conditionIds.forEach((conditionId) => {
-    sessionStorage.removeItem(getCacheKey(conditionId));
+// Without an exchange the ids are cleared on every venue, e.g. after a condition definition changes.
+export function clearConditionCache(conditionIds: number[], exchange?: ExchangeId) {
+  const exchanges = exchange ? [exchange] : EXCHANGES.map((item) => item.id);
+  exchanges.forEach((exchangeId) => {
+    conditionIds.forEach((conditionId) => {
+      sessionStorage.removeItem(getCacheKey(exchangeId, conditionId));
+    });
   });
 }
 
-export function readCachedChartData(market: string) {
-  return readSessionValue<AssetChartData>(getChartCacheKey(market));
+export function readCachedChartData(exchange: ExchangeId, market: string) {
+  return readSessionValue<AssetChartData>(getChartCacheKey(exchange, market));
 }
 
-export function writeCachedChartData(market: string, value: AssetChartData) {
-  writeSessionValue(getChartCacheKey(market), value);
+// Chart payloads are large. When sessionStorage is full the other cached charts are dropped, and if
+// it still does not fit the response is used without caching.
+export function writeCachedChartData(exchange: ExchangeId, market: string, value: AssetChartData) {
+  try {
+    writeSessionValue(getChartCacheKey(exchange, market), value);
+  } catch {
+    clearChartCache(exchange);
+    try {
+      writeSessionValue(getChartCacheKey(exchange, market), value);
+    } catch (error) {
+      console.warn("Chart data was not cached:", error);
+    }
+  }
 }
 
-export function clearChartCache(market?: string) {
+export function clearChartCache(exchange: ExchangeId, market?: string) {
   if (market) {
-    sessionStorage.removeItem(getChartCacheKey(market));
+    sessionStorage.removeItem(getChartCacheKey(exchange, market));
     return;
   }
 
   const keysToRemove: string[] = [];
   for (let index = 0; index < sessionStorage.length; index += 1) {
     const key = sessionStorage.key(index);
-    if (key && key.startsWith(CHART_CACHE_PREFIX)) {
+    // The base prefix also removes entries left by older cache versions.
+    if (key && key.startsWith(CHART_CACHE_BASE)) {
       keysToRemove.push(key);
     }
   }
@@ -57,14 +99,27 @@ export function writeFavorites(favorites: string[]) {
   writeSessionValue(FAVORITES_KEY, favorites);
 }
 
-export async function requestConditionData(conditionId: number, forceRefresh = false) {
+// Extra result-table columns, chosen separately for each condition.
+export function readIndicatorColumns(conditionId: number): IndicatorColumnKey[] {
+  const columns = readSessionValue<Record<string, unknown[]>>(INDICATOR_COLUMNS_KEY)?.[conditionId];
+  return Array.isArray(columns) ? columns.filter(isIndicatorColumnKey) : [];
+}
+
+export function writeIndicatorColumns(conditionId: number, columns: IndicatorColumnKey[]) {
+  const stored = readSessionValue<Record<string, IndicatorColumnKey[]>>(INDICATOR_COLUMNS_KEY) ?? {};
+  writeSessionValue(INDICATOR_COLUMNS_KEY, { ...stored, [conditionId]: columns });
+}
+
+export async function requestConditionData(exchange: ExchangeId, conditionId: number, forceRefresh = false) {
+  const requestKey = `${exchange}:${conditionId}`;
+
   if (!forceRefresh) {
-    const cachedData = readCachedConditionData(conditionId);
+    const cachedData = readCachedConditionData(exchange, conditionId);
     if (cachedData) {
       return cachedData;
     }
 
-    const inflightRequest = inflightRequests.get(conditionId);
+    const inflightRequest = inflightRequests.get(requestKey);
     if (inflightRequest) {
       return inflightRequest;
     }
@@ -73,7 +128,7 @@ export async function requestConditionData(conditionId: number, forceRefresh = f
   const requestPromise = (async () => {
     try {
       const refreshQuery = forceRefresh ? "&refresh=1" : "";
-      const response = await fetch(`/api/crypto?conditionId=${conditionId}${refreshQuery}`);
+      const response = await fetch(`/api/crypto?exchange=${exchange}&conditionId=${conditionId}${refreshQuery}`);
       if (!response.ok) {
         throw new Error(`Request failed with status ${response.status}`);
       }
@@ -85,17 +140,20 @@ export async function requestConditionData(conditionId: number, forceRefresh = f
 
       const updatedAt = new Date(result.generatedAt ?? Date.now()).toLocaleTimeString();
       const allData = result.allData as Record<string, CryptoData[]> | undefined;
+      const allNearMisses = (result.allNearMisses ?? {}) as Record<string, NearMiss[]>;
+      const nearMisses = (result.nearMisses ?? []) as NearMiss[];
 
       if (allData) {
         Object.entries(allData).forEach(([key, value]) => {
-          writeCachedConditionData(Number(key), value, updatedAt);
+          writeCachedConditionData(exchange, Number(key), value, allNearMisses[key] ?? [], updatedAt);
         });
       } else {
-        writeCachedConditionData(conditionId, result.data as CryptoData[], updatedAt);
+        writeCachedConditionData(exchange, conditionId, result.data as CryptoData[], nearMisses, updatedAt);
       }
 
-      return readCachedConditionData(conditionId) ?? {
+      return readCachedConditionData(exchange, conditionId) ?? {
         data: result.data as CryptoData[],
+        nearMisses,
         lastUpdated: updatedAt,
       };
     } catch (error) {
@@ -103,28 +161,34 @@ export async function requestConditionData(conditionId: number, forceRefresh = f
       return null;
     } finally {
       if (!forceRefresh) {
-        inflightRequests.delete(conditionId);
+        inflightRequests.delete(requestKey);
       }
     }
   })();
 
   if (!forceRefresh) {
-    inflightRequests.set(conditionId, requestPromise);
+    inflightRequests.set(requestKey, requestPromise);
   }
 
   return requestPromise;
 }
 
-export async function requestAssetChartData(market: string, forceRefresh = false, frameScope: ChartFrameScope = "all") {
+export async function requestAssetChartData(
+  exchange: ExchangeId,
+  market: string,
+  forceRefresh = false,
+  frameScope: ChartFrameScope = "all",
+) {
   const shouldReuseCached = !forceRefresh && frameScope === "all";
+  const requestKey = `${exchange}:${market}`;
 
   if (shouldReuseCached) {
-    const cachedData = readCachedChartData(market);
+    const cachedData = readCachedChartData(exchange, market);
     if (cachedData) {
       return cachedData;
     }
 
-    const inflightRequest = inflightChartRequests.get(market);
+    const inflightRequest = inflightChartRequests.get(requestKey);
     if (inflightRequest) {
       return inflightRequest;
     }
@@ -134,7 +198,9 @@ export async function requestAssetChartData(market: string, forceRefresh = false
     try {
       const refreshQuery = forceRefresh ? "&refresh=1" : "";
       const frameQuery = frameScope !== "all" ? `&frame=${frameScope}` : "";
-      const response = await fetch(`/api/chart?market=${encodeURIComponent(market)}${refreshQuery}${frameQuery}`);
+      const response = await fetch(
+        `/api/chart?exchange=${exchange}&market=${encodeURIComponent(market)}${refreshQuery}${frameQuery}`,
+      );
       if (!response.ok) {
         throw new Error(`Chart request failed with status ${response.status}`);
       }
@@ -144,26 +210,190 @@ export async function requestAssetChartData(market: string, forceRefresh = false
         throw new Error("Chart API returned an unsuccessful response");
       }
 
-      writeCachedChartData(market, result);
+      writeCachedChartData(exchange, market, result);
       return result;
     } catch (error) {
       console.error("Failed to fetch chart data:", error);
       return null;
     } finally {
       if (shouldReuseCached) {
-        inflightChartRequests.delete(market);
+        inflightChartRequests.delete(requestKey);
       }
     }
   })();
 
   if (shouldReuseCached) {
-    inflightChartRequests.set(market, requestPromise);
+    inflightChartRequests.set(requestKey, requestPromise);
   }
 
   return requestPromise;
 }
 
-export function filterAndSortData(data: CryptoData[], searchTerm: string, sortConfig: SortConfig) {
+// Streams scan progress for one exchange and condition group; returns a function that closes the stream.
+export function subscribeScanProgress(
+  exchange: ExchangeId,
+  group: ScanProgress["group"],
+  onProgress: (progress: ScanProgress) => void,
+) {
+  const eventSource = new EventSource(`/api/scan/stream?exchange=${exchange}&group=${group}`);
+  eventSource.addEventListener("progress", (event) => {
+    onProgress(JSON.parse((event as MessageEvent<string>).data) as ScanProgress);
+  });
+
+  return () => eventSource.close();
+}
+
+export async function requestConditionRegistry() {
+  try {
+    const response = await fetch("/api/conditions");
+    if (!response.ok) {
+      throw new Error(`Condition registry request failed with status ${response.status}`);
+    }
+
+    const result = (await response.json()) as { success?: boolean; conditions?: ConditionMeta[] };
+    if (!result.success || !result.conditions) {
+      throw new Error("Condition registry API returned an unsuccessful response");
+    }
+
+    return result.conditions;
+  } catch (error) {
+    console.error("Failed to fetch condition registry:", error);
+    return null;
+  }
+}
+
+export async function requestConditionMatrix(exchange: ExchangeId, group: ConditionMatrixGroup, forceRefresh = false) {
+  try {
+    const refreshQuery = forceRefresh ? "&refresh=1" : "";
+    const response = await fetch(`/api/matrix?exchange=${exchange}&group=${group}${refreshQuery}`);
+    if (!response.ok) {
+      throw new Error(`Condition matrix request failed with status ${response.status}`);
+    }
+
+    const result = (await response.json()) as ConditionMatrix & { success?: boolean };
+    if (!result.success) {
+      throw new Error("Condition matrix API returned an unsuccessful response");
+    }
+
+    return result;
+  } catch (error) {
+    console.error("Failed to fetch condition matrix:", error);
+    return null;
+  }
+}
+
+export async function requestConditionPerformance(exchange: ExchangeId) {
+  try {
+    const response = await fetch(`/api/condition-performance?exchange=${exchange}`);
+    if (!response.ok) {
+      throw new Error(`Condition performance request failed with status ${response.status}`);
+    }
+
+    const result = (await response.json()) as { success?: boolean; conditions?: ConditionPerformance[] };
+    if (!result.success || !result.conditions) {
+      throw new Error("Condition performance API returned an unsuccessful response");
+    }
+
+    return result.conditions;
+  } catch (error) {
+    console.error("Failed to fetch condition performance:", error);
+    return null;
+  }
+}
+
+export async function requestConditionExplanation(exchange: ExchangeId, market: string, conditionId: number) {
+  const response = await fetch(
+    `/api/explain?exchange=${exchange}&market=${encodeURIComponent(market)}&conditionId=${conditionId}`,
+  );
+  const result = (await response.json()) as { success?: boolean; error?: string } & ConditionExplanation;
+  if (!response.ok || !result.success) {
+    throw new Error(result.error ?? `Explain request failed with status ${response.status}`);
+  }
+
+  return result;
+}
+
+export async function requestOrderbookAnalysis(exchange: ExchangeId, market: string) {
+  const response = await fetch(`/api/orderbook?exchange=${exchange}&market=${encodeURIComponent(market)}`);
+  const result = (await response.json()) as { success?: boolean; error?: string } & OrderbookAnalysis;
+  if (!response.ok || !result.success) {
+    throw new Error(result.error ?? `Orderbook request failed with status ${response.status}`);
+  }
+
+  return result;
+}
+
+export async function requestAlertRules() {
+  try {
+    const response = await fetch("/api/alerts");
+    if (!response.ok) {
+      throw new Error(`Alert rules request failed with status ${response.status}`);
+    }
+
+    const result = (await response.json()) as { success?: boolean; rules?: AlertRule[]; webhookCount?: number };
+    if (!result.success || !result.rules) {
+      throw new Error("Alert rules API returned an unsuccessful response");
+    }
+
+    return { rules: result.rules, webhookCount: result.webhookCount ?? 0 };
+  } catch (error) {
+    console.error("Failed to fetch alert rules:", error);
+    return null;
+  }
+}
+
+type AlertRuleInput = Pick<AlertRule, "conditionId" | "exchange" | "markets" | "followsFavorites">;
+
+export async function saveAlertRule(input: AlertRuleInput, ruleId?: number) {
+  const response = await fetch(ruleId ? `/api/alerts/${ruleId}` : "/api/alerts", {
+    method: ruleId ? "PUT" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const result = (await response.json()) as { success?: boolean; rule?: AlertRule; error?: string; details?: string[] };
+
+  if (!response.ok || !result.success || !result.rule) {
+    throw new Error([result.error ?? `Request failed with status ${response.status}`, ...(result.details ?? [])].join("\n"));
+  }
+
+  return result.rule;
+}
+
+export async function deleteAlertRule(ruleId: number) {
+  const response = await fetch(`/api/alerts/${ruleId}`, { method: "DELETE" });
+  if (!response.ok) {
+    throw new Error(`Delete failed with status ${response.status}`);
+  }
+}
+
+export async function saveCustomCondition(input: CustomConditionInput, conditionId?: number) {
+  const response = await fetch(conditionId ? `/api/conditions/${conditionId}` : "/api/conditions", {
+    method: conditionId ? "PUT" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const result = (await response.json()) as {
+    success?: boolean;
+    condition?: ConditionMeta;
+    error?: string;
+    details?: string[];
+  };
+
+  if (!response.ok || !result.success || !result.condition) {
+    throw new Error([result.error ?? `Request failed with status ${response.status}`, ...(result.details ?? [])].join("\n"));
+  }
+
+  return result.condition;
+}
+
+export async function deleteCustomCondition(conditionId: number) {
+  const response = await fetch(`/api/conditions/${conditionId}`, { method: "DELETE" });
+  if (!response.ok) {
+    throw new Error(`Delete failed with status ${response.status}`);
+  }
+}
+
+export function filterAndSortData<T extends CryptoData>(data: T[], searchTerm: string, sortConfig: SortConfig) {
   const normalizedSearch = searchTerm.trim().toLowerCase();
 
   const filteredData = data.filter((item) => {
@@ -186,6 +416,11 @@ export function filterAndSortData(data: CryptoData[], searchTerm: string, sortCo
     const leftValue = leftItem[sortConfig.key];
     const rightValue = rightItem[sortConfig.key];
 
+    // Missing values (e.g. a row without a score) stay at the bottom in either direction.
+    if (leftValue === undefined || leftValue === null || rightValue === undefined || rightValue === null) {
+      return Number(leftValue === undefined || leftValue === null) - Number(rightValue === undefined || rightValue === null);
+    }
+
     if (leftValue < rightValue) {
       return sortConfig.direction === "asc" ? -1 : 1;
     }
@@ -201,3 +436,36 @@ export function filterAndSortData(data: CryptoData[], searchTerm: string, sortCo
 export function formatVolume(volume: number) {
   return `₩${(volume / 100000000).toFixed(1)}B`;
 }
+
+export function formatIndicatorValue(value: number | null | undefined, format: IndicatorColumnFormat) {
+  if (value === null || value === undefined) {
+    return "-";
+  }
+
+  switch (format) {
+    case "price":
+      return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+    case "percent":
+      return `${value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+    case "rsi":
+      return value.toFixed(1);
+    case "krw":
+      return formatVolume(value);
+    case "bps":
+      return `${value.toFixed(1)}bp`;
+    case "ratio":
+      return `${value.toFixed(2)}x`;
+  }
+}
+
+// The base table spans 12 grid columns; each extra indicator column adds two and widens the table.
+export function getResultGridStyle(extraColumnCount: number) {
+  if (extraColumnCount === 0) {
+    return undefined;
+  }
+
+  return {
+    gridTemplateColumns: `repeat(${12 + extraColumnCount * 2}, minmax(0, 1fr))`,
+    minWidth: `${100 + extraColumnCount * 15}%`,
+  };
+}
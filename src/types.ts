@@ -1,10 +1,20 @@
-export interface CryptoData {
+import type { ExchangeId } from "./config/exchanges";
+import type { IndicatorValues } from "./config/indicatorColumns";
+
+// Indicator fields are absent on partial matches streamed during a scan.
+export interface CryptoData extends Partial<IndicatorValues> {
   market: string;
   korean_name: string;
   english_name: string;
   price: number;
   change: number;
   volume: number;
+  // 0-100 ranking score for the selected condition; only set on condition results.
+  score?: number | null;
+  // Scan-to-scan presence; only set on condition results, not on near misses.
+  firstSeenAt?: number;
+  scanStreak?: number;
+  isNew?: boolean;
 }
 
 export interface ChartCandle {
@@ -13,6 +23,7 @@ export interface ChartCandle {
   high: number;
   low: number;
   close: number;
+  volume: number;
 }
 
 export interface ChartLinePoint {
@@ -20,9 +31,22 @@ export interface ChartLinePoint {
   value: number;
 }
 
+// Server-computed overlays (EMA ribbon, Bollinger bands) and sub-pane series (MACD, ADX, ATR).
+export interface ChartIndicatorSeries {
+  ema: Record<string, ChartLinePoint[]>;
+  bollinger: { upper: ChartLinePoint[]; middle: ChartLinePoint[]; lower: ChartLinePoint[] };
+  macd: { macd: ChartLinePoint[]; signal: ChartLinePoint[]; histogram: ChartLinePoint[] };
+  atr: ChartLinePoint[];
+  adx: { adx: ChartLinePoint[]; plusDi: ChartLinePoint[]; minusDi: ChartLinePoint[] };
+}
+
 export interface ChartFrameData {
   candles: ChartCandle[];
   movingAverages: Record<string, ChartLinePoint[]>;
+  indicators: ChartIndicatorSeries;
+  volumeInflowTimes: number[];
+  lastBarInProgress: boolean;
+  gapCount: number;
 }
 
 export type ChartFrameScope = "all" | "daily" | "fourHour";
@@ -35,6 +59,7 @@ export interface ChartFrameState {
 }
 
 export interface AssetChartData {
+  exchange: ExchangeId;
   market: string;
   symbol: string;
   generatedAt: number;
@@ -42,8 +67,90 @@ export interface AssetChartData {
   fourHour: ChartFrameState;
 }
 
+export type SignalReturnHorizon = "4h" | "1d" | "3d" | "7d";
+
+export type ConditionPerformance = {
+  conditionId: number;
+  signalCount: number;
+  pendingCount: number;
+  lastSignalAt: number | null;
+  horizons: Record<SignalReturnHorizon, { sampleCount: number; averageReturn: number | null; hitRate: number | null }>;
+};
+
+export type ConditionCheck = {
+  kind: string;
+  label: string;
+  passed: boolean;
+  actual: string | null;
+  threshold: string | null;
+  children?: ConditionCheck[];
+};
+
+export type ConditionExplanation = {
+  exchange: ExchangeId;
+  market: string;
+  conditionId: number;
+  passed: boolean;
+  preFilters: ConditionCheck[];
+  // Null when the symbol has no usable daily history, so no rule could be evaluated.
+  checks: ConditionCheck | null;
+};
+
+export type OrderbookSlippage = {
+  side: "buy" | "sell";
+  orderKrw: number;
+  // Null when the visible book cannot fill the whole order.
+  averagePrice: number | null;
+  slippagePct: number | null;
+  fillableKrw: number;
+};
+
+export type OrderbookAnalysis = {
+  exchange: ExchangeId;
+  market: string;
+  generatedAt: number;
+  bestBid: number | null;
+  bestAsk: number | null;
+  spreadBps: number | null;
+  depth: { levels: number; bidNotionalKrw: number; askNotionalKrw: number }[];
+  imbalanceRatio: number | null;
+  slippage: OrderbookSlippage[];
+};
+
+// A symbol that would have matched if exactly one rule check had passed.
+export type NearMiss = CryptoData & {
+  failedCheck: ConditionCheck;
+  shortfallPct: number;
+};
+
+export type AlertRule = {
+  id: number;
+  conditionId: number;
+  exchange: ExchangeId | null;
+  markets: string[] | null;
+  // Missing on rules saved before favorites rules followed the favorites list.
+  followsFavorites?: boolean;
+  createdAt: number;
+};
+
+export type ConditionMatrixGroup = "all" | "fourHour" | "daily";
+
+export type ConditionMatrixRow = CryptoData & {
+  matchedConditionIds: number[];
+};
+
+export type ConditionMatrix = {
+  exchange: ExchangeId;
+  group: ConditionMatrixGroup;
+  generatedAt: Partial<Record<"fourHour" | "daily", number>>;
+  conditions: { id: number; group: "fourHour" | "daily"; title: string }[];
+  // Only markets that matched at least one column.
+  rows: ConditionMatrixRow[];
+};
+
 export type CachedConditionData = {
   data: CryptoData[];
+  nearMisses: NearMiss[];
   lastUpdated: string;
 };
 
@@ -54,4 +161,17 @@ export type SortConfig = {
   direction: SortDirection;
 };
 
+export type ScanProgress = {
+  exchange: ExchangeId;
+  group: "fourHour" | "daily";
+  phase: "tickers" | "symbols" | "done" | "failed";
+  startedAt: number;
+  finishedAt: number | null;
+  total: number;
+  completed: number;
+  failed: number;
+  error: string | null;
+  matchesByCondition: Record<string, CryptoData[]>;
+};
+
 export type LoadingState = "idle" | "loading" | "refreshing";